@@ -0,0 +1,170 @@
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/fileParser";
+import { QualityBadges } from "@/components/quality-filters";
+import type { LibraryMatch, MediaQuality } from "@shared/schema";
+
+export interface ConflictItem {
+  id: string;
+  originalFilename: string;
+  originalPath: string;
+  destinationPath: string | null;
+  detectedName: string | null;
+  fileSize: string | null;
+  quality: MediaQuality | null;
+  // File currently at the destination (null when it has since gone away)
+  existing: LibraryMatch | null;
+  comparison: { incomingIsBetter: boolean; reasons: string[] } | null;
+}
+
+type ConflictAction = "overwrite" | "keep_both" | "keep_existing" | "retry";
+
+const ACTION_MESSAGES: Record<ConflictAction, string> = {
+  overwrite: "The incoming file replaced the existing one.",
+  keep_both: "Both files were kept; the incoming file got a numbered name.",
+  keep_existing: "Kept the existing file; the incoming file is marked as a duplicate.",
+  retry: "The file is back in the pending list.",
+};
+
+// Helper: size label for a byte count stored as a string
+function sizeLabel(fileSize: string | null): string {
+  const bytes = parseInt(fileSize || "", 10);
+  return Number.isFinite(bytes) ? formatFileSize(bytes) : "Unknown size";
+}
+
+// Files that weren't organized because their destination was already taken
+export function ConflictReview({ items }: { items: ConflictItem[] }) {
+  const { toast } = useToast();
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: ConflictAction }) =>
+      apiRequest("POST", `/api/media-items/${id}/conflict`, { action }),
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conflicts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organize/preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      if (action === "overwrite" || action === "keep_both") {
+        queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tv-series"] });
+      }
+      toast({ title: "Resolved", description: ACTION_MESSAGES[action] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Resolve",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = (id: string) => resolveMutation.isPending && resolveMutation.variables?.id === id;
+
+  return (
+    <Card data-testid="card-conflicts">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-yellow-500" />
+            Conflicts
+          </span>
+          <Badge variant="secondary">{items.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          A file already exists at these destinations. Compare the two copies and choose which to keep.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No conflicts to review</p>
+        ) : (
+          <div className="space-y-3 max-h-[600px] overflow-y-auto">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className="p-3 rounded-md border space-y-3"
+                data-testid={`conflict-${item.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-sm">{item.detectedName || item.originalFilename}</p>
+                  {item.comparison && (
+                    <Badge variant={item.comparison.incomingIsBetter ? "default" : "outline"}>
+                      {item.comparison.incomingIsBetter ? "Incoming is better" : "Existing is as good or better"}
+                    </Badge>
+                  )}
+                </div>
+                <div className="grid gap-3 md:grid-cols-2">
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">
+                      Incoming · {sizeLabel(item.fileSize)}
+                    </p>
+                    <QualityBadges quality={item.quality} />
+                    <p className="text-xs text-muted-foreground font-mono truncate" title={item.originalPath}>
+                      {item.originalPath}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">
+                      Existing · {item.existing ? sizeLabel(item.existing.fileSize) : "No longer there"}
+                    </p>
+                    <QualityBadges quality={item.existing?.quality} />
+                    <p className="text-xs text-muted-foreground font-mono truncate" title={item.destinationPath || ""}>
+                      {item.destinationPath}
+                    </p>
+                  </div>
+                </div>
+                {item.comparison && item.comparison.reasons.length > 0 && (
+                  <p className="text-xs text-muted-foreground">{item.comparison.reasons.join(" · ")}</p>
+                )}
+                <div className="flex gap-2 flex-wrap">
+                  <Button
+                    size="sm"
+                    onClick={() => resolveMutation.mutate({ id: item.id, action: "overwrite" })}
+                    disabled={isPending(item.id) || !item.existing}
+                    data-testid={`button-conflict-overwrite-${item.id}`}
+                  >
+                    {isPending(item.id) && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    Overwrite
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => resolveMutation.mutate({ id: item.id, action: "keep_both" })}
+                    disabled={isPending(item.id) || !item.existing}
+                    data-testid={`button-conflict-keep-both-${item.id}`}
+                  >
+                    Keep Both
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => resolveMutation.mutate({ id: item.id, action: "keep_existing" })}
+                    disabled={isPending(item.id)}
+                    data-testid={`button-conflict-keep-existing-${item.id}`}
+                  >
+                    Keep Existing
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => resolveMutation.mutate({ id: item.id, action: "retry" })}
+                    disabled={isPending(item.id)}
+                    data-testid={`button-conflict-retry-${item.id}`}
+                  >
+                    Back to Pending
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
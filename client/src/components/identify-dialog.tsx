@@ -0,0 +1,269 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, Film, Loader2, Search, Tv, Wand2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type IdentifyType = "movie" | "tvshow";
+
+// What is being identified: one scanned file, or a Movies / TV Shows library entry
+export interface IdentifySubject {
+  kind: "item" | "movie" | "series";
+  id: string;
+  name: string;
+  year?: number | null;
+  // Detected type of a scanned file; library entries have a fixed type
+  type?: string;
+}
+
+interface TmdbSearchResult {
+  id: number;
+  title: string;
+  originalTitle: string | null;
+  year: string | null;
+  overview: string | null;
+  posterPath: string | null;
+}
+
+interface IdentifyResponse {
+  updated: unknown[];
+  skipped: string[];
+}
+
+interface IdentifyDialogProps {
+  subject: IdentifySubject | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Helper: endpoint that applies a chosen TMDB ID to the subject
+function identifyUrl(subject: IdentifySubject): string {
+  if (subject.kind === "movie") return `/api/movies/${subject.id}/identify`;
+  if (subject.kind === "series") return `/api/tv-series/${subject.id}/identify`;
+  return `/api/media-items/${subject.id}/identify`;
+}
+
+// Search TMDB and apply the chosen movie or show to a file (optionally with the rest of its
+// series) or to a library entry and its files
+export function IdentifyDialog({ subject, onOpenChange }: IdentifyDialogProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<IdentifyType>("movie");
+  const [query, setQuery] = useState("");
+  const [year, setYear] = useState("");
+  const [submitted, setSubmitted] = useState<{ query: string; year: string } | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [applyToSiblings, setApplyToSiblings] = useState(false);
+
+  // Start each identification from the subject's current name and year
+  useEffect(() => {
+    if (!subject) return;
+    const initialType: IdentifyType =
+      subject.kind === "series" || (subject.kind === "item" && subject.type === "tvshow") ? "tvshow" : "movie";
+    setType(initialType);
+    setQuery(subject.name);
+    setYear(subject.year ? String(subject.year) : "");
+    setSubmitted(subject.name ? { query: subject.name, year: subject.year ? String(subject.year) : "" } : null);
+    setSelectedId(null);
+    setApplyToSiblings(subject.kind === "item" && initialType === "tvshow");
+  }, [subject]);
+
+  const { data: results, isFetching, error } = useQuery<TmdbSearchResult[]>({
+    queryKey: ["/api/tmdb/search", type, submitted?.query, submitted?.year],
+    queryFn: async () => {
+      const params = new URLSearchParams({ query: submitted!.query });
+      if (submitted!.year) params.set("year", submitted!.year);
+      const res = await fetch(`/api/tmdb/search/${type === "movie" ? "movie" : "tv"}?${params}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "TMDB search failed");
+      return body;
+    },
+    enabled: !!subject && !!submitted?.query,
+  });
+
+  const identifyMutation = useMutation({
+    mutationFn: async (): Promise<IdentifyResponse> => {
+      const res = await apiRequest("POST", identifyUrl(subject!), {
+        tmdbId: selectedId,
+        type,
+        applyToSiblings,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organize/preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tv-series"] });
+      const skipped = data.skipped.length > 0 ? ` ${data.skipped.length} skipped (no episode number).` : "";
+      toast({
+        title: "Identified",
+        description: `${data.updated.length} file(s) updated.${skipped}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Identify",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const search = () => {
+    if (!query.trim()) return;
+    setSelectedId(null);
+    setSubmitted({ query: query.trim(), year: year.trim() });
+  };
+
+  return (
+    <Dialog open={!!subject} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Identify {subject?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Choose the correct TMDB title. Destinations are rebuilt from it; files that were already organized go
+            back to the Organizer to be moved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            {subject?.kind === "item" && (
+              <ToggleGroup
+                type="single"
+                value={type}
+                onValueChange={(value) => {
+                  if (!value) return;
+                  setType(value as IdentifyType);
+                  setSelectedId(null);
+                }}
+              >
+                <ToggleGroupItem value="movie" aria-label="Movie" data-testid="button-identify-type-movie">
+                  <Film className="h-4 w-4" />
+                </ToggleGroupItem>
+                <ToggleGroupItem value="tvshow" aria-label="TV show" data-testid="button-identify-type-tv">
+                  <Tv className="h-4 w-4" />
+                </ToggleGroupItem>
+              </ToggleGroup>
+            )}
+            <Input
+              placeholder="Title"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && search()}
+              data-testid="input-identify-query"
+            />
+            <Input
+              placeholder="Year"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && search()}
+              className="w-24"
+              data-testid="input-identify-year"
+            />
+            <Button variant="outline" size="icon" onClick={search} data-testid="button-identify-search">
+              <Search className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <ScrollArea className="h-[340px] border rounded-md">
+            {isFetching ? (
+              <div className="flex items-center justify-center h-[340px]">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive text-center py-8">{(error as Error).message}</p>
+            ) : results && results.length > 0 ? (
+              <div className="p-2 space-y-1">
+                {results.map((result) => (
+                  <button
+                    key={result.id}
+                    onClick={() => setSelectedId(result.id)}
+                    className={`flex items-start gap-3 w-full p-2 text-left rounded-md hover-elevate ${
+                      selectedId === result.id ? "bg-primary/10" : ""
+                    }`}
+                    data-testid={`identify-result-${result.id}`}
+                  >
+                    {result.posterPath ? (
+                      <img src={result.posterPath} alt="" className="h-16 w-11 rounded object-cover shrink-0" />
+                    ) : (
+                      <div className="flex h-16 w-11 items-center justify-center rounded bg-muted shrink-0">
+                        <Film className="h-4 w-4 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium">
+                        {result.title}
+                        {result.year ? ` (${result.year})` : ""}
+                      </p>
+                      {result.originalTitle && result.originalTitle !== result.title && (
+                        <p className="text-xs text-muted-foreground">{result.originalTitle}</p>
+                      )}
+                      {result.overview && (
+                        <p className="text-xs text-muted-foreground line-clamp-2 mt-1">{result.overview}</p>
+                      )}
+                    </div>
+                    {selectedId === result.id && <Check className="h-4 w-4 text-primary shrink-0" />}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {submitted ? "No results on TMDB" : "Search TMDB by title"}
+              </p>
+            )}
+          </ScrollArea>
+
+          {subject?.kind === "item" && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="identify-siblings"
+                checked={applyToSiblings}
+                onCheckedChange={(checked) => setApplyToSiblings(checked === true)}
+                data-testid="checkbox-identify-siblings"
+              />
+              <Label htmlFor="identify-siblings" className="text-sm font-normal">
+                Apply to every file detected as {subject.name}
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-identify-cancel">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => identifyMutation.mutate()}
+            disabled={selectedId === null || identifyMutation.isPending}
+            data-testid="button-identify-apply"
+          >
+            {identifyMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Check className="h-4 w-4 mr-2" />
+            )}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Pause, Play, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { OrganizeJob, ScanJob } from "@shared/schema";
+
+type JobControl = "pause" | "resume" | "cancel";
+
+interface JobsByKind {
+  scan: ScanJob;
+  organize: OrganizeJob;
+}
+
+interface JobControlsProps<K extends keyof JobsByKind> {
+  kind: K;
+  jobId: string;
+  status: string | null;
+  // Called with the updated job after a control was applied
+  onChange: (job: JobsByKind[K]) => void;
+}
+
+const ENDPOINTS = { scan: "/api/scan-jobs", organize: "/api/organize-jobs" };
+
+const CANCEL_DESCRIPTIONS = {
+  scan: "The scan stops after the current file. Files found so far stay in the list.",
+  organize:
+    "The job stops after the current file. Files already organized stay where they are; " +
+    "you can undo them under Recent Organize Jobs.",
+};
+
+// Pause / resume / cancel buttons for a running scan or organize job
+export function JobControls<K extends keyof JobsByKind>({ kind, jobId, status, onChange }: JobControlsProps<K>) {
+  const { toast } = useToast();
+
+  const controlMutation = useMutation({
+    mutationFn: async (control: JobControl): Promise<JobsByKind[K]> => {
+      const response = await apiRequest("POST", `${ENDPOINTS[kind]}/${jobId}/${control}`);
+      return response.json();
+    },
+    onSuccess: (job) => onChange(job),
+    onError: (error: Error) => {
+      toast({
+        title: "Job Control Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPaused = status === "paused";
+  const pending = controlMutation.isPending;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => controlMutation.mutate(isPaused ? "resume" : "pause")}
+        disabled={pending}
+        data-testid={`button-${kind}-${isPaused ? "resume" : "pause"}`}
+      >
+        {pending && controlMutation.variables !== "cancel" ? (
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        ) : isPaused ? (
+          <Play className="h-3 w-3 mr-1" />
+        ) : (
+          <Pause className="h-3 w-3 mr-1" />
+        )}
+        {isPaused ? "Resume" : "Pause"}
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button size="sm" variant="outline" disabled={pending} data-testid={`button-${kind}-cancel`}>
+            {pending && controlMutation.variables === "cancel" ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Square className="h-3 w-3 mr-1" />
+            )}
+            Cancel
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{kind === "scan" ? "Cancel This Scan?" : "Cancel This Organize Job?"}</AlertDialogTitle>
+            <AlertDialogDescription>{CANCEL_DESCRIPTIONS[kind]}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Running</AlertDialogCancel>
+            <AlertDialogAction onClick={() => controlMutation.mutate("cancel")}>
+              {kind === "scan" ? "Cancel Scan" : "Cancel Job"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
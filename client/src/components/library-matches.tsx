@@ -0,0 +1,163 @@
+import { useMutation } from "@tanstack/react-query";
+import { Library, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/fileParser";
+import { QualityBadges } from "@/components/quality-filters";
+import type { LibraryMatch, MediaQuality } from "@shared/schema";
+
+export interface LibraryMatchItem {
+  id: string;
+  originalFilename: string;
+  originalPath: string;
+  detectedName: string;
+  detectedType: string;
+  fileSize: string | null;
+  quality: MediaQuality | null;
+  libraryMatch: LibraryMatch | null;
+}
+
+// "version" keeps both copies (movies only) via /api/media-items/:id/keep-version
+type LibraryMatchAction = "keep" | "replace" | "skip" | "version";
+
+const ACTION_MESSAGES: Record<LibraryMatchAction, string> = {
+  keep: "Kept the library copy; the incoming file is marked as a duplicate.",
+  replace: "The library copy was quarantined and replaced.",
+  skip: "Match ignored; the file will be organized normally.",
+  version: "The file will be organized as an additional version of the movie.",
+};
+
+// Helper: size label for a byte count stored as a string
+function sizeLabel(fileSize: string | null): string {
+  const bytes = parseInt(fileSize || "", 10);
+  return Number.isFinite(bytes) ? formatFileSize(bytes) : "Unknown size";
+}
+
+// Incoming files whose movie/episode already exists in a destination library.
+// Each needs a decision before it can be organized.
+export function LibraryMatches({ items }: { items: LibraryMatchItem[] }) {
+  const { toast } = useToast();
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: LibraryMatchAction }) =>
+      action === "version"
+        ? apiRequest("POST", `/api/media-items/${id}/keep-version`)
+        : apiRequest("POST", `/api/media-items/${id}/library-match`, { action }),
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organize/preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      if (action === "replace") {
+        queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tv-series"] });
+      }
+      toast({ title: "Resolved", description: ACTION_MESSAGES[action] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Resolve",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (items.length === 0) return null;
+
+  const isPending = (id: string) => resolveMutation.isPending && resolveMutation.variables?.id === id;
+
+  return (
+    <Card data-testid="card-library-matches">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Library className="h-5 w-5 text-orange-500" />
+            Already in Library
+          </span>
+          <Badge variant="secondary">{items.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          These files match a movie or episode that is already organized. Keep the existing copy,
+          replace it (the old file goes to the quarantine folder), keep both as movie versions,
+          or ignore a false match.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3 max-h-[400px] overflow-y-auto">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="p-3 rounded-md border space-y-3"
+              data-testid={`library-match-${item.id}`}
+            >
+              <p className="font-medium text-sm">{item.detectedName}</p>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">
+                    Incoming · {sizeLabel(item.fileSize)}
+                  </p>
+                  <QualityBadges quality={item.quality} />
+                  <p className="text-xs text-muted-foreground font-mono truncate" title={item.originalPath}>
+                    {item.originalFilename}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">
+                    In library · {sizeLabel(item.libraryMatch?.fileSize ?? null)}
+                  </p>
+                  <QualityBadges quality={item.libraryMatch?.quality} />
+                  <p className="text-xs text-muted-foreground font-mono truncate" title={item.libraryMatch?.path}>
+                    {item.libraryMatch?.path}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2 flex-wrap">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => resolveMutation.mutate({ id: item.id, action: "keep" })}
+                  disabled={isPending(item.id)}
+                  data-testid={`button-keep-existing-${item.id}`}
+                >
+                  {isPending(item.id) && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                  Keep Existing
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => resolveMutation.mutate({ id: item.id, action: "replace" })}
+                  disabled={isPending(item.id)}
+                  data-testid={`button-replace-existing-${item.id}`}
+                >
+                  Replace
+                </Button>
+                {item.detectedType === "movie" && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => resolveMutation.mutate({ id: item.id, action: "version" })}
+                    disabled={isPending(item.id)}
+                    data-testid={`button-keep-version-${item.id}`}
+                  >
+                    Keep as Additional Version
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => resolveMutation.mutate({ id: item.id, action: "skip" })}
+                  disabled={isPending(item.id)}
+                  data-testid={`button-ignore-match-${item.id}`}
+                >
+                  Ignore Match
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
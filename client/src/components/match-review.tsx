@@ -0,0 +1,157 @@
+import { useMutation } from "@tanstack/react-query";
+import { Check, Film, Loader2, SearchCheck, Wand2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MatchCandidate, MetadataProviderId } from "@shared/schema";
+
+export interface ReviewItem {
+  id: string;
+  originalFilename: string;
+  destinationPath: string;
+  detectedName: string;
+  detectedType: string;
+  year?: number;
+  confidence: number | null;
+  metadataProvider: MetadataProviderId | null;
+  matchScore: number | null;
+  matchCandidates: MatchCandidate[] | null;
+}
+
+const PROVIDER_NAMES: Record<MetadataProviderId, string> = {
+  tmdb: "TMDB",
+  tvdb: "TVDB",
+  omdb: "OMDb",
+};
+
+// Pending files whose match confidence fell below the review threshold. onIdentify opens
+// the Identify dialog for a file whose candidates are all wrong.
+export function MatchReview({
+  items,
+  onIdentify,
+}: {
+  items: ReviewItem[];
+  onIdentify: (item: ReviewItem) => void;
+}) {
+  const { toast } = useToast();
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/media-items/${id}/approve`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organize/preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      toast({ title: "Approved", description: "The file is back in the pending list." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Approve",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-review">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <SearchCheck className="h-5 w-5 text-blue-500" />
+            Needs Review
+          </span>
+          <Badge variant="secondary">{items.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          These matches scored below the review threshold. Check the candidates and approve the match to
+          organize the file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No matches waiting for review</p>
+        ) : (
+          <div className="space-y-3 max-h-[600px] overflow-y-auto">
+            {items.map((item) => (
+              <div key={item.id} className="p-3 rounded-md border space-y-3" data-testid={`review-${item.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm">
+                      {item.detectedName}
+                      {item.year ? ` (${item.year})` : ""}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono truncate" title={item.originalFilename}>
+                      {item.originalFilename}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {item.metadataProvider && <Badge variant="outline">{PROVIDER_NAMES[item.metadataProvider]}</Badge>}
+                    <Badge variant="secondary">{item.confidence ?? 0}% confidence</Badge>
+                  </div>
+                </div>
+                {item.matchCandidates && item.matchCandidates.length > 0 ? (
+                  <div className="space-y-1">
+                    {item.matchCandidates.map((candidate, index) => (
+                      <div
+                        key={`${candidate.provider}-${candidate.id}`}
+                        className={`flex items-center gap-3 rounded-md px-2 py-1 text-xs ${
+                          index === 0 ? "bg-primary/5" : ""
+                        }`}
+                      >
+                        {candidate.posterPath ? (
+                          <img src={candidate.posterPath} alt="" className="h-9 w-6 rounded object-cover" />
+                        ) : (
+                          <div className="flex h-9 w-6 items-center justify-center rounded bg-muted">
+                            <Film className="h-3 w-3 text-muted-foreground" />
+                          </div>
+                        )}
+                        <span className="flex-1 truncate">
+                          {candidate.name}
+                          {candidate.year ? ` (${candidate.year})` : ""}
+                        </span>
+                        <span className="text-muted-foreground">{PROVIDER_NAMES[candidate.provider]}</span>
+                        <Badge variant={index === 0 ? "default" : "outline"} className="text-xs">
+                          {index === 0 ? "Chosen · " : ""}
+                          {candidate.score}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No metadata match; named from the filename.</p>
+                )}
+                <p className="text-xs text-muted-foreground font-mono truncate" title={item.destinationPath}>
+                  {item.destinationPath}
+                </p>
+                <Button
+                  size="sm"
+                  onClick={() => approveMutation.mutate(item.id)}
+                  disabled={approveMutation.isPending && approveMutation.variables === item.id}
+                  data-testid={`button-review-approve-${item.id}`}
+                >
+                  {approveMutation.isPending && approveMutation.variables === item.id ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Check className="h-3 w-3 mr-1" />
+                  )}
+                  Approve Match
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="ml-2"
+                  onClick={() => onIdentify(item)}
+                  data-testid={`button-review-identify-${item.id}`}
+                >
+                  <Wand2 className="h-3 w-3 mr-1" />
+                  Identify
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, Loader2, Undo2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { OrganizeJob } from "@shared/schema";
+
+interface RollbackResult {
+  jobId: string;
+  undone: number;
+  restored: number;
+  failed: { entryId: string; action: string; path: string | null; error: string }[];
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "default",
+  failed: "destructive",
+  cancelled: "outline",
+  rolled_back: "secondary",
+};
+
+// Recent organize jobs, each of which can be undone from its journal
+export function OrganizeHistory() {
+  const { toast } = useToast();
+
+  const { data: jobs } = useQuery<OrganizeJob[]>({
+    queryKey: ["/api/organize-jobs/history"],
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/organize-jobs/${jobId}/rollback`);
+      return response.json() as Promise<RollbackResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organize-jobs/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organize/preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tv-series"] });
+
+      if (result.failed.length > 0) {
+        toast({
+          title: "Rollback Incomplete",
+          description: `${result.restored} files restored; ${result.failed.length} steps could not be undone. ${result.failed[0].error}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Rollback Complete",
+          description: `${result.restored} files moved back to their original locations.`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rollback Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const finishedJobs = (jobs || []).filter(
+    (job) => job.status !== "pending" && job.status !== "running" && job.status !== "paused"
+  );
+  if (finishedJobs.length === 0) return null;
+
+  return (
+    <Card data-testid="card-organize-history">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Recent Organize Jobs
+        </CardTitle>
+        <CardDescription>
+          Undo a job to move its files back to where they were and remove the folders it created.
+          Files that were changed or moved since are left alone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {finishedJobs.map((job) => {
+            const isPending = rollbackMutation.isPending && rollbackMutation.variables === job.id;
+            return (
+              <div
+                key={job.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-md border"
+                data-testid={`organize-job-${job.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {job.startedAt ? new Date(job.startedAt).toLocaleString() : "Unknown time"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {job.successCount} organized, {job.failedCount} failed of {job.totalFiles}
+                    {job.status === "cancelled" && ` · cancelled after ${job.processedFiles} files`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={STATUS_VARIANTS[job.status || ""] || "outline"}>
+                    {job.status === "rolled_back" ? "rolled back" : job.status}
+                  </Badge>
+                  {job.status !== "rolled_back" && (job.successCount || 0) > 0 && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isPending}
+                          data-testid={`button-undo-job-${job.id}`}
+                        >
+                          {isPending ? (
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          ) : (
+                            <Undo2 className="h-3 w-3 mr-1" />
+                          )}
+                          Undo
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Undo This Organize Job?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The {job.successCount} organized files are moved back to their original
+                            locations and the folders the job created are removed if they are empty.
+                            The files return to the pending list.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => rollbackMutation.mutate(job.id)}>
+                            Undo Job
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
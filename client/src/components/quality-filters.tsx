@@ -0,0 +1,112 @@
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { QUALITY_VALUES } from "@/lib/fileParser";
+import type { MediaQuality } from "@shared/schema";
+
+export type QualityFilterKey = keyof typeof QUALITY_VALUES;
+export type QualityFilterState = Partial<Record<QualityFilterKey, string>>;
+
+const FILTER_LABELS: Record<QualityFilterKey, string> = {
+  resolution: "Resolution",
+  source: "Source",
+  videoCodec: "Video Codec",
+  dynamicRange: "Dynamic Range",
+  audioCodec: "Audio",
+};
+
+const FILTER_KEYS = Object.keys(FILTER_LABELS) as QualityFilterKey[];
+
+// Check an item's quality against the selected filters (unset filters match everything)
+export function matchesQualityFilters(
+  quality: MediaQuality | null | undefined,
+  filters: QualityFilterState
+): boolean {
+  return FILTER_KEYS.every((key) => !filters[key] || quality?.[key] === filters[key]);
+}
+
+// Query string for the server-side filters on /api/media-items
+export function qualityFilterParams(filters: QualityFilterState): string {
+  return FILTER_KEYS.filter((key) => filters[key])
+    .map((key) => `&${key}=${encodeURIComponent(filters[key]!)}`)
+    .join("");
+}
+
+interface QualityFiltersProps {
+  value: QualityFilterState;
+  onChange: (value: QualityFilterState) => void;
+}
+
+export function QualityFilters({ value, onChange }: QualityFiltersProps) {
+  const hasFilters = FILTER_KEYS.some((key) => value[key]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {FILTER_KEYS.map((key) => (
+        <Select
+          key={key}
+          value={value[key] || "all"}
+          onValueChange={(selected) =>
+            onChange({ ...value, [key]: selected === "all" ? undefined : selected })
+          }
+        >
+          <SelectTrigger className="w-36 h-8 text-xs" data-testid={`select-quality-${key}`}>
+            <SelectValue placeholder={FILTER_LABELS[key]} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All {FILTER_LABELS[key]}</SelectItem>
+            {QUALITY_VALUES[key].map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({})}
+          data-testid="button-clear-quality-filters"
+        >
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Compact badges for the attributes a release states
+export function QualityBadges({ quality }: { quality: MediaQuality | null | undefined }) {
+  if (!quality) return null;
+
+  const audio = [quality.audioCodec, quality.channels].filter(Boolean).join(" ");
+  const labels = [
+    quality.resolution,
+    quality.source,
+    quality.videoCodec,
+    quality.dynamicRange,
+    audio || null,
+  ].filter((label): label is string => !!label);
+
+  if (labels.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {labels.map((label) => (
+        <Badge key={label} variant="outline" className="text-[10px] px-1.5 py-0 font-mono">
+          {label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -10,6 +10,9 @@ import {
   RefreshCw,
   Eye,
   ArrowRight,
+  Sparkles,
+  ShieldCheck,
+  Layers,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -28,12 +31,23 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/fileParser";
+import { QualityBadges } from "@/components/quality-filters";
+import type { MediaQuality } from "@shared/schema";
 
 interface DuplicateGroup {
   groupId: string;
   baseName: string;
+  recommendedKeeperId?: string;
   items: Array<{
     id: string;
     originalFilename: string;
@@ -41,21 +55,67 @@ interface DuplicateGroup {
     similarity: number;
     fileSize?: string;
     isOriginal: boolean;
+    quality?: MediaQuality | null;
+    detectedType?: string | null;
+    status?: string | null;
+    score?: number;
+    reasons?: string[];
   }>;
 }
 
+// "name": similar parsed titles, "exact": same content fingerprint
+type DuplicateMode = "name" | "exact";
+
+interface VerifyResponse {
+  identical: boolean;
+  hashes: Record<string, string | null>;
+}
+
+// Helper: full-hash check before removing exact duplicates (fingerprints only sample the file)
+async function confirmIdentical(ids: string[]) {
+  const response = await apiRequest("POST", "/api/duplicates/verify", { ids });
+  const result = (await response.json()) as VerifyResponse;
+  if (!result.identical) {
+    throw new Error("Full hash check failed: these files are not byte-identical.");
+  }
+}
+
+interface AutoResolveResponse {
+  groups: number;
+  quarantined: number;
+  failed: Array<{ id: string; error?: string }>;
+}
+
 export default function Duplicates() {
   const { toast } = useToast();
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [mode, setMode] = useState<DuplicateMode>("name");
 
   const { data: duplicates, isLoading, refetch, isRefetching } = useQuery<DuplicateGroup[]>({
-    queryKey: ["/api/duplicates"],
+    queryKey: ["/api/duplicates", mode],
+    queryFn: async () => {
+      const res = await fetch(`/api/duplicates?mode=${mode}`);
+      return res.json();
+    },
+    refetchInterval: 10000, // Groups are kept up to date server-side, so polling is cheap
   });
 
+  const showVerifyError = (error: Error) => {
+    toast({
+      title: "Not Removed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
   const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: async ({ id, keeperId }: { id: string; keeperId?: string }) => {
+      if (mode === "exact" && keeperId) {
+        await confirmIdentical([keeperId, id]);
+      }
       return apiRequest("DELETE", `/api/media-items/${id}`);
     },
+    onError: showVerifyError,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/duplicates"] });
       queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
@@ -67,10 +127,35 @@ export default function Duplicates() {
     },
   });
 
+  const keepVersionMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/media-items/${id}/keep-version`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organize/preview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      toast({
+        title: "Kept as Version",
+        description: "The copy will be organized as an additional version of the movie.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Keep Version",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteGroupMutation = useMutation({
-    mutationFn: async (ids: string[]) => {
+    mutationFn: async (group: DuplicateGroup) => {
+      if (mode === "exact") {
+        await confirmIdentical(group.items.map((item) => item.id));
+      }
+      const ids = group.items.filter((item) => !item.isOriginal).map((item) => item.id);
       return apiRequest("POST", "/api/media-items/bulk-delete", { ids });
     },
+    onError: showVerifyError,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/duplicates"] });
       queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
@@ -82,9 +167,36 @@ export default function Duplicates() {
     },
   });
 
+  // Keep the recommended copy and move the rest to the quarantine folder
+  const autoResolveMutation = useMutation({
+    mutationFn: async (groupIds?: string[]) => {
+      const response = await apiRequest("POST", "/api/duplicates/auto-resolve", { groupIds, mode });
+      return response.json() as Promise<AutoResolveResponse>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Duplicates Resolved",
+        description: `Quarantined ${data.quarantined} file(s)${
+          data.failed.length > 0 ? `, ${data.failed.length} failed` : ""
+        }.`,
+        variant: data.failed.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Auto-Resolve Failed",
+        description: error.message || "Could not resolve duplicates.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const scanDuplicatesMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest("POST", "/api/duplicates/scan");
+      return apiRequest("POST", "/api/duplicates/scan", { mode });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/duplicates"] });
@@ -107,10 +219,7 @@ export default function Duplicates() {
   };
 
   const handleDeleteDuplicates = (group: DuplicateGroup) => {
-    const duplicateIds = group.items
-      .filter((item) => !item.isOriginal)
-      .map((item) => item.id);
-    deleteGroupMutation.mutate(duplicateIds);
+    deleteGroupMutation.mutate(group);
   };
 
   const getSimilarityColor = (similarity: number) => {
@@ -134,6 +243,15 @@ export default function Duplicates() {
           </p>
         </div>
         <div className="flex gap-2 flex-wrap">
+          <Select value={mode} onValueChange={(value) => setMode(value as DuplicateMode)}>
+            <SelectTrigger className="w-44" data-testid="select-duplicate-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="name">Similar names</SelectItem>
+              <SelectItem value="exact">Exact duplicates</SelectItem>
+            </SelectContent>
+          </Select>
           <Button
             variant="outline"
             onClick={() => refetch()}
@@ -155,6 +273,39 @@ export default function Duplicates() {
             )}
             Scan for Duplicates
           </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={!duplicates?.length || autoResolveMutation.isPending}
+                data-testid="button-auto-resolve"
+              >
+                {autoResolveMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-2" />
+                )}
+                Auto-Resolve
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Auto-Resolve All Duplicates?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The recommended copy in each of the {duplicates?.length || 0} groups is kept and
+                  the other {totalDuplicates} files are moved to the quarantine folder set in
+                  Settings. Nothing is deleted from disk.
+                  {mode === "exact" && " Each copy is confirmed by a full hash first."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => autoResolveMutation.mutate(undefined)}>
+                  Auto-Resolve
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </div>
       </div>
 
@@ -190,9 +341,13 @@ export default function Duplicates() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-sm font-medium">Fuzzy Matching</div>
+            <div className="text-sm font-medium">
+              {mode === "exact" ? "Content Fingerprint" : "Fuzzy Matching"}
+            </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Removes release groups, quality tags
+              {mode === "exact"
+                ? "Size plus first, middle and last chunk hashes"
+                : "Removes release groups, quality tags"}
             </p>
           </CardContent>
         </Card>
@@ -202,7 +357,9 @@ export default function Duplicates() {
         <CardHeader>
           <CardTitle>Duplicate Groups</CardTitle>
           <CardDescription>
-            Files with similar names after removing release groups and quality tags
+            {mode === "exact"
+              ? "Byte-identical files, whatever their names. Removal is confirmed with a full hash."
+              : "Files with similar names after removing release groups and quality tags"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -238,6 +395,19 @@ export default function Duplicates() {
                         <Badge variant="outline" className="bg-orange-500/10 text-orange-600 dark:text-orange-400">
                           {group.items.filter((i) => !i.isOriginal).length} duplicates
                         </Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            autoResolveMutation.mutate([group.groupId]);
+                          }}
+                          disabled={autoResolveMutation.isPending}
+                          data-testid={`button-keep-best-${group.groupId}`}
+                        >
+                          <ShieldCheck className="h-4 w-4 mr-1" />
+                          Keep Best
+                        </Button>
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -255,7 +425,7 @@ export default function Duplicates() {
                               <AlertDialogTitle>Remove Duplicates?</AlertDialogTitle>
                               <AlertDialogDescription>
                                 This will remove {group.items.filter((i) => !i.isOriginal).length} duplicate
-                                files and keep only the original. This action cannot be undone.
+                                files and keep only the recommended copy. This action cannot be undone.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -293,9 +463,17 @@ export default function Duplicates() {
                                 {item.isOriginal && (
                                   <Badge className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20">
                                     <Check className="h-3 w-3 mr-1" />
-                                    Original
+                                    Recommended
                                   </Badge>
                                 )}
+                                {item.score !== undefined && (
+                                  <Badge variant="outline" className="text-xs" data-testid={`score-${item.id}`}>
+                                    Score {item.score}
+                                  </Badge>
+                                )}
+                              </div>
+                              <div className="mt-1">
+                                <QualityBadges quality={item.quality} />
                               </div>
                               <div className="flex items-center gap-4 mt-1">
                                 <div className="flex items-center gap-2">
@@ -312,16 +490,44 @@ export default function Duplicates() {
                                 </div>
                                 {item.fileSize && (
                                   <span className="text-xs text-muted-foreground">
-                                    {item.fileSize}
+                                    {formatFileSize(parseInt(item.fileSize, 10))}
                                   </span>
                                 )}
                               </div>
+                              {item.reasons && item.reasons.length > 0 && (
+                                <ul
+                                  className={`mt-1 text-xs list-disc list-inside ${
+                                    item.isOriginal
+                                      ? "text-green-600 dark:text-green-400"
+                                      : "text-muted-foreground"
+                                  }`}
+                                  data-testid={`reasons-${item.id}`}
+                                >
+                                  {item.reasons.map((reason) => (
+                                    <li key={reason}>{reason}</li>
+                                  ))}
+                                </ul>
+                              )}
                             </div>
+                            {!item.isOriginal && item.detectedType === "movie" && item.status !== "organized" && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Keep as additional version"
+                                onClick={() => keepVersionMutation.mutate(item.id)}
+                                disabled={keepVersionMutation.isPending}
+                                data-testid={`button-keep-version-${item.id}`}
+                              >
+                                <Layers className="h-4 w-4" />
+                              </Button>
+                            )}
                             {!item.isOriginal && (
                               <Button
                                 variant="ghost"
                                 size="icon"
-                                onClick={() => deleteMutation.mutate(item.id)}
+                                onClick={() =>
+                                  deleteMutation.mutate({ id: item.id, keeperId: group.recommendedKeeperId })
+                                }
                                 disabled={deleteMutation.isPending}
                                 data-testid={`button-delete-item-${item.id}`}
                               >
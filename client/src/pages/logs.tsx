@@ -52,6 +52,10 @@ export default function Logs() {
       delete: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
       scan: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
       duplicate: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+      quarantine: "bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20",
+      replace: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20",
+      rollback: "bg-slate-500/10 text-slate-600 dark:text-slate-400 border-slate-500/20",
+      conflict: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
     };
     return (
       <Badge variant="outline" className={variants[action] || "bg-muted"}>
@@ -152,6 +156,10 @@ export default function Logs() {
                   <SelectItem value="scan">Scan</SelectItem>
                   <SelectItem value="delete">Delete</SelectItem>
                   <SelectItem value="duplicate">Duplicate</SelectItem>
+                  <SelectItem value="quarantine">Quarantine</SelectItem>
+                  <SelectItem value="replace">Replace</SelectItem>
+                  <SelectItem value="rollback">Rollback</SelectItem>
+                  <SelectItem value="conflict">Conflict</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -195,6 +203,11 @@ export default function Logs() {
                     <div className="flex-1 min-w-0 space-y-2">
                       <div className="flex items-center gap-2 flex-wrap">
                         {getActionBadge(log.action)}
+                        {log.transferMode && (
+                          <Badge variant="secondary" className="text-xs">
+                            {log.transferMode}
+                          </Badge>
+                        )}
                         <span className="text-xs text-muted-foreground flex items-center gap-1">
                           <Clock className="h-3 w-3" />
                           {formatDate(log.createdAt)}
@@ -10,6 +10,7 @@ import {
   Loader2,
   Calendar,
   Folder,
+  Wand2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -31,14 +32,32 @@ import {
 } from "@/components/ui/toggle-group";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Movie } from "@shared/schema";
+import { QualityBadges } from "@/components/quality-filters";
+import { IdentifyDialog, type IdentifySubject } from "@/components/identify-dialog";
+import { formatFileSize } from "@/lib/fileParser";
+import type { MediaQuality, Movie } from "@shared/schema";
+
+// One organized copy of a movie (see GET /api/movies)
+interface MovieVersion {
+  id: string;
+  label: string | null;
+  edition: string | null;
+  path: string;
+  quality: MediaQuality | null;
+  fileSize: string | null;
+}
+
+interface MovieWithVersions extends Movie {
+  versions: MovieVersion[];
+}
 
 export default function Movies() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "list">("list");
+  const [identifying, setIdentifying] = useState<IdentifySubject | null>(null);
 
-  const { data: movies, isLoading, refetch, isRefetching } = useQuery<Movie[]>({
+  const { data: movies, isLoading, refetch, isRefetching } = useQuery<MovieWithVersions[]>({
     queryKey: ["/api/movies"],
   });
 
@@ -87,7 +106,7 @@ export default function Movies() {
     setFailedPosters(prev => new Set(prev).add(movieId));
   }, []);
 
-  const MovieCard = ({ movie }: { movie: Movie }) => {
+  const MovieCard = ({ movie }: { movie: MovieWithVersions }) => {
     const showPoster = movie.posterPath && !failedPosters.has(movie.id);
     
     return (
@@ -104,7 +123,16 @@ export default function Movies() {
           ) : (
             <Film className="h-12 w-12 text-muted-foreground/30" />
           )}
-          <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-3">
+          <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end gap-2 p-3">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setIdentifying({ kind: "movie", id: movie.id, name: movie.name, year: movie.year })}
+              data-testid={`button-identify-movie-${movie.id}`}
+            >
+              <Wand2 className="h-3 w-3 mr-1" />
+              Identify
+            </Button>
             <Button
               variant="destructive"
               size="sm"
@@ -122,6 +150,11 @@ export default function Movies() {
           {movie.year && (
             <p className="text-xs text-muted-foreground mt-1">{movie.year}</p>
           )}
+          {movie.versions.length > 1 && (
+            <Badge variant="outline" className="text-xs mt-1">
+              {movie.versions.length} versions
+            </Badge>
+          )}
         </CardContent>
       </Card>
     );
@@ -274,7 +307,7 @@ export default function Movies() {
                       <TableHead>Name</TableHead>
                       <TableHead className="w-24">Year</TableHead>
                       <TableHead className="w-64">Path</TableHead>
-                      <TableHead className="w-16">Actions</TableHead>
+                      <TableHead className="w-24">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -285,7 +318,26 @@ export default function Movies() {
                             <Film className="h-4 w-4 text-blue-500" />
                           </div>
                         </TableCell>
-                        <TableCell className="font-medium">{movie.name}</TableCell>
+                        <TableCell className="font-medium">
+                          {movie.name}
+                          {movie.versions.length > 1 && (
+                            <div className="mt-1 space-y-1" data-testid={`movie-versions-${movie.id}`}>
+                              {movie.versions.map((version) => (
+                                <div key={version.id} className="flex items-center gap-2 flex-wrap font-normal">
+                                  <Badge variant="secondary" className="text-xs">
+                                    {version.label || version.edition || "Default"}
+                                  </Badge>
+                                  <QualityBadges quality={version.quality} />
+                                  {version.fileSize && (
+                                    <span className="text-xs text-muted-foreground">
+                                      {formatFileSize(parseInt(version.fileSize, 10))}
+                                    </span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell>
                           {movie.year ? (
                             <Badge variant="secondary">{movie.year}</Badge>
@@ -297,15 +349,26 @@ export default function Movies() {
                           {movie.filePath || "-"}
                         </TableCell>
                         <TableCell>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => deleteMutation.mutate(movie.id)}
-                            disabled={deleteMutation.isPending}
-                            data-testid={`button-delete-movie-list-${movie.id}`}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                          <div className="flex items-center">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setIdentifying({ kind: "movie", id: movie.id, name: movie.name, year: movie.year })}
+                              title="Identify"
+                              data-testid={`button-identify-movie-list-${movie.id}`}
+                            >
+                              <Wand2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteMutation.mutate(movie.id)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-movie-list-${movie.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -328,6 +391,8 @@ export default function Movies() {
           )}
         </CardContent>
       </Card>
+
+      <IdentifyDialog subject={identifying} onOpenChange={(open) => !open && setIdentifying(null)} />
     </div>
   );
 }
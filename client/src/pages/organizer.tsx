@@ -15,6 +15,8 @@ import {
   TestTube2,
   CheckCircle2,
   XCircle,
+  Pause,
+  Wand2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -25,7 +27,21 @@ import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { MediaItem } from "@shared/schema";
+import type { LibraryMatch, MatchCandidate, MediaItem, MediaQuality, MetadataProviderId } from "@shared/schema";
+import { formatEpisodeCode, getEpisodeNumbers } from "@/lib/fileParser";
+import {
+  QualityBadges,
+  QualityFilters,
+  matchesQualityFilters,
+  type QualityFilterState,
+} from "@/components/quality-filters";
+import { LibraryMatches } from "@/components/library-matches";
+import { OrganizeHistory } from "@/components/organize-history";
+import { JobControls } from "@/components/job-controls";
+import { ConflictReview, type ConflictItem } from "@/components/conflict-review";
+import { MatchReview } from "@/components/match-review";
+import { IdentifyDialog, type IdentifySubject } from "@/components/identify-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 interface OrganizationPreview {
   id: string;
@@ -34,9 +50,24 @@ interface OrganizationPreview {
   destinationPath: string;
   detectedType: string;
   detectedName: string;
-  season?: number;
-  episode?: number;
+  season: number | null;
+  episode: number | null;
+  episodes: number[] | null;
+  airDate: string | null;
+  partNumber: number | null;
+  edition: string | null;
+  quality: MediaQuality | null;
+  fileSize: string | null;
+  libraryMatch: LibraryMatch | null;
+  versionLabel: string | null;
   year?: number;
+  confidence: number | null;
+  needsReview: boolean | null;
+  metadataProvider: MetadataProviderId | null;
+  matchScore: number | null;
+  matchCandidates: MatchCandidate[] | null;
+  // Subtitles, NFO, artwork and extras that move along with the video
+  companions: { kind: "subtitle" | "nfo" | "artwork" | "extra"; path: string; destinationPath: string }[];
 }
 
 interface TestResult {
@@ -47,7 +78,7 @@ interface TestResult {
 
 interface OrganizeJob {
   id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled' | 'rolled_back';
   totalFiles: number;
   processedFiles: number;
   successCount: number;
@@ -56,6 +87,13 @@ interface OrganizeJob {
   error: string | null;
 }
 
+// Helper: a pending file as the subject of the Identify dialog
+function identifySubject(
+  item: Pick<OrganizationPreview, "id" | "detectedName" | "year" | "detectedType">
+): IdentifySubject {
+  return { kind: "item", id: item.id, name: item.detectedName, year: item.year, type: item.detectedType };
+}
+
 export default function Organizer() {
   const { toast } = useToast();
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
@@ -63,23 +101,40 @@ export default function Organizer() {
   const [isTesting, setIsTesting] = useState(false);
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [organizeJob, setOrganizeJob] = useState<OrganizeJob | null>(null);
+  const [qualityFilters, setQualityFilters] = useState<QualityFilterState>({});
+  const [identifying, setIdentifying] = useState<IdentifySubject | null>(null);
   const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const { data: pendingItems, isLoading } = useQuery<MediaItem[]>({
     queryKey: ["/api/media-items", "pending"],
   });
 
-  const { data: preview, isLoading: previewLoading } = useQuery<OrganizationPreview[]>({
+  const { data: allPreview, isLoading: previewLoading } = useQuery<OrganizationPreview[]>({
     queryKey: ["/api/organize/preview"],
   });
 
+  const { data: conflicts } = useQuery<ConflictItem[]>({
+    queryKey: ["/api/conflicts"],
+  });
+
+  // Files already in a destination library wait for a keep/replace/skip decision instead
+  const libraryMatches = allPreview?.filter((item) => item.libraryMatch) || [];
+
+  // Weak matches wait in the review tab until approved
+  const reviewItems = allPreview?.filter((item) => !item.libraryMatch && item.needsReview) || [];
+
+  // Quality filters narrow what is listed and what "Select All" / "Organize All" act on
+  const preview = allPreview?.filter(
+    (item) => !item.libraryMatch && !item.needsReview && matchesQualityFilters(item.quality, qualityFilters)
+  );
+
   // Check for active organize job on mount
   useEffect(() => {
     const checkActiveJob = async () => {
       try {
         const response = await fetch("/api/organize-jobs");
         const job = await response.json();
-        if (job && (job.status === "running" || job.status === "pending")) {
+        if (job && (job.status === "running" || job.status === "pending" || job.status === "paused")) {
           setOrganizeJob(job);
           setIsOrganizing(true);
           startPolling(job.id);
@@ -124,7 +179,7 @@ export default function Organizer() {
         const job = await response.json();
         setOrganizeJob(job);
         
-        if (job.status === "completed" || job.status === "failed") {
+        if (job.status === "completed" || job.status === "failed" || job.status === "cancelled") {
           if (pollingRef.current) {
             clearInterval(pollingRef.current);
             pollingRef.current = null;
@@ -136,6 +191,8 @@ export default function Organizer() {
           queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
           queryClient.invalidateQueries({ queryKey: ["/api/tv-series"] });
           queryClient.invalidateQueries({ queryKey: ["/api/movies"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/organize-jobs/history"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/conflicts"] });
           setSelectedItems(new Set());
           
           if (job.status === "completed") {
@@ -143,6 +200,11 @@ export default function Organizer() {
               title: "Organization Complete",
               description: `${job.successCount} files organized, ${job.failedCount} failed.`,
             });
+          } else if (job.status === "cancelled") {
+            toast({
+              title: "Organization Cancelled",
+              description: `Stopped after ${job.processedFiles} of ${job.totalFiles} files: ${job.successCount} organized, ${job.failedCount} failed.`,
+            });
           } else {
             toast({
               title: "Organization Failed",
@@ -379,13 +441,29 @@ export default function Organizer() {
       {isOrganizing && organizeJob && (
         <Card data-testid="card-organize-progress">
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg flex items-center gap-2">
-              <Loader2 className="h-5 w-5 animate-spin" />
-              Organizing Files...
-            </CardTitle>
-            <CardDescription>
-              You can switch tabs - organization will continue in background
-            </CardDescription>
+            <div className="flex items-start justify-between gap-2 flex-wrap">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  {organizeJob.status === "paused" ? (
+                    <Pause className="h-5 w-5" />
+                  ) : (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  )}
+                  {organizeJob.status === "paused" ? "Organization Paused" : "Organizing Files..."}
+                </CardTitle>
+                <CardDescription>
+                  You can switch tabs - organization will continue in background
+                </CardDescription>
+              </div>
+              <JobControls
+                kind="organize"
+                jobId={organizeJob.id}
+                status={organizeJob.status}
+                onChange={(job) =>
+                  setOrganizeJob((current) => current && { ...current, status: job.status ?? current.status })
+                }
+              />
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
@@ -417,147 +495,245 @@ export default function Organizer() {
         </Card>
       )}
 
-      <div className="grid gap-6 lg:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center justify-between gap-2">
-              <span>Pending Files</span>
-              <Badge variant="secondary">{preview?.length || 0}</Badge>
-            </CardTitle>
-            <CardDescription>
-              Files waiting to be organized into Jellyfin structure
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {previewLoading ? (
-              <div className="flex items-center justify-center py-8">
-                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-              </div>
-            ) : preview && preview.length > 0 ? (
-              <>
-                <div className="flex items-center gap-2 mb-4 pb-4 border-b">
-                  <Checkbox
-                    checked={selectedItems.size === preview.length}
-                    onCheckedChange={handleSelectAll}
-                    data-testid="checkbox-select-all"
-                  />
-                  <span className="text-sm text-muted-foreground">
-                    Select All ({preview.length} files)
-                  </span>
+      <LibraryMatches items={libraryMatches} />
+
+      <OrganizeHistory />
+
+      <Tabs defaultValue="pending">
+        <TabsList>
+          <TabsTrigger value="pending" data-testid="tab-pending">
+            Pending
+          </TabsTrigger>
+          <TabsTrigger value="review" data-testid="tab-review">
+            Needs Review
+            {reviewItems.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {reviewItems.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="conflicts" data-testid="tab-conflicts">
+            Conflicts
+            {conflicts && conflicts.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {conflicts.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="pending">
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                  <span>Pending Files</span>
+                  <Badge variant="secondary">{preview?.length || 0}</Badge>
+                </CardTitle>
+                <CardDescription>
+                  Files waiting to be organized into Jellyfin structure
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="mb-4">
+                  <QualityFilters value={qualityFilters} onChange={setQualityFilters} />
                 </div>
-                <ScrollArea className="h-[400px]">
-                  <div className="space-y-3">
-                    {preview.map((item) => (
-                      <div
-                        key={item.id}
-                        className={`flex items-start gap-3 p-3 rounded-md border transition-colors ${
-                          selectedItems.has(item.id)
-                            ? "bg-primary/5 border-primary/20"
-                            : "hover:bg-muted/50"
-                        }`}
-                        data-testid={`preview-item-${item.id}`}
-                      >
-                        <Checkbox
-                          checked={selectedItems.has(item.id)}
-                          onCheckedChange={() => handleSelectItem(item.id)}
-                          className="mt-1"
-                        />
-                        <div className="flex-1 min-w-0 space-y-2">
-                          <div className="flex items-center gap-2">
-                            {getTypeIcon(item.detectedType)}
-                            <span className="font-medium text-sm">
-                              {item.detectedName}
-                            </span>
-                            {item.detectedType === "tvshow" && item.season && item.episode && (
-                              <Badge variant="outline" className="text-xs">
-                                S{String(item.season).padStart(2, "0")}E
-                                {String(item.episode).padStart(2, "0")}
-                              </Badge>
-                            )}
-                            {item.year && (
-                              <Badge variant="secondary" className="text-xs">
-                                {item.year}
-                              </Badge>
-                            )}
-                            {getTestStatus(item.id)?.status === 'verified' && (
-                              <CheckCircle2 className="h-4 w-4 text-green-500" />
-                            )}
-                            {getTestStatus(item.id)?.status === 'failed' && (
-                              <XCircle className="h-4 w-4 text-red-500" />
-                            )}
+                {previewLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                  </div>
+                ) : preview && preview.length > 0 ? (
+                  <>
+                    <div className="flex items-center gap-2 mb-4 pb-4 border-b">
+                      <Checkbox
+                        checked={selectedItems.size === preview.length}
+                        onCheckedChange={handleSelectAll}
+                        data-testid="checkbox-select-all"
+                      />
+                      <span className="text-sm text-muted-foreground">
+                        Select All ({preview.length} files)
+                      </span>
+                    </div>
+                    <ScrollArea className="h-[400px]">
+                      <div className="space-y-3">
+                        {preview.map((item) => (
+                          <div
+                            key={item.id}
+                            className={`flex items-start gap-3 p-3 rounded-md border transition-colors ${
+                              selectedItems.has(item.id)
+                                ? "bg-primary/5 border-primary/20"
+                                : "hover:bg-muted/50"
+                            }`}
+                            data-testid={`preview-item-${item.id}`}
+                          >
+                            <Checkbox
+                              checked={selectedItems.has(item.id)}
+                              onCheckedChange={() => handleSelectItem(item.id)}
+                              className="mt-1"
+                            />
+                            <div className="flex-1 min-w-0 space-y-2">
+                              <div className="flex items-center gap-2">
+                                {getTypeIcon(item.detectedType)}
+                                <span className="font-medium text-sm">
+                                  {item.detectedName}
+                                </span>
+                                {item.detectedType === "tvshow" && item.season !== null && item.episode !== null && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {formatEpisodeCode(item.season, getEpisodeNumbers(item))}
+                                  </Badge>
+                                )}
+                                {item.detectedType === "tvshow" && item.season === 0 && item.episode === null && (
+                                  <Badge variant="outline" className="text-xs">
+                                    Special
+                                  </Badge>
+                                )}
+                                {item.detectedType === "tvshow" && item.episode === null && item.airDate && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {item.airDate}
+                                  </Badge>
+                                )}
+                                {item.year && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    {item.year}
+                                  </Badge>
+                                )}
+                                {item.edition && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {item.edition}
+                                  </Badge>
+                                )}
+                                {item.partNumber && (
+                                  <Badge variant="outline" className="text-xs">
+                                    Part {item.partNumber}
+                                  </Badge>
+                                )}
+                                {item.versionLabel && (
+                                  <Badge variant="outline" className="text-xs" title="Additional version">
+                                    Version: {item.versionLabel}
+                                  </Badge>
+                                )}
+                                {getTestStatus(item.id)?.status === 'verified' && (
+                                  <CheckCircle2 className="h-4 w-4 text-green-500" />
+                                )}
+                                {getTestStatus(item.id)?.status === 'failed' && (
+                                  <XCircle className="h-4 w-4 text-red-500" />
+                                )}
+                              </div>
+                              {getTestStatus(item.id)?.error && (
+                                <p className="text-xs text-red-500">
+                                  {getTestStatus(item.id)?.error}
+                                </p>
+                              )}
+                              <QualityBadges quality={item.quality} />
+                              <p className="text-xs text-muted-foreground font-mono truncate">
+                                {item.originalFilename}
+                              </p>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setIdentifying(identifySubject(item))}
+                              title="Identify"
+                              data-testid={`button-identify-${item.id}`}
+                            >
+                              <Wand2 className="h-4 w-4" />
+                            </Button>
                           </div>
-                          {getTestStatus(item.id)?.error && (
-                            <p className="text-xs text-red-500">
-                              {getTestStatus(item.id)?.error}
-                            </p>
-                          )}
-                          <p className="text-xs text-muted-foreground font-mono truncate">
-                            {item.originalFilename}
-                          </p>
-                        </div>
+                        ))}
                       </div>
-                    ))}
+                    </ScrollArea>
+                  </>
+                ) : allPreview && allPreview.length > libraryMatches.length + reviewItems.length ? (
+                  <div className="py-12 text-center text-sm text-muted-foreground">
+                    No pending files match the selected quality filters.
                   </div>
-                </ScrollArea>
-              </>
-            ) : (
-              <div className="flex flex-col items-center justify-center py-12 text-center">
-                <div className="flex h-16 w-16 items-center justify-center rounded-full bg-green-500/10 mb-4">
-                  <Check className="h-8 w-8 text-green-500" />
-                </div>
-                <h3 className="text-lg font-semibold mb-2">All Organized!</h3>
-                <p className="text-sm text-muted-foreground max-w-sm">
-                  No pending files to organize. Scan new files to add them to the queue.
-                </p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                ) : (
+                  <div className="flex flex-col items-center justify-center py-12 text-center">
+                    <div className="flex h-16 w-16 items-center justify-center rounded-full bg-green-500/10 mb-4">
+                      <Check className="h-8 w-8 text-green-500" />
+                    </div>
+                    <h3 className="text-lg font-semibold mb-2">All Organized!</h3>
+                    <p className="text-sm text-muted-foreground max-w-sm">
+                      No pending files to organize. Scan new files to add them to the queue.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Destination Preview</CardTitle>
-            <CardDescription>
-              Where files will be moved in your Jellyfin library
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {preview && preview.length > 0 ? (
-              <ScrollArea className="h-[450px]">
-                <div className="space-y-4">
-                  {preview
-                    .filter((item) => selectedItems.size === 0 || selectedItems.has(item.id))
-                    .map((item) => (
-                      <div
-                        key={item.id}
-                        className="space-y-2 p-3 rounded-md bg-muted/30"
-                        data-testid={`destination-preview-${item.id}`}
-                      >
-                        <div className="flex items-center gap-2 text-sm">
-                          <FolderOpen className="h-4 w-4 text-muted-foreground" />
-                          <span className="font-mono text-xs text-muted-foreground truncate">
-                            {item.originalFilename}
-                          </span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <ArrowRight className="h-4 w-4 text-primary" />
-                          {formatDestinationPath(item.destinationPath)}
-                        </div>
-                      </div>
-                    ))}
-                </div>
-              </ScrollArea>
-            ) : (
-              <div className="flex flex-col items-center justify-center py-12 text-center">
-                <FolderTree className="h-12 w-12 text-muted-foreground/50 mb-4" />
-                <p className="text-sm text-muted-foreground">
-                  Select files to preview destination paths
-                </p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+            <Card>
+              <CardHeader>
+                <CardTitle>Destination Preview</CardTitle>
+                <CardDescription>
+                  Where files will be moved in your Jellyfin library
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {preview && preview.length > 0 ? (
+                  <ScrollArea className="h-[450px]">
+                    <div className="space-y-4">
+                      {preview
+                        .filter((item) => selectedItems.size === 0 || selectedItems.has(item.id))
+                        .map((item) => (
+                          <div
+                            key={item.id}
+                            className="space-y-2 p-3 rounded-md bg-muted/30"
+                            data-testid={`destination-preview-${item.id}`}
+                          >
+                            <div className="flex items-center gap-2 text-sm">
+                              <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                              <span className="font-mono text-xs text-muted-foreground truncate">
+                                {item.originalFilename}
+                              </span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <ArrowRight className="h-4 w-4 text-primary" />
+                              {formatDestinationPath(item.destinationPath)}
+                            </div>
+                            {item.companions.length > 0 && (
+                              <div className="pl-6 space-y-1" data-testid={`companions-${item.id}`}>
+                                {item.companions.map((companion) => (
+                                  <div key={companion.path} className="flex items-center gap-2 text-xs">
+                                    <Badge variant="outline" className="text-xs capitalize shrink-0">
+                                      {companion.kind}
+                                    </Badge>
+                                    <span
+                                      className="font-mono text-muted-foreground truncate"
+                                      title={`${companion.path} → ${companion.destinationPath}`}
+                                    >
+                                      {companion.destinationPath.split("/").pop()}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                    </div>
+                  </ScrollArea>
+                ) : (
+                  <div className="flex flex-col items-center justify-center py-12 text-center">
+                    <FolderTree className="h-12 w-12 text-muted-foreground/50 mb-4" />
+                    <p className="text-sm text-muted-foreground">
+                      Select files to preview destination paths
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="review">
+          <MatchReview items={reviewItems} onIdentify={(item) => setIdentifying(identifySubject(item))} />
+        </TabsContent>
+
+        <TabsContent value="conflicts">
+          <ConflictReview items={conflicts || []} />
+        </TabsContent>
+      </Tabs>
+
+      <IdentifyDialog subject={identifying} onOpenChange={(open) => !open && setIdentifying(null)} />
 
       <Card>
         <CardHeader>
@@ -13,6 +13,8 @@ import {
   Info,
   ChevronLeft,
   ChevronRight,
+  Pause,
+  Wand2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -36,6 +38,14 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { MediaItem, ScanJob } from "@shared/schema";
+import { formatEpisodeCode, getEpisodeNumbers } from "@/lib/fileParser";
+import {
+  QualityFilters,
+  qualityFilterParams,
+  type QualityFilterState,
+} from "@/components/quality-filters";
+import { JobControls } from "@/components/job-controls";
+import { IdentifyDialog, type IdentifySubject } from "@/components/identify-dialog";
 
 interface PaginatedResponse {
   items: MediaItem[];
@@ -57,12 +67,18 @@ export default function Scanner() {
   const { toast } = useToast();
   const [page, setPage] = useState(1);
   const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  // Last scan that was cancelled, kept as a record of how far it got
+  const [cancelledJob, setCancelledJob] = useState<ScanJob | null>(null);
+  const [qualityFilters, setQualityFilters] = useState<QualityFilterState>({});
+  const [identifying, setIdentifying] = useState<IdentifySubject | null>(null);
   const limit = 50;
 
   const { data, isLoading } = useQuery<PaginatedResponse>({
-    queryKey: ["/api/media-items", page],
+    queryKey: ["/api/media-items", page, qualityFilters],
     queryFn: async () => {
-      const res = await fetch(`/api/media-items?page=${page}&limit=${limit}`);
+      const res = await fetch(
+        `/api/media-items?page=${page}&limit=${limit}${qualityFilterParams(qualityFilters)}`
+      );
       return res.json();
     },
   });
@@ -80,6 +96,16 @@ export default function Scanner() {
     refetchInterval: activeJobId ? 1000 : false, // Poll every second while scanning
   });
 
+  // Pick up a scan that is still running (or paused) from an earlier visit
+  useEffect(() => {
+    fetch("/api/scan-jobs/active")
+      .then((res) => res.json())
+      .then((job: ScanJob | null) => {
+        if (job) setActiveJobId(job.id);
+      })
+      .catch((err) => console.error("Failed to check active scan:", err));
+  }, []);
+
   // Handle scan completion
   useEffect(() => {
     if (scanJob?.status === "completed") {
@@ -97,13 +123,24 @@ export default function Scanner() {
         description: scanJob.error || "An error occurred during scanning.",
         variant: "destructive",
       });
+    } else if (scanJob?.status === "cancelled") {
+      setActiveJobId(null);
+      setCancelledJob(scanJob);
+      queryClient.invalidateQueries({ queryKey: ["/api/media-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Scan Cancelled",
+        description: `Stopped after ${scanJob.processedFiles || 0} files, ${scanJob.newItems || 0} new items added.`,
+      });
     }
   }, [scanJob?.status, scanJob?.totalFiles, scanJob?.newItems, scanJob?.error, toast]);
 
   const items = data?.items || [];
   const pagination = data?.pagination;
 
-  const isScanning = !!activeJobId && (scanJob?.status === "pending" || scanJob?.status === "running");
+  const isScanning = !!activeJobId &&
+    (scanJob?.status === "pending" || scanJob?.status === "running" || scanJob?.status === "paused");
+  const isPaused = scanJob?.status === "paused";
   const scanProgress = scanJob?.totalFiles ? Math.round((scanJob.processedFiles || 0) / scanJob.totalFiles * 100) : 0;
 
   const scanFolderMutation = useMutation({
@@ -113,6 +150,7 @@ export default function Scanner() {
     },
     onSuccess: (data) => {
       setActiveJobId(data.jobId);
+      setCancelledJob(null);
       toast({
         title: "Scan Started",
         description: "Scanning files in the background...",
@@ -205,14 +243,26 @@ export default function Scanner() {
         <Card data-testid="card-scan-progress">
           <CardContent className="pt-6">
             <div className="space-y-3">
-              <div className="flex items-center justify-between">
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex items-center gap-2">
+                  {isPaused ? (
+                    <Pause className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                  )}
+                  <span className="font-medium">{isPaused ? "Scan Paused" : "Scanning Library..."}</span>
+                </div>
                 <div className="flex items-center gap-2">
-                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
-                  <span className="font-medium">Scanning Library...</span>
+                  <Badge variant="outline">
+                    {scanJob.processedFiles || 0} / {scanJob.totalFiles || "?"} files
+                  </Badge>
+                  <JobControls
+                    kind="scan"
+                    jobId={scanJob.id}
+                    status={scanJob.status}
+                    onChange={(job) => queryClient.setQueryData<ScanJob | null>(["/api/scan-jobs", activeJobId], job)}
+                  />
                 </div>
-                <Badge variant="outline">
-                  {scanJob.processedFiles || 0} / {scanJob.totalFiles || "?"} files
-                </Badge>
               </div>
               <Progress value={scanProgress} className="h-2" />
               <div className="flex justify-between text-sm text-muted-foreground">
@@ -224,6 +274,21 @@ export default function Scanner() {
         </Card>
       )}
 
+      {!isScanning && cancelledJob && (
+        <Card data-testid="card-scan-cancelled">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Info className="h-4 w-4 shrink-0" />
+              <span>
+                The last scan was cancelled after {cancelledJob.processedFiles || 0} of{" "}
+                {cancelledJob.totalFiles || "?"} files. {cancelledJob.newItems || 0} new items were added;
+                scan again to pick up the rest.
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader className="flex flex-row items-center justify-between gap-2">
           <div>
@@ -242,6 +307,15 @@ export default function Scanner() {
           </Button>
         </CardHeader>
         <CardContent>
+          <div className="mb-4">
+            <QualityFilters
+              value={qualityFilters}
+              onChange={(filters) => {
+                setQualityFilters(filters);
+                setPage(1);
+              }}
+            />
+          </div>
           {isLoading ? (
             <div className="space-y-4">
               {[...Array(5)].map((_, i) => (
@@ -263,11 +337,15 @@ export default function Scanner() {
                     <TableHead className="w-12">Type</TableHead>
                     <TableHead>Original Filename</TableHead>
                     <TableHead>Detected Name</TableHead>
-                    <TableHead className="w-24">Season/Ep</TableHead>
+                    <TableHead className="w-24">Episode/Part</TableHead>
                     <TableHead className="w-20">Year</TableHead>
+                    <TableHead className="w-20">Resolution</TableHead>
+                    <TableHead className="w-20">Source</TableHead>
+                    <TableHead className="w-28">Video</TableHead>
+                    <TableHead className="w-28">Audio</TableHead>
                     <TableHead className="w-24">Confidence</TableHead>
                     <TableHead className="w-24">Status</TableHead>
-                    <TableHead className="w-16">Actions</TableHead>
+                    <TableHead className="w-24">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -301,16 +379,33 @@ export default function Scanner() {
                         {item.detectedName || "-"}
                       </TableCell>
                       <TableCell>
-                        {item.detectedType === "tvshow" && item.season && item.episode ? (
+                        {item.detectedType === "tvshow" && item.season !== null && item.episode !== null ? (
                           <span className="font-mono text-sm">
-                            S{String(item.season).padStart(2, "0")}E
-                            {String(item.episode).padStart(2, "0")}
+                            {formatEpisodeCode(item.season, getEpisodeNumbers(item))}
                           </span>
+                        ) : item.detectedType === "tvshow" && item.season === 0 ? (
+                          <span className="font-mono text-sm">Special</span>
+                        ) : item.detectedType === "tvshow" && item.airDate ? (
+                          <span className="font-mono text-sm">{item.airDate}</span>
+                        ) : item.detectedType === "movie" && item.partNumber ? (
+                          <span className="font-mono text-sm">part{item.partNumber}</span>
                         ) : (
                           "-"
                         )}
                       </TableCell>
                       <TableCell>{item.year || "-"}</TableCell>
+                      <TableCell className="text-xs">{item.quality?.resolution || "-"}</TableCell>
+                      <TableCell className="text-xs">{item.quality?.source || "-"}</TableCell>
+                      <TableCell className="text-xs">
+                        {[item.quality?.videoCodec, item.quality?.dynamicRange]
+                          .filter(Boolean)
+                          .join(" · ") || "-"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {[item.quality?.audioCodec, item.quality?.channels]
+                          .filter(Boolean)
+                          .join(" ") || "-"}
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Progress
@@ -324,19 +419,47 @@ export default function Scanner() {
                           >
                             {item.confidence}%
                           </span>
+                          {item.needsReview && item.status === "pending" && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs"
+                              title={item.matchScore !== null ? `Match score ${item.matchScore}` : "No metadata match"}
+                            >
+                              Review
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>{getStatusBadge(item.status || "pending")}</TableCell>
                       <TableCell>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => deleteMutation.mutate(item.id)}
-                          disabled={deleteMutation.isPending}
-                          data-testid={`button-delete-${item.id}`}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                        <div className="flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() =>
+                              setIdentifying({
+                                kind: "item",
+                                id: item.id,
+                                name: item.detectedName || item.cleanedName || item.originalFilename,
+                                year: item.year,
+                                type: item.detectedType ?? undefined,
+                              })
+                            }
+                            title="Identify"
+                            data-testid={`button-identify-${item.id}`}
+                          >
+                            <Wand2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(item.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-${item.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -445,6 +568,8 @@ export default function Scanner() {
           </div>
         </CardContent>
       </Card>
+
+      <IdentifyDialog subject={identifying} onOpenChange={(open) => !open && setIdentifying(null)} />
     </div>
   );
 }
@@ -18,6 +18,10 @@ import {
   Play,
   Square,
   Activity,
+  Sparkles,
+  Copy,
+  ArrowUp,
+  ArrowDown,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -28,7 +32,23 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { FolderPicker } from "@/components/folder-picker";
+import type { EditionNaming } from "@shared/mediaParser";
+import {
+  DEFAULT_QUALITY_PROFILE,
+  METADATA_PROVIDERS,
+  type ConflictPolicy,
+  type MetadataProviderId,
+  type QualityProfile,
+  type TransferMode,
+} from "@shared/schema";
 
 interface MonitoringStatus {
   isRunning: boolean;
@@ -42,26 +62,225 @@ interface MonitoringStatus {
 interface AppSettings {
   moviesPaths: string[];
   tvShowsPaths: string[];
+  animePaths: string[];
   moviesDestination: string;
   tvShowsDestination: string;
+  animeDestination: string;
+  moviesTransferMode: TransferMode;
+  tvShowsTransferMode: TransferMode;
+  animeTransferMode: TransferMode;
   autoOrganize: boolean;
   removeReleaseGroups: boolean;
   fuzzyMatchThreshold: number;
+  reviewThreshold: number;
+  editionNaming: EditionNaming;
+  episodeTitles: boolean;
+  movieVersions: boolean;
+  conflictPolicy: ConflictPolicy;
+  conflictsPath: string;
   tmdbApiKey: string;
+  tvdbApiKey: string;
+  tvdbPin: string;
+  omdbApiKey: string;
+  moviesMetadataProviders: MetadataProviderId[];
+  tvShowsMetadataProviders: MetadataProviderId[];
+  animeMetadataProviders: MetadataProviderId[];
+  // Providers with credentials set (read-only)
+  configuredMetadataProviders: MetadataProviderId[];
+  duplicateQuarantinePath: string;
+  qualityProfile: QualityProfile;
 }
 
 const defaultSettings: AppSettings = {
   moviesPaths: [],
   tvShowsPaths: [],
+  animePaths: [],
   moviesDestination: "",
   tvShowsDestination: "",
+  animeDestination: "",
+  moviesTransferMode: "move",
+  tvShowsTransferMode: "move",
+  animeTransferMode: "move",
   autoOrganize: false,
   removeReleaseGroups: true,
   fuzzyMatchThreshold: 80,
+  reviewThreshold: 70,
+  editionNaming: "jellyfin",
+  episodeTitles: false,
+  movieVersions: false,
+  conflictPolicy: "skip",
+  conflictsPath: "",
   tmdbApiKey: "",
+  tvdbApiKey: "",
+  tvdbPin: "",
+  omdbApiKey: "",
+  moviesMetadataProviders: [...METADATA_PROVIDERS],
+  tvShowsMetadataProviders: [...METADATA_PROVIDERS],
+  animeMetadataProviders: [...METADATA_PROVIDERS],
+  configuredMetadataProviders: [],
+  duplicateQuarantinePath: "",
+  qualityProfile: DEFAULT_QUALITY_PROFILE,
+};
+
+type LibraryType = "movies" | "tvshows" | "anime";
+// Settings holding a single folder path
+type FolderSettingKey =
+  | "moviesDestination"
+  | "tvShowsDestination"
+  | "animeDestination"
+  | "duplicateQuarantinePath"
+  | "conflictsPath";
+type FolderPickerTarget = { type: LibraryType | FolderSettingKey; index: number } | null;
+
+// Source folder list for each library type
+const PATHS_KEY = {
+  movies: "moviesPaths",
+  tvshows: "tvShowsPaths",
+  anime: "animePaths",
+} as const;
+
+const PICKER_TITLES: Record<LibraryType | FolderSettingKey, string> = {
+  movies: "Select Movies Source Folder",
+  tvshows: "Select TV Shows Source Folder",
+  anime: "Select Anime Source Folder",
+  moviesDestination: "Select Movies Destination",
+  tvShowsDestination: "Select TV Shows Destination",
+  animeDestination: "Select Anime Destination",
+  duplicateQuarantinePath: "Select Duplicate Quarantine Folder",
+  conflictsPath: "Select Conflicts Folder",
 };
 
-type FolderPickerTarget = { type: "movies" | "tvshows" | "moviesDestination" | "tvShowsDestination"; index: number } | null;
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  skip: "Skip and flag for review",
+  overwrite: "Overwrite the existing file",
+  keep_both: "Keep both (numbered name)",
+  replace_if_better: "Replace only if better quality or larger",
+  conflicts_folder: "Move to a conflicts folder",
+};
+
+const TRANSFER_MODE_LABELS: Record<TransferMode, string> = {
+  move: "Move",
+  copy: "Copy",
+  hardlink: "Hardlink (copy across filesystems)",
+  symlink: "Symlink",
+  reflink: "Reflink (copy when unsupported)",
+};
+
+// How files get into a library folder; everything except move keeps the source for seeding
+function TransferModeSelect({
+  value,
+  onChange,
+  testId,
+}: {
+  value: TransferMode;
+  onChange: (value: TransferMode) => void;
+  testId: string;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label className="text-sm font-normal text-muted-foreground">Transfer mode</Label>
+      <Select value={value} onValueChange={(mode) => onChange(mode as TransferMode)}>
+        <SelectTrigger className="w-64" data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(TRANSFER_MODE_LABELS) as TransferMode[]).map((mode) => (
+            <SelectItem key={mode} value={mode}>
+              {TRANSFER_MODE_LABELS[mode]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+const METADATA_PROVIDER_NAMES: Record<MetadataProviderId, string> = {
+  tmdb: "TMDB",
+  tvdb: "TVDB",
+  omdb: "OMDb",
+};
+
+// Metadata providers a library searches, top first; the next one is tried when a
+// provider finds no match. Disabled providers are listed after the enabled ones.
+function ProviderPriority({
+  value,
+  configured,
+  onChange,
+  testId,
+}: {
+  value: MetadataProviderId[];
+  configured: MetadataProviderId[];
+  onChange: (value: MetadataProviderId[]) => void;
+  testId: string;
+}) {
+  const disabled = METADATA_PROVIDERS.filter((id) => !value.includes(id));
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      <Label className="text-sm font-normal text-muted-foreground">Metadata providers (in priority order)</Label>
+      {[...value, ...disabled].map((id) => {
+        const index = value.indexOf(id);
+        const enabled = index !== -1;
+        return (
+          <div key={id} className="flex items-center gap-3 rounded-md border px-3 py-1.5">
+            <Switch
+              checked={enabled}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...value, id] : value.filter((other) => other !== id))
+              }
+              data-testid={`${testId}-toggle-${id}`}
+            />
+            <span className={`text-sm flex-1 ${enabled ? "" : "text-muted-foreground"}`}>
+              {METADATA_PROVIDER_NAMES[id]}
+            </span>
+            {!configured.includes(id) && <Badge variant="outline">No API key</Badge>}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={!enabled || index === 0}
+              onClick={() => move(index, -1)}
+              data-testid={`${testId}-up-${id}`}
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={!enabled || index === value.length - 1}
+              onClick={() => move(index, 1)}
+              data-testid={`${testId}-down-${id}`}
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Scoring factors shown in the duplicate resolution settings
+const QUALITY_WEIGHT_LABELS: Record<keyof QualityProfile["weights"], string> = {
+  resolution: "Resolution",
+  source: "Source",
+  videoCodec: "Video Codec",
+  dynamicRange: "HDR",
+  fileSize: "File Size",
+  releaseGroup: "Release Group",
+};
+
+// Helper: comma-separated release group input -> array (kept untrimmed so typing
+// spaces and commas works; the server trims and drops empty entries)
+const parseGroupList = (value: string) => value.split(",");
 
 export default function Settings() {
   const { toast } = useToast();
@@ -90,8 +309,10 @@ export default function Settings() {
           : (savedSettings as any).tvShowsPath
             ? [(savedSettings as any).tvShowsPath]
             : defaultSettings.tvShowsPaths,
+        animePaths: Array.isArray(savedSettings.animePaths) ? savedSettings.animePaths : [],
         moviesDestination: savedSettings.moviesDestination || "",
         tvShowsDestination: savedSettings.tvShowsDestination || "",
+        animeDestination: savedSettings.animeDestination || "",
       };
       setSettings(migrated);
     }
@@ -175,49 +396,40 @@ export default function Settings() {
     setSettings((prev) => ({ ...prev, [key]: value }));
   };
 
-  const addPath = (type: "movies" | "tvshows") => {
-    if (type === "movies") {
-      updateSetting("moviesPaths", [...settings.moviesPaths, ""]);
-    } else {
-      updateSetting("tvShowsPaths", [...settings.tvShowsPaths, ""]);
-    }
+  const addPath = (type: LibraryType) => {
+    const key = PATHS_KEY[type];
+    updateSetting(key, [...settings[key], ""]);
   };
 
-  const removePath = (type: "movies" | "tvshows", index: number) => {
-    if (type === "movies") {
-      const newPaths = settings.moviesPaths.filter((_, i) => i !== index);
-      updateSetting("moviesPaths", newPaths.length > 0 ? newPaths : [""]);
-    } else {
-      const newPaths = settings.tvShowsPaths.filter((_, i) => i !== index);
-      updateSetting("tvShowsPaths", newPaths.length > 0 ? newPaths : [""]);
-    }
+  const removePath = (type: LibraryType, index: number) => {
+    const key = PATHS_KEY[type];
+    const newPaths = settings[key].filter((_, i) => i !== index);
+    // Anime is optional, so its list may be emptied completely
+    updateSetting(key, newPaths.length > 0 || type === "anime" ? newPaths : [""]);
   };
 
-  const updatePath = (type: "movies" | "tvshows", index: number, value: string) => {
-    if (type === "movies") {
-      const newPaths = [...settings.moviesPaths];
-      newPaths[index] = value;
-      updateSetting("moviesPaths", newPaths);
-    } else {
-      const newPaths = [...settings.tvShowsPaths];
-      newPaths[index] = value;
-      updateSetting("tvShowsPaths", newPaths);
-    }
+  const updatePath = (type: LibraryType, index: number, value: string) => {
+    const key = PATHS_KEY[type];
+    const newPaths = [...settings[key]];
+    newPaths[index] = value;
+    updateSetting(key, newPaths);
+  };
+
+  const updateQualityProfile = (changes: Partial<QualityProfile>) => {
+    updateSetting("qualityProfile", { ...settings.qualityProfile, ...changes });
   };
 
-  const openFolderPicker = (type: "movies" | "tvshows" | "moviesDestination" | "tvShowsDestination", index: number) => {
+  const openFolderPicker = (type: LibraryType | FolderSettingKey, index: number) => {
     setPickerTarget({ type, index });
     setFolderPickerOpen(true);
   };
 
   const handleFolderSelect = (path: string) => {
     if (pickerTarget) {
-      if (pickerTarget.type === "moviesDestination") {
-        updateSetting("moviesDestination", path);
-      } else if (pickerTarget.type === "tvShowsDestination") {
-        updateSetting("tvShowsDestination", path);
+      if (pickerTarget.type in PATHS_KEY) {
+        updatePath(pickerTarget.type as LibraryType, pickerTarget.index, path);
       } else {
-        updatePath(pickerTarget.type, pickerTarget.index, path);
+        updateSetting(pickerTarget.type as FolderSettingKey, path);
       }
     }
     setPickerTarget(null);
@@ -225,9 +437,7 @@ export default function Settings() {
 
   const getPickerTitle = () => {
     if (!pickerTarget) return "Select Folder";
-    if (pickerTarget.type === "moviesDestination") return "Select Movies Destination";
-    if (pickerTarget.type === "tvShowsDestination") return "Select TV Shows Destination";
-    return pickerTarget.type === "movies" ? "Select Movies Source Folder" : "Select TV Shows Source Folder";
+    return PICKER_TITLES[pickerTarget.type];
   };
 
   const getInitialPath = () => {
@@ -344,6 +554,17 @@ export default function Settings() {
               <p className="text-xs text-muted-foreground">
                 Where organized movies will be moved to
               </p>
+              <TransferModeSelect
+                value={settings.moviesTransferMode}
+                onChange={(mode) => updateSetting("moviesTransferMode", mode)}
+                testId="select-movies-transfer-mode"
+              />
+              <ProviderPriority
+                value={settings.moviesMetadataProviders}
+                configured={settings.configuredMetadataProviders}
+                onChange={(providers) => updateSetting("moviesMetadataProviders", providers)}
+                testId="movies-metadata-providers"
+              />
             </div>
 
             <Separator />
@@ -421,6 +642,107 @@ export default function Settings() {
               <p className="text-xs text-muted-foreground">
                 Where organized TV shows will be moved to
               </p>
+              <TransferModeSelect
+                value={settings.tvShowsTransferMode}
+                onChange={(mode) => updateSetting("tvShowsTransferMode", mode)}
+                testId="select-tvshows-transfer-mode"
+              />
+              <ProviderPriority
+                value={settings.tvShowsMetadataProviders}
+                configured={settings.configuredMetadataProviders}
+                onChange={(providers) => updateSetting("tvShowsMetadataProviders", providers)}
+                testId="tvshows-metadata-providers"
+              />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="flex items-center gap-2 text-base">
+                  <Sparkles className="h-4 w-4 text-pink-500" />
+                  Anime Source Folders
+                </Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addPath("anime")}
+                  data-testid="button-add-anime-path"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {settings.animePaths.map((path, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      value={path}
+                      onChange={(e) => updatePath("anime", index, e.target.value)}
+                      placeholder="/path/to/Anime"
+                      className="flex-1"
+                      data-testid={`input-anime-path-${index}`}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => openFolderPicker("anime", index)}
+                      data-testid={`button-browse-anime-${index}`}
+                    >
+                      <Search className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removePath("anime", index)}
+                      data-testid={`button-remove-anime-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Files here are parsed with absolute episode numbering ([Group] Title - 047 [CRC32])
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              <Label className="flex items-center gap-2 text-base">
+                <Sparkles className="h-4 w-4 text-pink-500" />
+                Anime Destination
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  value={settings.animeDestination}
+                  onChange={(e) => updateSetting("animeDestination", e.target.value)}
+                  placeholder="/path/to/organized/Anime"
+                  className="flex-1"
+                  data-testid="input-anime-destination"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => openFolderPicker("animeDestination", 0)}
+                  data-testid="button-browse-anime-destination"
+                >
+                  <Search className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Where organized anime will be moved to (uses the TV Shows destination when empty)
+              </p>
+              <TransferModeSelect
+                value={settings.animeTransferMode}
+                onChange={(mode) => updateSetting("animeTransferMode", mode)}
+                testId="select-anime-transfer-mode"
+              />
+              <ProviderPriority
+                value={settings.animeMetadataProviders}
+                configured={settings.configuredMetadataProviders}
+                onChange={(providers) => updateSetting("animeMetadataProviders", providers)}
+                testId="anime-metadata-providers"
+              />
             </div>
           </CardContent>
         </Card>
@@ -600,6 +922,242 @@ export default function Settings() {
                 </p>
               </div>
             </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="reviewThreshold">Review Threshold (%)</Label>
+              <div className="flex items-center gap-4">
+                <Input
+                  id="reviewThreshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={settings.reviewThreshold}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    updateSetting("reviewThreshold", Number.isFinite(value) ? value : 70);
+                  }}
+                  className="w-24"
+                  data-testid="input-review-threshold"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Files matched with lower confidence wait under Organizer → Needs Review instead of being
+                  auto-organized (0 turns this off)
+                </p>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Movie Edition Naming</Label>
+                <p className="text-sm text-muted-foreground">
+                  How editions like Director's Cut appear in movie filenames
+                </p>
+              </div>
+              <Select
+                value={settings.editionNaming}
+                onValueChange={(value) => updateSetting("editionNaming", value as EditionNaming)}
+              >
+                <SelectTrigger className="w-64" data-testid="select-edition-naming">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="jellyfin">Movie (2001) - Director's Cut</SelectItem>
+                  <SelectItem value="plex">{"Movie (2001) {edition-Director's Cut}"}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Episode Titles in Filenames</Label>
+                <p className="text-sm text-muted-foreground">
+                  Name episodes "Show - S01E02 - Episode Title.mkv" using the title from the matched
+                  show's episode list. Applies to files scanned after it is turned on.
+                </p>
+              </div>
+              <Switch
+                checked={settings.episodeTitles}
+                onCheckedChange={(checked) => updateSetting("episodeTitles", checked)}
+                data-testid="switch-episode-titles"
+              />
+            </div>
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Keep Multiple Movie Versions</Label>
+                <p className="text-sm text-muted-foreground">
+                  Organize other copies of a movie already in the library as versions, e.g.
+                  "Movie (2001) - 2160p HDR10.mkv" next to "Movie (2001) - 1080p.mkv"
+                </p>
+              </div>
+              <Switch
+                checked={settings.movieVersions}
+                onCheckedChange={(checked) => updateSetting("movieVersions", checked)}
+                data-testid="switch-movie-versions"
+              />
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>When the Destination Exists</Label>
+                <p className="text-sm text-muted-foreground">
+                  Files that aren't organized get the conflict status and are listed in the
+                  Organizer. Overwritten files go to the quarantine folder when one is set.
+                </p>
+              </div>
+              <Select
+                value={settings.conflictPolicy}
+                onValueChange={(value) => updateSetting("conflictPolicy", value as ConflictPolicy)}
+              >
+                <SelectTrigger className="w-64" data-testid="select-conflict-policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map((policy) => (
+                    <SelectItem key={policy} value={policy}>
+                      {CONFLICT_POLICY_LABELS[policy]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {settings.conflictPolicy === "conflicts_folder" && (
+              <div className="space-y-2">
+                <Label htmlFor="conflictsPath">Conflicts Folder</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="conflictsPath"
+                    value={settings.conflictsPath}
+                    onChange={(e) => updateSetting("conflictsPath", e.target.value)}
+                    placeholder="/path/to/Conflicts"
+                    className="flex-1"
+                    data-testid="input-conflicts-path"
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => openFolderPicker("conflictsPath", 0)}
+                    data-testid="button-browse-conflicts-path"
+                  >
+                    <Search className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Incoming files whose destination is taken are parked here until reviewed
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Copy className="h-5 w-5 text-orange-500" />
+              Duplicate Resolution
+            </CardTitle>
+            <CardDescription>
+              How the best copy of a duplicate is chosen and where the others go
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="quarantinePath">Quarantine Folder</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="quarantinePath"
+                  value={settings.duplicateQuarantinePath}
+                  onChange={(e) => updateSetting("duplicateQuarantinePath", e.target.value)}
+                  placeholder="/path/to/Quarantine"
+                  className="flex-1"
+                  data-testid="input-quarantine-path"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => openFolderPicker("duplicateQuarantinePath", 0)}
+                  data-testid="button-browse-quarantine-path"
+                >
+                  <Search className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Auto-resolve moves the lower-ranked copies here instead of deleting them
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Scoring Weights</Label>
+              <div className="grid gap-3 grid-cols-2 md:grid-cols-3">
+                {(Object.keys(QUALITY_WEIGHT_LABELS) as Array<keyof QualityProfile["weights"]>).map(
+                  (factor) => (
+                    <div key={factor} className="space-y-1">
+                      <Label htmlFor={`weight-${factor}`} className="text-xs text-muted-foreground">
+                        {QUALITY_WEIGHT_LABELS[factor]}
+                      </Label>
+                      <Input
+                        id={`weight-${factor}`}
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={settings.qualityProfile.weights[factor]}
+                        onChange={(e) =>
+                          updateQualityProfile({
+                            weights: {
+                              ...settings.qualityProfile.weights,
+                              [factor]: parseInt(e.target.value) || 0,
+                            },
+                          })
+                        }
+                        data-testid={`input-weight-${factor}`}
+                      />
+                    </div>
+                  )
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Points a copy earns for the best value of each attribute; set to 0 to ignore it
+              </p>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="preferredGroups">Preferred Release Groups</Label>
+                <Input
+                  id="preferredGroups"
+                  value={settings.qualityProfile.preferredGroups.join(",")}
+                  onChange={(e) =>
+                    updateQualityProfile({ preferredGroups: parseGroupList(e.target.value) })
+                  }
+                  placeholder="FraMeSToR, NTb"
+                  data-testid="input-preferred-groups"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="avoidedGroups">Avoided Release Groups</Label>
+                <Input
+                  id="avoidedGroups"
+                  value={settings.qualityProfile.avoidedGroups.join(",")}
+                  onChange={(e) =>
+                    updateQualityProfile({ avoidedGroups: parseGroupList(e.target.value) })
+                  }
+                  placeholder="YIFY"
+                  data-testid="input-avoided-groups"
+                />
+              </div>
+            </div>
           </CardContent>
         </Card>
 
@@ -607,10 +1165,11 @@ export default function Settings() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Key className="h-5 w-5 text-amber-500" />
-              TMDB API Settings
+              Metadata Providers
             </CardTitle>
             <CardDescription>
-              Get your free API key from themoviedb.org for movie/TV metadata
+              API keys for the online databases used to match movies and shows. Each library
+              tries its providers in the order set above.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -623,7 +1182,7 @@ export default function Settings() {
                     type={showApiKey ? "text" : "password"}
                     value={settings.tmdbApiKey}
                     onChange={(e) => updateSetting("tmdbApiKey", e.target.value)}
-                    placeholder="Enter your TMDB API key"
+                    placeholder="Enter your TMDB API key or read access token"
                     className="pr-10"
                     data-testid="input-tmdb-api-key"
                   />
@@ -649,6 +1208,66 @@ export default function Settings() {
                 >
                   themoviedb.org/settings/api
                 </a>
+                . Either the API key or the longer API read access token works.
+              </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="tvdbApiKey">TVDB API Key</Label>
+                <Input
+                  id="tvdbApiKey"
+                  type={showApiKey ? "text" : "password"}
+                  value={settings.tvdbApiKey}
+                  onChange={(e) => updateSetting("tvdbApiKey", e.target.value)}
+                  placeholder="Enter your TVDB v4 API key"
+                  data-testid="input-tvdb-api-key"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tvdbPin">TVDB Subscriber PIN</Label>
+                <Input
+                  id="tvdbPin"
+                  type={showApiKey ? "text" : "password"}
+                  value={settings.tvdbPin}
+                  onChange={(e) => updateSetting("tvdbPin", e.target.value)}
+                  placeholder="Only for user-supported keys"
+                  data-testid="input-tvdb-pin"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              TVDB keys are issued at{" "}
+              <a
+                href="https://thetvdb.com/api-information"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary underline"
+              >
+                thetvdb.com/api-information
+              </a>
+              . Its episode orders suit anime and long-running shows.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="omdbApiKey">OMDb API Key</Label>
+              <Input
+                id="omdbApiKey"
+                type={showApiKey ? "text" : "password"}
+                value={settings.omdbApiKey}
+                onChange={(e) => updateSetting("omdbApiKey", e.target.value)}
+                placeholder="Enter your OMDb API key"
+                data-testid="input-omdb-api-key"
+              />
+              <p className="text-xs text-muted-foreground">
+                Free keys at{" "}
+                <a
+                  href="https://www.omdbapi.com/apikey.aspx"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary underline"
+                >
+                  omdbapi.com/apikey.aspx
+                </a>
+                {" "}(1,000 requests a day). OMDb has no backdrops and matches by IMDb ID.
               </p>
             </div>
           </CardContent>
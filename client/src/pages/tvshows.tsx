@@ -12,6 +12,7 @@ import {
   Loader2,
   RefreshCw,
   Search,
+  Wand2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -26,17 +27,23 @@ import {
 } from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { IdentifyDialog, type IdentifySubject } from "@/components/identify-dialog";
 import type { TvSeries } from "@shared/schema";
 
+interface SeriesEpisode {
+  id: string;
+  episode: number;
+  airDate: string | null;
+  filename: string;
+}
+
 interface SeriesWithEpisodes extends TvSeries {
   seasons: Array<{
     number: number;
-    episodes: Array<{
-      id: string;
-      episode: number;
-      filename: string;
-    }>;
+    episodes: SeriesEpisode[];
   }>;
+  // Season 00 episodes, shown as their own group
+  specials: SeriesEpisode[];
 }
 
 export default function TvShows() {
@@ -45,6 +52,7 @@ export default function TvShows() {
   const [expandedSeries, setExpandedSeries] = useState<Set<string>>(new Set());
   const [expandedSeasons, setExpandedSeasons] = useState<Set<string>>(new Set());
   const [failedPosters, setFailedPosters] = useState<Set<string>>(new Set());
+  const [identifying, setIdentifying] = useState<IdentifySubject | null>(null);
 
   const handlePosterError = useCallback((seriesId: string) => {
     setFailedPosters(prev => new Set(prev).add(seriesId));
@@ -93,7 +101,8 @@ export default function TvShows() {
   );
 
   const totalEpisodes = series?.reduce(
-    (acc, s) => acc + s.seasons.reduce((sAcc, season) => sAcc + season.episodes.length, 0),
+    (acc, s) =>
+      acc + s.seasons.reduce((sAcc, season) => sAcc + season.episodes.length, 0) + s.specials.length,
     0
   ) || 0;
 
@@ -233,10 +242,23 @@ export default function TvShows() {
                               <p className="text-sm text-muted-foreground">
                                 {show.seasons.length} season{show.seasons.length !== 1 ? "s" : ""} •{" "}
                                 {show.seasons.reduce((acc, s) => acc + s.episodes.length, 0)} episodes
+                                {show.specials.length > 0 && ` • ${show.specials.length} specials`}
                               </p>
                             </div>
                           </div>
                           <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setIdentifying({ kind: "series", id: show.id, name: show.name, year: show.year });
+                              }}
+                              title="Identify"
+                              data-testid={`button-identify-series-${show.id}`}
+                            >
+                              <Wand2 className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -260,7 +282,10 @@ export default function TvShows() {
 
                       <CollapsibleContent>
                         <div className="px-4 pb-4 space-y-2">
-                          {show.seasons.map((season) => {
+                          {[
+                            ...show.seasons,
+                            ...(show.specials.length > 0 ? [{ number: 0, episodes: show.specials }] : []),
+                          ].map((season) => {
                             const seasonKey = `${show.id}-${season.number}`;
                             return (
                               <Collapsible
@@ -273,7 +298,9 @@ export default function TvShows() {
                                     <div className="flex items-center gap-2">
                                       <Folder className="h-4 w-4 text-muted-foreground" />
                                       <span className="text-sm font-medium">
-                                        Season {String(season.number).padStart(2, "0")}
+                                        {season.number === 0
+                                          ? "Specials"
+                                          : `Season ${String(season.number).padStart(2, "0")}`}
                                       </span>
                                       <Badge variant="outline" className="text-xs">
                                         {season.episodes.length} episodes
@@ -291,13 +318,17 @@ export default function TvShows() {
                                   <div className="ml-6 mt-2 space-y-1">
                                     {season.episodes.map((ep) => (
                                       <div
-                                        key={ep.id}
+                                        key={`${ep.id}-${ep.episode}`}
                                         className="flex items-center gap-2 p-2 rounded text-sm"
-                                        data-testid={`episode-${ep.id}`}
+                                        data-testid={`episode-${ep.id}-${ep.episode}`}
                                       >
                                         <FileVideo className="h-3 w-3 text-muted-foreground" />
                                         <span className="font-mono text-xs text-muted-foreground">
-                                          E{String(ep.episode).padStart(2, "0")}
+                                          {ep.episode === 0 && ep.airDate
+                                            ? ep.airDate
+                                            : ep.episode === 0 && season.number === 0
+                                              ? "SP"
+                                              : `E${String(ep.episode).padStart(2, "0")}`}
                                         </span>
                                         <span className="truncate text-muted-foreground">
                                           {ep.filename}
@@ -331,6 +362,8 @@ export default function TvShows() {
           )}
         </CardContent>
       </Card>
+
+      <IdentifyDialog subject={identifying} onOpenChange={(open) => !open && setIdentifying(null)} />
     </div>
   );
 }
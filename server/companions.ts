@@ -0,0 +1,256 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getExtension, isVideoFile } from "@shared/mediaParser";
+import type { MediaType, TransferMode } from "@shared/schema";
+import { transferFile } from "./transfer";
+
+const HOST_PREFIX = "/host";
+
+export type CompanionKind = "subtitle" | "nfo" | "artwork" | "extra";
+
+// A file that belongs to a video and travels with it when the video is organized
+export interface CompanionFile {
+  kind: CompanionKind;
+  path: string;
+  destinationPath: string;
+}
+
+export interface CompanionTransfer {
+  from: string;
+  to: string;
+  transferMode: TransferMode;
+  // Destination folder created for it (an extras folder such as featurettes/)
+  createdFolder: string | null;
+}
+
+const SUBTITLE_EXTENSIONS = [".srt", ".ass", ".ssa", ".sub", ".idx", ".vtt", ".sup", ".smi"];
+const ARTWORK_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp"];
+
+// Subfolders release groups put subtitles in (Subs/English.srt, Subs/<episode>/2_English.srt)
+const SUBTITLE_FOLDERS = ["subs", "subtitles", "sub"];
+
+// Jellyfin extras folders; their videos are extras of the movie, not movies of their own
+const EXTRAS_FOLDERS = [
+  "behind the scenes", "deleted scenes", "interviews", "scenes", "shorts",
+  "featurettes", "clips", "other", "extras", "trailers",
+];
+
+// Folder-level artwork Jellyfin reads from a movie folder (poster.jpg, fanart.jpg, ...)
+const MOVIE_ARTWORK_NAMES = [
+  "poster", "folder", "cover", "fanart", "backdrop", "background", "banner",
+  "logo", "clearlogo", "clearart", "landscape", "thumb", "disc", "discart",
+];
+
+// Subtitle flags Jellyfin understands after the language (Movie.en.forced.srt)
+const SUBTITLE_FLAGS = ["forced", "sdh", "hi", "cc", "default", "foreign"];
+
+// Language names used by release groups -> ISO 639-1 codes
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: "en", french: "fr", spanish: "es", german: "de", italian: "it",
+  portuguese: "pt", dutch: "nl", swedish: "sv", norwegian: "no", danish: "da",
+  finnish: "fi", polish: "pl", russian: "ru", turkish: "tr", greek: "el",
+  arabic: "ar", hebrew: "he", hindi: "hi", japanese: "ja", korean: "ko",
+  chinese: "zh", czech: "cs", hungarian: "hu", romanian: "ro", ukrainian: "uk",
+  vietnamese: "vi", thai: "th", indonesian: "id", malay: "ms",
+};
+
+// Codes accepted as a subtitle language: ISO 639-1 and the common 639-2 ones
+const LANGUAGE_CODES = new Set([
+  ...Object.values(LANGUAGE_NAMES),
+  "eng", "fre", "fra", "spa", "ger", "deu", "ita", "por", "dut", "nld", "swe", "nor",
+  "dan", "fin", "pol", "rus", "tur", "gre", "ell", "ara", "heb", "hin", "jpn", "kor",
+  "chi", "zho", "cze", "ces", "hun", "rum", "ron", "ukr", "vie", "tha", "ind", "may",
+  "msa", "pob",
+]);
+
+const actualPath = (userPath: string, isDocker: boolean) =>
+  isDocker ? `${HOST_PREFIX}${userPath}` : userPath;
+
+// Whether a folder name is a Jellyfin extras folder (scans skip the videos inside)
+export function isExtrasFolder(folderName: string): boolean {
+  return EXTRAS_FOLDERS.includes(folderName.toLowerCase());
+}
+
+// Helper: file stem without its extension
+function stemOf(filename: string): string {
+  const ext = path.extname(filename);
+  return filename.slice(0, filename.length - ext.length);
+}
+
+// Helper: Jellyfin language / flag suffix from the end of a subtitle name
+// ("Movie.2019.en.forced" -> ".en.forced", "2_English" -> ".en")
+function subtitleSuffix(stem: string): string {
+  const tokens = stem.toLowerCase().split(/[._\s-]+/).filter(Boolean);
+  const flags: string[] = [];
+  while (tokens.length > 0 && SUBTITLE_FLAGS.includes(tokens[tokens.length - 1])) {
+    flags.unshift(tokens.pop()!);
+  }
+  const last = tokens[tokens.length - 1];
+  const language = last ? LANGUAGE_NAMES[last] ?? (LANGUAGE_CODES.has(last) ? last : null) : null;
+  const suffix = language ? [language, ...flags] : flags;
+  return suffix.length > 0 ? `.${Array.from(new Set(suffix)).join(".")}` : "";
+}
+
+// Helper: SxxEyy of a filename, for matching sidecars in a season pack
+function episodeCode(filename: string): string | null {
+  const match = filename.match(/s(\d{1,2})[ ._-]?e(\d{1,3})/i);
+  return match ? `${parseInt(match[1], 10)}x${parseInt(match[2], 10)}` : null;
+}
+
+// Helper: list a folder (user paths); empty when unreadable
+async function listFolder(folder: string, isDocker: boolean): Promise<fs.Dirent[]> {
+  try {
+    return await fs.promises.readdir(actualPath(folder, isDocker), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+// Helper: whether a sidecar named `filename` belongs to the video. With one video in the
+// folder every sidecar does; otherwise the name must start with the video's name or
+// carry the same episode code.
+function belongsTo(filename: string, videoFilename: string, soleVideo: boolean): boolean {
+  const stem = stemOf(filename);
+  const videoStem = stemOf(videoFilename);
+  if (stem === videoStem || stem.startsWith(`${videoStem}.`) || stem.startsWith(`${videoStem}-`)) return true;
+  if (soleVideo) return true;
+  const code = episodeCode(videoFilename);
+  return !!code && episodeCode(filename) === code;
+}
+
+// Find the subtitles, NFO, artwork and extras next to a video and where each goes when
+// the video is organized to `destinationPath`. Names follow the destination video name;
+// subtitles keep their language and flag suffixes.
+export async function findCompanionFiles(
+  videoPath: string,
+  destinationPath: string,
+  detectedType: MediaType | null,
+  isDocker: boolean
+): Promise<CompanionFile[]> {
+  const folder = path.dirname(videoPath);
+  const videoFilename = path.basename(videoPath);
+  const videoStem = stemOf(videoFilename);
+  const destFolder = path.dirname(destinationPath);
+  const destStem = stemOf(path.basename(destinationPath));
+  const isMovie = detectedType === "movie";
+
+  const entries = await listFolder(folder, isDocker);
+  const soleVideo = entries.filter((entry) => entry.isFile() && isVideoFile(entry.name)).length === 1;
+
+  const companions: CompanionFile[] = [];
+  const taken = new Set<string>();
+  const add = (kind: CompanionKind, from: string, to: string) => {
+    if (taken.has(to.toLowerCase())) return;
+    taken.add(to.toLowerCase());
+    companions.push({ kind, path: from, destinationPath: to });
+  };
+
+  // Subtitle names can collide once renamed (two "English" subs); number the later ones
+  const addSubtitle = (from: string, suffix: string, ext: string) => {
+    let to = `${destFolder}/${destStem}${suffix}${ext}`;
+    for (let n = 2; taken.has(to.toLowerCase()); n++) {
+      to = `${destFolder}/${destStem}${suffix}.${n}${ext}`;
+    }
+    add("subtitle", from, to);
+  };
+
+  for (const entry of entries) {
+    const from = `${folder}/${entry.name}`;
+
+    if (entry.isDirectory()) {
+      const name = entry.name.toLowerCase();
+      if (SUBTITLE_FOLDERS.includes(name)) {
+        // Subs/<file> for a single video, or Subs/<video name>/<file> in a pack
+        for (const sub of await listFolder(from, isDocker)) {
+          if (sub.isFile() && SUBTITLE_EXTENSIONS.includes(getExtension(sub.name)) && soleVideo) {
+            addSubtitle(`${from}/${sub.name}`, subtitleSuffix(stemOf(sub.name)), getExtension(sub.name));
+          } else if (sub.isDirectory() && sub.name === videoStem) {
+            for (const episodeSub of await listFolder(`${from}/${sub.name}`, isDocker)) {
+              if (episodeSub.isFile() && SUBTITLE_EXTENSIONS.includes(getExtension(episodeSub.name))) {
+                addSubtitle(
+                  `${from}/${sub.name}/${episodeSub.name}`,
+                  subtitleSuffix(stemOf(episodeSub.name)),
+                  getExtension(episodeSub.name)
+                );
+              }
+            }
+          }
+        }
+      } else if (isExtrasFolder(name) && isMovie && soleVideo) {
+        for (const extra of await listFolder(from, isDocker)) {
+          if (extra.isFile() && isVideoFile(extra.name)) {
+            add("extra", `${from}/${extra.name}`, `${destFolder}/${name}/${extra.name}`);
+          }
+        }
+      }
+      continue;
+    }
+
+    if (!entry.isFile() || entry.name === videoFilename) continue;
+    const ext = getExtension(entry.name);
+    const stem = stemOf(entry.name);
+
+    if (SUBTITLE_EXTENSIONS.includes(ext)) {
+      if (!belongsTo(entry.name, videoFilename, soleVideo)) continue;
+      // Only the part after the video's name can hold language tags when the names match
+      const tail = stem.startsWith(videoStem) ? stem.slice(videoStem.length) : stem;
+      addSubtitle(from, subtitleSuffix(tail), ext);
+    } else if (ext === ".nfo") {
+      if (!belongsTo(entry.name, videoFilename, soleVideo)) continue;
+      add("nfo", from, `${destFolder}/${destStem}.nfo`);
+    } else if (ARTWORK_EXTENSIONS.includes(ext)) {
+      const lower = stem.toLowerCase();
+      if (stem === videoStem) {
+        add("artwork", from, `${destFolder}/${destStem}${ext}`);
+      } else if (stem.startsWith(`${videoStem}-`)) {
+        // <video>-poster.jpg, <video>-thumb.jpg
+        add("artwork", from, `${destFolder}/${destStem}${stem.slice(videoStem.length)}${ext}`);
+      } else if (isMovie && soleVideo && MOVIE_ARTWORK_NAMES.includes(lower)) {
+        add("artwork", from, `${destFolder}/${lower}${ext}`);
+      }
+    }
+  }
+
+  return companions;
+}
+
+// Move (or copy / link, like the video) each companion to its destination. A companion
+// whose destination is already taken is left where it is. Returns what was transferred.
+export async function transferCompanions(
+  companions: CompanionFile[],
+  isDocker: boolean,
+  mode: TransferMode = "move"
+): Promise<CompanionTransfer[]> {
+  const transferred: CompanionTransfer[] = [];
+
+  for (const companion of companions) {
+    const source = actualPath(companion.path, isDocker);
+    const dest = actualPath(companion.destinationPath, isDocker);
+    try {
+      if (fs.existsSync(dest)) {
+        console.log(`[Companions] Skipped ${companion.path}: ${companion.destinationPath} already exists`);
+        continue;
+      }
+      const createdFolder = fs.existsSync(path.dirname(dest)) ? null : path.dirname(companion.destinationPath);
+      await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+
+      let transferMode: TransferMode = mode;
+      if (mode === "move") {
+        try {
+          await fs.promises.rename(source, dest);
+        } catch (err: any) {
+          if (err.code !== "EXDEV") throw err;
+          await fs.promises.copyFile(source, dest);
+          await fs.promises.unlink(source);
+        }
+      } else {
+        transferMode = await transferFile(source, dest, mode, companion.path);
+      }
+      transferred.push({ from: companion.path, to: companion.destinationPath, transferMode, createdFolder });
+    } catch (err) {
+      console.error(`[Companions] Failed to transfer ${companion.path}:`, err);
+    }
+  }
+
+  return transferred;
+}
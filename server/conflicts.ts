@@ -0,0 +1,53 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CONFLICT_POLICIES, type ConflictPolicy, type LibraryMatch, type MediaItem } from "@shared/schema";
+import { describeLibraryFile } from "./libraryIndex";
+import { compareCopies, parseQualityProfile } from "./qualityRanking";
+
+const HOST_PREFIX = "/host";
+
+// Incoming item vs the file already at its destination
+export interface ConflictComparison {
+  existing: LibraryMatch;
+  incomingIsBetter: boolean;
+  reasons: string[];
+}
+
+// Helper: a stored setting value as a conflict policy (skip when unset or unknown)
+export function parseConflictPolicy(value: string | undefined): ConflictPolicy {
+  return CONFLICT_POLICIES.find((policy) => policy === value) ?? "skip";
+}
+
+// Helper: whether a user path exists (lstat, so dangling symlinks still count)
+export function destinationExists(userPath: string, isDocker: boolean): boolean {
+  try {
+    fs.lstatSync(isDocker ? `${HOST_PREFIX}${userPath}` : userPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// First free "<name> (n).<ext>" next to a taken destination, for keeping both files
+export function keepBothPath(destinationPath: string, isDocker: boolean): string {
+  const ext = path.extname(destinationPath);
+  const stem = destinationPath.slice(0, destinationPath.length - ext.length);
+  let n = 2;
+  while (destinationExists(`${stem} (${n})${ext}`, isDocker)) n++;
+  return `${stem} (${n})${ext}`;
+}
+
+// Compare an item with the file at its destination using the duplicate quality profile
+export async function compareWithExisting(
+  item: Pick<MediaItem, "originalFilename" | "quality" | "fileSize">,
+  destinationPath: string,
+  settings: Record<string, string>
+): Promise<ConflictComparison> {
+  const existing = await describeLibraryFile(destinationPath);
+  const { better, reasons } = compareCopies(
+    item,
+    { originalFilename: path.basename(existing.path), quality: existing.quality, fileSize: existing.fileSize },
+    parseQualityProfile(settings.qualityProfile)
+  );
+  return { existing, incomingIsBetter: better, reasons };
+}
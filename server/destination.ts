@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import {
+  buildDestinationPath,
+  titleCase,
+  type DestinationBasePaths,
+  type EditionNaming,
+  type ParsedMedia,
+} from "@shared/mediaParser";
+
+// Helper: normalize series name for consistent matching
+function normalizeSeriesName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+    .trim();
+}
+
+// Get canonical series folder name (returns just the folder name, not full path)
+export async function getCanonicalSeriesFolder(
+  detectedName: string,
+  year: number | null
+): Promise<string> {
+  const normalizedInput = normalizeSeriesName(detectedName);
+  
+  // Check if we have an existing TV series with matching name
+  const existingSeries = await storage.getAllTvSeries();
+  
+  for (const series of existingSeries) {
+    const normalizedExisting = normalizeSeriesName(series.name);
+    
+    // Check for match (with some fuzzy tolerance)
+    if (normalizedInput === normalizedExisting || 
+        normalizedInput.includes(normalizedExisting) || 
+        normalizedExisting.includes(normalizedInput)) {
+      // Reuse existing folder name if available (just the folder name, not full path)
+      if (series.folderPath) {
+        // folderPath stores just the folder name like "Ashram (2020)"
+        return series.folderPath;
+      }
+      // Otherwise use existing series name for consistency
+      const yearStr = series.year ? ` (${series.year})` : "";
+      return `${series.name}${yearStr}`;
+    }
+  }
+  
+  // No existing series found, create new folder name
+  const yearStr = year ? ` (${year})` : "";
+  return `${titleCase(detectedName)}${yearStr}`;
+}
+
+// Resolve the Jellyfin destination path for a parsed file, preferring TMDB naming.
+// The episode title goes into the filename only when the episodeTitles setting is on.
+export async function generateDestinationPath(
+  parsed: ParsedMedia,
+  detectedName: string,
+  basePaths: DestinationBasePaths,
+  tmdbName?: string | null,
+  tmdbYear?: number | null,
+  episodeTitle?: string | null
+): Promise<string> {
+  // Use TMDB name if available, otherwise use detected name
+  const canonicalName = tmdbName || titleCase(detectedName);
+  const canonicalYear = tmdbYear || parsed.year;
+
+  // Use TMDB name for folder, or get canonical from existing series
+  let seriesFolder: string | undefined;
+  if (parsed.detectedType === "tvshow") {
+    seriesFolder = tmdbName
+      ? `${tmdbName}${canonicalYear ? ` (${canonicalYear})` : ""}`
+      : await getCanonicalSeriesFolder(detectedName, parsed.year);
+  }
+
+  // Edition filename style and episode titles are user preferences
+  let editionNaming: EditionNaming | undefined;
+  let includeEpisodeTitle = false;
+  if (parsed.edition || episodeTitle) {
+    const settings = await storage.getAllSettings();
+    editionNaming = settings.editionNaming === "plex" ? "plex" : "jellyfin";
+    includeEpisodeTitle = settings.episodeTitles === "true";
+  }
+
+  return buildDestinationPath(parsed, basePaths, {
+    name: canonicalName,
+    year: canonicalYear,
+    seriesFolder,
+    editionNaming,
+    episodeTitle: includeEpisodeTitle ? episodeTitle : null,
+  });
+}
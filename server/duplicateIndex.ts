@@ -0,0 +1,388 @@
+import type { MediaItem } from "@shared/schema";
+import { cleanFilename, getEpisodeNumbers } from "@shared/mediaParser";
+import { calculateSimilarity, normalizeCleaned, normalizeForComparison } from "@shared/nameSimilarity";
+import { createHash } from "crypto";
+import type { DuplicateGroup, DuplicateItem } from "./storage";
+
+// Prefix of group keys that are matched fuzzily (by name similarity)
+const FUZZY_PREFIX = "unknown:";
+
+// Helper: distinct character trigrams of a normalized name
+function trigrams(name: string): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= name.length; i++) {
+    grams.add(name.slice(i, i + 3));
+  }
+  return grams;
+}
+
+// Fields that identify what a file contains
+export type DuplicateKeySource = Pick<
+  MediaItem,
+  | "originalFilename"
+  | "detectedType"
+  | "detectedName"
+  | "season"
+  | "episode"
+  | "episodes"
+  | "airDate"
+  | "year"
+  | "edition"
+  | "partNumber"
+>;
+
+// Helper: true for keys naming a specific movie or episode, false for bare-filename keys
+export function isContentKey(key: string): boolean {
+  return !key.startsWith(FUZZY_PREFIX);
+}
+
+// Helper: the key identifying what an item is. Items with the same key are duplicates:
+// For TV shows: duplicates must have SAME series + season + episode
+// For movies: same name + year (+ edition and part)
+// Anything else gets a name key and is also fuzzy matched against other name keys
+export function duplicateGroupKey(
+  item: DuplicateKeySource,
+  normalizedFilename: string = normalizeForComparison(item.originalFilename)
+): string {
+  if (item.detectedType === "tvshow" && item.season !== null && item.episode !== null) {
+    // Only files covering the EXACT same episodes are duplicates, so a
+    // double-episode S01E01E02 file is not a duplicate of a plain S01E01
+    const seriesName = normalizeForComparison(item.detectedName || item.originalFilename);
+    return `tv:${seriesName}:s${item.season}e${getEpisodeNumbers(item).join("-")}`;
+  }
+  if (item.detectedType === "tvshow" && item.airDate) {
+    // Unresolved daily show episode: the broadcast date identifies it
+    const seriesName = normalizeForComparison(item.detectedName || item.originalFilename);
+    return `tv:${seriesName}:${item.airDate}`;
+  }
+  if (item.detectedType === "movie") {
+    // Stacked parts (CD1/CD2) are separate files of one movie, never duplicates of each other
+    const movieName = normalizeForComparison(item.detectedName || item.originalFilename);
+    const partKey = item.partNumber ? `:part${item.partNumber}` : "";
+    // Different editions are separate versions of the movie, not duplicates
+    const editionKey = item.edition ? `:${normalizeForComparison(item.edition)}` : "";
+    return `movie:${movieName}:${item.year || 'unknown'}${editionKey}${partKey}`;
+  }
+  return `${FUZZY_PREFIX}${normalizedFilename}`;
+}
+
+// Fields duplicateGroupKey() and the similarity score depend on
+const GROUPING_FIELDS: Array<keyof DuplicateKeySource> = [
+  "originalFilename",
+  "detectedType",
+  "detectedName",
+  "season",
+  "episode",
+  "episodes",
+  "airDate",
+  "year",
+  "edition",
+  "partNumber",
+];
+
+function groupingChanged(previous: MediaItem, next: MediaItem): boolean {
+  return GROUPING_FIELDS.some(
+    (field) => JSON.stringify(previous[field]) !== JSON.stringify(next[field])
+  );
+}
+
+// Duplicate groups, maintained incrementally as media items change.
+//
+// Exact keys (TV episode, movie) are plain map lookups. Fuzzy name matching uses a
+// trigram blocking index: a name is only compared (Levenshtein) with groups that share
+// enough trigrams to possibly reach the threshold. An edit destroys at most three
+// trigrams, so a pair within distance d shares at least max(|A|, |B|) - 3d distinct
+// trigrams; everything below that bound is skipped without being compared. Names
+// shorter than three characters only match exactly.
+//
+// Each storage backend owns one index. It is loaded on the first findDuplicates()
+// call and kept current from then on through upsert()/remove() in the write methods,
+// so GET /api/duplicates is cheap enough to poll.
+export class DuplicateIndex {
+  private threshold = 80;
+  private loaded = false;
+  private loading: Promise<void> | null = null;
+  // Changes that arrive while the initial load is running, replayed afterwards
+  private pending: Array<() => void> | null = null;
+
+  private items = new Map<string, MediaItem>();
+  private itemGroup = new Map<string, string>();
+  // Group key -> member ids; the first member is the representative others are compared to
+  private groups = new Map<string, string[]>();
+  private similarity = new Map<string, number>();
+  // Creation order, so fuzzy matches prefer the oldest group like a linear scan would
+  private groupOrder = new Map<string, number>();
+  private nextOrder = 0;
+  private trigramIndex = new Map<string, Set<string>>();
+  private groupTrigramCount = new Map<string, number>();
+  // Fuzzy group keys by name length: short names can be similar without sharing a trigram
+  private lengthIndex = new Map<number, Set<string>>();
+  // cleanFilename() of each filename and its normalized form; cleaning is the
+  // expensive part of grouping, so it runs once per filename
+  private names = new Map<string, { cleaned: string; normalized: string }>();
+
+  private cached: DuplicateGroup[] | null = null;
+
+  async find(threshold: number, loadItems: () => Promise<MediaItem[]>): Promise<DuplicateGroup[]> {
+    if (!this.loaded) {
+      if (!this.loading) {
+        this.loading = (async () => {
+          this.pending = [];
+          try {
+            this.threshold = threshold;
+            this.rebuild(await loadItems());
+            const queued = this.pending;
+            this.pending = null;
+            this.loaded = true;
+            queued.forEach((change) => change());
+          } finally {
+            this.pending = null;
+            this.loading = null;
+          }
+        })();
+      }
+      await this.loading;
+    }
+
+    if (threshold !== this.threshold) {
+      this.threshold = threshold;
+      this.rebuild(Array.from(this.items.values()));
+    }
+
+    if (!this.cached) {
+      this.cached = this.materialize();
+    }
+    return this.cached;
+  }
+
+  // Record a created or updated item
+  upsert(item: MediaItem): void {
+    if (this.pending) {
+      this.pending.push(() => this.upsert(item));
+      return;
+    }
+    if (!this.loaded) return;
+
+    const previous = this.items.get(item.id);
+    this.items.set(item.id, item);
+    this.cached = null;
+
+    // Status/path updates don't move the item between groups
+    if (previous && !groupingChanged(previous, item)) {
+      return;
+    }
+
+    if (previous) this.detach(item.id);
+    this.names.delete(item.id);
+    this.place(item);
+  }
+
+  // Record a deleted item
+  remove(id: string): void {
+    if (this.pending) {
+      this.pending.push(() => this.remove(id));
+      return;
+    }
+    if (!this.loaded || !this.items.has(id)) return;
+
+    this.detach(id);
+    this.items.delete(id);
+    this.names.delete(id);
+    this.cached = null;
+  }
+
+  private rebuild(items: MediaItem[]): void {
+    this.items = new Map(items.map((item) => [item.id, item]));
+    this.itemGroup.clear();
+    this.groups.clear();
+    this.similarity.clear();
+    this.groupOrder.clear();
+    this.trigramIndex.clear();
+    this.groupTrigramCount.clear();
+    this.lengthIndex.clear();
+    this.names.clear();
+    this.cached = null;
+
+    // Oldest first, so the earliest copy becomes each group's representative
+    const ordered = [...items].sort(
+      (a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()
+    );
+    for (const item of ordered) {
+      this.place(item);
+    }
+  }
+
+  private nameOf(item: MediaItem): { cleaned: string; normalized: string } {
+    let name = this.names.get(item.id);
+    if (!name) {
+      const cleaned = cleanFilename(item.originalFilename);
+      name = { cleaned, normalized: normalizeCleaned(cleaned) };
+      this.names.set(item.id, name);
+    }
+    return name;
+  }
+
+  // Helper: put an item into an existing group or start a new one
+  private place(item: MediaItem): void {
+    const name = this.nameOf(item).normalized;
+    const key = duplicateGroupKey(item, name);
+    const existing = this.groups.get(key);
+
+    if (existing) {
+      const representative = this.items.get(existing[0])!;
+      this.join(key, item, calculateSimilarity(name, this.nameOf(representative).normalized));
+      return;
+    }
+
+    // For unknown types, also check fuzzy matching against existing groups
+    if (key.startsWith(FUZZY_PREFIX) && item.detectedType !== "tvshow" && item.detectedType !== "movie") {
+      const match = this.findFuzzyGroup(name);
+      if (match) {
+        this.join(match.key, item, match.similarity);
+        return;
+      }
+    }
+
+    this.groups.set(key, [item.id]);
+    this.groupOrder.set(key, this.nextOrder++);
+    this.itemGroup.set(item.id, key);
+    this.similarity.set(item.id, 100);
+
+    if (key.startsWith(FUZZY_PREFIX)) {
+      const grams = trigrams(key.slice(FUZZY_PREFIX.length));
+      this.groupTrigramCount.set(key, grams.size);
+      grams.forEach((gram) => {
+        if (!this.trigramIndex.has(gram)) this.trigramIndex.set(gram, new Set());
+        this.trigramIndex.get(gram)!.add(key);
+      });
+      const length = key.length - FUZZY_PREFIX.length;
+      if (!this.lengthIndex.has(length)) this.lengthIndex.set(length, new Set());
+      this.lengthIndex.get(length)!.add(key);
+    }
+  }
+
+  private join(key: string, item: MediaItem, similarity: number): void {
+    this.groups.get(key)!.push(item.id);
+    this.itemGroup.set(item.id, key);
+    this.similarity.set(item.id, similarity);
+  }
+
+  // Helper: oldest fuzzy group whose representative is similar enough to `name`
+  private findFuzzyGroup(name: string): { key: string; similarity: number } | null {
+    const grams = trigrams(name);
+    const shared = new Map<string, number>();
+    grams.forEach((gram) => {
+      this.trigramIndex.get(gram)?.forEach((key) => {
+        shared.set(key, (shared.get(key) || 0) + 1);
+      });
+    });
+
+    // Similarity is rounded, so anything at or above threshold - 0.5 counts
+    const minRatio = (this.threshold - 0.5) / 100;
+    const candidates: string[] = [];
+
+    const consider = (count: number, key: string) => {
+      const other = key.slice(FUZZY_PREFIX.length);
+      const minLen = Math.min(name.length, other.length);
+      const maxLen = Math.max(name.length, other.length);
+      // The length difference alone already costs that many edits
+      if (minLen / maxLen < minRatio) return;
+      const maxDistance = Math.floor(maxLen * (1 - minRatio));
+      const requiredShared = Math.max(grams.size, this.groupTrigramCount.get(key) || 0) - 3 * maxDistance;
+      if (count < requiredShared) return;
+      candidates.push(key);
+    };
+    shared.forEach(consider);
+
+    // Each edit breaks at most 3 trigrams, so names within a few edits of each other may
+    // share none ("abcde" / "abxde"): check groups of a close enough length directly
+    const shortest = Math.ceil(name.length * minRatio);
+    const longest = Math.floor(name.length / minRatio);
+    for (let length = shortest; length <= longest; length++) {
+      const maxDistance = Math.floor(Math.max(name.length, length) * (1 - minRatio));
+      if (grams.size > 3 * maxDistance) continue;
+      this.lengthIndex.get(length)?.forEach((key) => {
+        if (!shared.has(key)) consider(0, key);
+      });
+    }
+
+    candidates.sort((a, b) => this.groupOrder.get(a)! - this.groupOrder.get(b)!);
+
+    for (const key of candidates) {
+      const similarity = calculateSimilarity(name, key.slice(FUZZY_PREFIX.length));
+      if (similarity >= this.threshold) {
+        return { key, similarity };
+      }
+    }
+    return null;
+  }
+
+  // Helper: take an item out of its group. When it was the representative the
+  // group dissolves and the remaining members are placed again.
+  private detach(id: string): void {
+    const key = this.itemGroup.get(id);
+    if (!key) return;
+    const members = this.groups.get(key)!;
+    this.itemGroup.delete(id);
+    this.similarity.delete(id);
+
+    if (members[0] !== id) {
+      members.splice(members.indexOf(id), 1);
+      return;
+    }
+
+    this.groups.delete(key);
+    this.groupOrder.delete(key);
+    if (key.startsWith(FUZZY_PREFIX)) {
+      this.groupTrigramCount.delete(key);
+      trigrams(key.slice(FUZZY_PREFIX.length)).forEach((gram) => {
+        const keys = this.trigramIndex.get(gram);
+        keys?.delete(key);
+        if (keys?.size === 0) this.trigramIndex.delete(gram);
+      });
+      const length = key.length - FUZZY_PREFIX.length;
+      const keys = this.lengthIndex.get(length);
+      keys?.delete(key);
+      if (keys?.size === 0) this.lengthIndex.delete(length);
+    }
+
+    for (const memberId of members.slice(1)) {
+      this.itemGroup.delete(memberId);
+      this.place(this.items.get(memberId)!);
+    }
+  }
+
+  private materialize(): DuplicateGroup[] {
+    const result: DuplicateGroup[] = [];
+
+    // Map order is creation order: a re-formed group is re-inserted at the end
+    this.groups.forEach((members, key) => {
+      if (members.length < 2) return;
+
+      const items: DuplicateItem[] = members.map((id, index) => {
+        const item = this.items.get(id)!;
+        return {
+          id: item.id,
+          originalFilename: item.originalFilename,
+          cleanedName: this.nameOf(item).cleaned,
+          similarity: this.similarity.get(id) ?? 100,
+          isOriginal: index === 0,
+          fileSize: item.fileSize ?? undefined,
+          quality: item.quality,
+          detectedType: item.detectedType,
+          status: item.status,
+          versionLabel: item.versionLabel,
+        };
+      });
+
+      result.push({
+        // Derived from the group key so the id stays the same between requests
+        groupId: createHash("sha1").update(key).digest("hex").slice(0, 12),
+        baseName: items[0].cleanedName,
+        items,
+      });
+    });
+
+    return result;
+  }
+}
@@ -2,9 +2,30 @@ import * as chokidar from "chokidar";
 import * as path from "path";
 import * as fs from "fs";
 import { storage } from "./storage";
-import { RELEASE_GROUPS, type MediaType } from "@shared/schema";
+import {
+  findSeriesNameByConsensus,
+  isVideoFile,
+  parseMediaFilename,
+  type DestinationBasePaths,
+  type ParseOptions,
+} from "@shared/mediaParser";
+import { matchConfidence, parseReviewThreshold } from "./matchScoring";
+import {
+  lookupEpisodeTitle,
+  lookupMetadata,
+  matchFields,
+  metadataProvidersFor,
+  resolveEpisodeNumbering,
+} from "./metadataProvider";
+import { generateDestinationPath } from "./destination";
+import { computeFingerprint } from "./fingerprint";
+import { describeLibraryFile, findLibraryMatch } from "./libraryIndex";
+import { labelExistingVersion, planMovieVersion } from "./movieVersions";
+import { TRANSFER_VERBS, transferFile, transferModeFor } from "./transfer";
+import { sourceLibraryPaths } from "./libraryPaths";
+import { findCompanionFiles, isExtrasFolder, transferCompanions, type CompanionFile } from "./companions";
+import type { TransferMode } from "@shared/schema";
 
-const VIDEO_EXTENSIONS = ['.mkv', '.mp4', '.avi', '.mov', '.wmv', '.m4v', '.webm', '.flv', '.ts', '.m2ts'];
 const HOST_PREFIX = "/host";
 
 interface WatcherState {
@@ -27,159 +48,15 @@ const state: WatcherState = {
   watcher: null,
 };
 
-function cleanFilename(filename: string): string {
-  let cleaned = filename;
-  const extMatch = filename.match(/\.[a-zA-Z0-9]{2,4}$/);
-  if (extMatch) {
-    cleaned = cleaned.slice(0, -extMatch[0].length);
-  }
-  cleaned = cleaned.replace(/[._]/g, " ");
-  cleaned = cleaned.replace(/\[.*?\]/g, " ");
-  cleaned = cleaned.replace(/\((?!(?:19|20)\d{2}\))[^)]*\)/g, " ");
-  for (const group of RELEASE_GROUPS) {
-    const regex = new RegExp(`\\b${group}\\b`, "gi");
-    cleaned = cleaned.replace(regex, " ");
-  }
-  cleaned = cleaned.replace(/\s+/g, " ").trim();
-  return cleaned;
-}
-
-function extractYear(filename: string): number | null {
-  const parenMatch = filename.match(/\(?(19[5-9]\d|20[0-2]\d)\)?/);
-  return parenMatch ? parseInt(parenMatch[1], 10) : null;
-}
-
-function detectTVShowPattern(filename: string): { season: number; episode: number } | null {
-  const patterns = [
-    /[Ss](\d{1,2})[Ee](\d{1,3})/,
-    /(\d{1,2})[xX](\d{1,3})/,
-    /[Ss]eason\s*(\d{1,2})\s*[Ee]pisode\s*(\d{1,3})/i,
-    /[Ss](\d{1,2})\s+[Ee](\d{1,3})/,
-    /[Ee][Pp]?(\d{1,3})(?!\d)/,
-  ];
-  for (const pattern of patterns) {
-    const match = filename.match(pattern);
-    if (match) {
-      if (match.length === 2) {
-        return { season: 1, episode: parseInt(match[1], 10) };
-      }
-      return { season: parseInt(match[1], 10), episode: parseInt(match[2], 10) };
-    }
-  }
-  return null;
-}
-
-function getExtension(filename: string): string {
-  const match = filename.match(/\.[a-zA-Z0-9]{2,4}$/);
-  return match ? match[0].toLowerCase() : "";
-}
-
-function parseMediaFilename(filename: string) {
-  const extension = getExtension(filename);
-  const cleanedName = cleanFilename(filename);
-  const year = extractYear(filename);
-  const tvPattern = detectTVShowPattern(filename);
-
-  let detectedType: MediaType = "unknown";
-  let detectedName = cleanedName;
-  let confidence = 50;
-
-  if (tvPattern) {
-    detectedType = "tvshow";
-    confidence = 80;
-    const nameMatch = filename.match(/^(.+?)(?:[Ss]\d|Season|\d+[xX])/i);
-    if (nameMatch) {
-      detectedName = cleanFilename(nameMatch[1]);
-    }
-  } else if (year) {
-    detectedType = "movie";
-    confidence = 70;
-    const yearIndex = filename.indexOf(year.toString());
-    if (yearIndex > 0) {
-      detectedName = cleanFilename(filename.substring(0, yearIndex));
-    }
-  }
-
-  if (detectedName.length > 3 && detectedName.length < 100) {
-    confidence += 10;
-  }
-
-  return {
-    cleanedName,
-    detectedType,
-    detectedName: detectedName || cleanedName,
-    year,
-    season: tvPattern?.season || null,
-    episode: tvPattern?.episode || null,
-    extension,
-    confidence: Math.min(confidence, 100),
-  };
-}
-
-// Helper: normalize series name for consistent matching
-function normalizeSeriesName(name: string): string {
-  return name.toLowerCase().replace(/[^a-z0-9]/g, "").trim();
-}
-
-// Helper: get canonical series folder name
-async function getCanonicalSeriesFolder(
-  detectedName: string,
-  year: number | null
-): Promise<string> {
-  const normalizedInput = normalizeSeriesName(detectedName);
-  const existingSeries = await storage.getAllTvSeries();
-  
-  for (const series of existingSeries) {
-    const normalizedExisting = normalizeSeriesName(series.name);
-    if (normalizedInput === normalizedExisting || 
-        normalizedInput.includes(normalizedExisting) || 
-        normalizedExisting.includes(normalizedInput)) {
-      if (series.folderPath) return series.folderPath;
-      const yearStr = series.year ? ` (${series.year})` : "";
-      return `${series.name}${yearStr}`;
-    }
-  }
-  
-  const titleCase = (str: string) => str.replace(/\b\w/g, (c) => c.toUpperCase());
-  const formattedName = titleCase(detectedName);
-  const yearStr = year ? ` (${year})` : "";
-  return `${formattedName}${yearStr}`;
-}
-
-async function generateDestinationPath(
-  parsed: ReturnType<typeof parseMediaFilename>,
-  detectedName: string,
-  basePaths: { movies: string; tvshows: string }
-): Promise<string> {
-  const { detectedType, year, season, episode, extension } = parsed;
-  const titleCase = (str: string) => str.replace(/\b\w/g, (c) => c.toUpperCase());
-  const formattedName = titleCase(detectedName);
-  const yearStr = year ? ` (${year})` : "";
-
-  if (detectedType === "movie") {
-    const folderName = `${formattedName}${yearStr}`;
-    const fileName = `${formattedName}${yearStr}${extension}`;
-    return `${basePaths.movies}/${folderName}/${fileName}`;
-  }
-
-  if (detectedType === "tvshow" && season !== null && episode !== null) {
-    const seriesFolder = await getCanonicalSeriesFolder(detectedName, year);
-    const seasonFolder = `Season ${season.toString().padStart(2, "0")}`;
-    const episodeStr = `S${season.toString().padStart(2, "0")}E${episode.toString().padStart(2, "0")}`;
-    const seriesNameForFile = seriesFolder.replace(/\s*\(\d{4}\)$/, "");
-    const fileName = `${seriesNameForFile} - ${episodeStr}${extension}`;
-    return `${basePaths.tvshows}/${seriesFolder}/${seasonFolder}/${fileName}`;
-  }
-
-  return `${basePaths.movies}/Unsorted/${parsed.cleanedName}${extension}`;
-}
-
-// Auto-organize: move file to destination
+// Auto-organize: move file to destination (or copy / link it with another transfer mode),
+// taking its companion files (subtitles, NFO, artwork, extras) along
 async function autoOrganizeFile(
   filePath: string, 
   destinationPath: string, 
-  isDocker: boolean
-): Promise<{ success: boolean; error?: string }> {
+  isDocker: boolean,
+  mode: TransferMode,
+  companions: CompanionFile[] = []
+): Promise<{ success: boolean; error?: string; transferMode?: TransferMode; companionCount?: number }> {
   try {
     const actualSourcePath = isDocker ? HOST_PREFIX + filePath : filePath;
     const actualDestPath = isDocker ? HOST_PREFIX + destinationPath : destinationPath;
@@ -192,6 +69,13 @@ async function autoOrganizeFile(
     // Create destination directory
     const destDir = path.dirname(actualDestPath);
     fs.mkdirSync(destDir, { recursive: true });
+
+    // Copies and links leave the source (and its folder) in place
+    if (mode !== "move") {
+      const transferMode = await transferFile(actualSourcePath, actualDestPath, mode, filePath);
+      const transferred = await transferCompanions(companions, isDocker, transferMode);
+      return { success: true, transferMode, companionCount: transferred.length };
+    }
     
     // Get source file stats
     const sourceStats = fs.statSync(actualSourcePath);
@@ -208,6 +92,17 @@ async function autoOrganizeFile(
     
     // Delete source
     fs.unlinkSync(actualSourcePath);
+
+    // Companions in subfolders (Subs/, Featurettes/) leave those folders empty
+    const transferred = await transferCompanions(companions, isDocker, "move");
+    for (const folder of Array.from(new Set(transferred.map((t) => path.dirname(t.from))))) {
+      if (folder === path.dirname(filePath)) continue;
+      try {
+        fs.rmdirSync(isDocker ? HOST_PREFIX + folder : folder);
+      } catch {
+        // Not empty
+      }
+    }
     
     // Clean up empty parent directories
     let parentDir = path.dirname(actualSourcePath);
@@ -225,17 +120,36 @@ async function autoOrganizeFile(
       }
     }
     
-    return { success: true };
+    return { success: true, transferMode: "move", companionCount: transferred.length };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
 
-async function processNewFile(filePath: string, moviesPath: string, tvShowsPath: string, autoOrganize: boolean) {
+// Consensus series name from the other video files in the same folder,
+// matching what a manual scan of that folder would detect
+function findFolderConsensusName(filePath: string): string | null {
+  try {
+    const siblings = fs.readdirSync(path.dirname(filePath)).filter(isVideoFile);
+    return findSeriesNameByConsensus(siblings);
+  } catch {
+    return null;
+  }
+}
+
+async function processNewFile(
+  filePath: string,
+  basePaths: DestinationBasePaths,
+  autoOrganize: boolean,
+  parseOptions: ParseOptions
+) {
   const filename = path.basename(filePath);
-  const ext = path.extname(filename).toLowerCase();
   
-  if (!VIDEO_EXTENSIONS.includes(ext)) {
+  if (!isVideoFile(filename)) {
+    return;
+  }
+  // Extras are organized along with their movie
+  if (isExtrasFolder(path.basename(path.dirname(filePath)))) {
     return;
   }
 
@@ -248,88 +162,150 @@ async function processNewFile(filePath: string, moviesPath: string, tvShowsPath:
       return;
     }
 
-    const parsed = parseMediaFilename(filename);
-    const destinationPath = await generateDestinationPath(parsed, parsed.detectedName, {
-      movies: moviesPath,
-      tvshows: tvShowsPath,
-    });
+    let parsed = parseMediaFilename(filename, findFolderConsensusName(filePath), parseOptions);
+    let confidence = parsed.confidence;
+
+    const settings = await storage.getAllSettings();
+
+    // Metadata lookup for canonical naming (same as background scan)
+    const match = parsed.detectedType !== "unknown"
+      ? await lookupMetadata(parsed.detectedName, parsed.detectedType, parsed.year, metadataProvidersFor(parsed, settings))
+      : null;
+    // Weigh the parser's confidence against how well the match fits
+    confidence = matchConfidence(confidence, match?.score ?? null);
+
+    // Daily shows and anime: map air dates / absolute numbers onto the show's season/episode
+    parsed = await resolveEpisodeNumbering(parsed, match);
+    const episodeTitle = await lookupEpisodeTitle(parsed, match);
+
+    const destinationPath = await generateDestinationPath(
+      parsed,
+      parsed.detectedName,
+      basePaths,
+      match?.name,
+      match?.year,
+      episodeTitle
+    );
 
     const isDocker = fs.existsSync(HOST_PREFIX);
     const userPath = isDocker && filePath.startsWith(HOST_PREFIX) 
       ? filePath.slice(HOST_PREFIX.length) 
       : filePath;
 
+    // Same movie/episode already in a destination library: leave it for review in the Organizer
+    const libraryMatch = destinationPath && fs.existsSync(isDocker ? HOST_PREFIX + destinationPath : destinationPath)
+      ? await describeLibraryFile(destinationPath)
+      : await findLibraryMatch(
+          { ...parsed, originalFilename: filename, detectedName: match?.name || parsed.detectedName, year: match?.year || parsed.year },
+          userPath
+        );
+
+    // Multi-version movies: another copy of a movie goes in as an additional version
+    const versionPlan = libraryMatch && settings.movieVersions === "true"
+      ? await planMovieVersion(
+          {
+            detectedType: parsed.detectedType,
+            originalPath: userPath,
+            destinationPath,
+            quality: parsed.quality,
+            partNumber: parsed.partNumber,
+            versionLabel: null,
+          },
+          isDocker
+        )
+      : null;
+
+    const itemFields = {
+      originalFilename: filename,
+      originalPath: userPath,
+      extension: parsed.extension,
+      detectedType: parsed.detectedType,
+      detectedName: match?.name || parsed.detectedName,
+      cleanedName: parsed.cleanedName,
+      ...matchFields(match),
+      year: match?.year || parsed.year,
+      season: parsed.season,
+      episode: parsed.episode,
+      episodes: parsed.episodes,
+      episodeTitle,
+      airDate: parsed.airDate,
+      absoluteEpisode: parsed.absoluteEpisode,
+      crc32: parsed.crc32,
+      isAnime: parsed.isAnime,
+      partNumber: parsed.partNumber,
+      edition: parsed.edition,
+      quality: parsed.quality,
+      fileSize: fs.existsSync(filePath) ? String(fs.statSync(filePath).size) : null,
+      fingerprint: await computeFingerprint(filePath),
+      libraryMatch: versionPlan ? null : libraryMatch,
+      versionLabel: versionPlan?.versionLabel ?? null,
+      destinationPath: versionPlan?.destinationPath ?? destinationPath,
+      confidence,
+      // Weak matches wait in the Organizer's review list instead of being auto-organized
+      needsReview: confidence < parseReviewThreshold(settings.reviewThreshold),
+    };
+
     // If auto-organize enabled and destination paths are set, organize immediately
-    if (autoOrganize && moviesPath && tvShowsPath && destinationPath) {
-      const result = await autoOrganizeFile(userPath, destinationPath, isDocker);
+    if (
+      autoOrganize &&
+      basePaths.movies &&
+      basePaths.tvshows &&
+      itemFields.destinationPath &&
+      !itemFields.libraryMatch &&
+      !itemFields.needsReview
+    ) {
+      if (itemFields.versionLabel) {
+        await labelExistingVersion(itemFields, isDocker).catch((err) =>
+          console.error(`[FileWatcher] Failed to label existing copy for ${filename}:`, err)
+        );
+      }
+      const transferMode = transferModeFor(itemFields, settings);
+      const companions = await findCompanionFiles(userPath, itemFields.destinationPath, itemFields.detectedType, isDocker);
+      const result = await autoOrganizeFile(userPath, itemFields.destinationPath, isDocker, transferMode, companions);
       
       if (result.success) {
+        const usedMode = result.transferMode || transferMode;
         await storage.createMediaItem({
-          originalFilename: filename,
-          originalPath: userPath,
-          extension: parsed.extension,
-          detectedType: parsed.detectedType,
-          detectedName: parsed.detectedName,
-          cleanedName: parsed.cleanedName,
-          year: parsed.year,
-          season: parsed.season,
-          episode: parsed.episode,
+          ...itemFields,
+          originalPath: itemFields.destinationPath,
+          sourcePath: usedMode === "move" ? null : userPath,
           status: "organized",
-          destinationPath,
-          confidence: parsed.confidence,
         });
 
         await storage.createLog({
           action: "auto-organize",
           fromPath: userPath,
-          toPath: destinationPath,
+          toPath: itemFields.destinationPath,
           success: true,
-          message: `Auto-organized: ${filename}`,
+          message: `Auto-organized (${TRANSFER_VERBS[usedMode].toLowerCase()}): ${filename}${
+            result.companionCount ? ` with ${result.companionCount} companion file(s)` : ""
+          }`,
+          transferMode: usedMode,
         });
 
-        console.log(`[FileWatcher] Auto-organized: ${filename} -> ${destinationPath}`);
+        console.log(`[FileWatcher] Auto-organized (${usedMode}): ${filename} -> ${itemFields.destinationPath}`);
       } else {
         // Failed to organize, save as pending
-        await storage.createMediaItem({
-          originalFilename: filename,
-          originalPath: userPath,
-          extension: parsed.extension,
-          detectedType: parsed.detectedType,
-          detectedName: parsed.detectedName,
-          cleanedName: parsed.cleanedName,
-          year: parsed.year,
-          season: parsed.season,
-          episode: parsed.episode,
-          status: "pending",
-          destinationPath,
-          confidence: parsed.confidence,
-        });
+        await storage.createMediaItem({ ...itemFields, status: "pending" });
 
         await storage.createLog({
           action: "auto-organize",
           fromPath: userPath,
           success: false,
           message: `Auto-organize failed: ${result.error}`,
+          transferMode,
         });
 
         console.error(`[FileWatcher] Auto-organize failed: ${filename} - ${result.error}`);
       }
     } else {
-      // No auto-organize, just save as pending
-      await storage.createMediaItem({
-        originalFilename: filename,
-        originalPath: userPath,
-        extension: parsed.extension,
-        detectedType: parsed.detectedType,
-        detectedName: parsed.detectedName,
-        cleanedName: parsed.cleanedName,
-        year: parsed.year,
-        season: parsed.season,
-        episode: parsed.episode,
-        status: "pending",
-        destinationPath,
-        confidence: parsed.confidence,
-      });
+      // No auto-organize (or already in the library), just save as pending
+      if (itemFields.libraryMatch) {
+        console.log(`[FileWatcher] Already in library: ${filename} matches ${itemFields.libraryMatch.path}`);
+      } else if (itemFields.needsReview && autoOrganize) {
+        console.log(`[FileWatcher] Held for review: ${filename} (confidence ${confidence})`);
+      }
+      await storage.createMediaItem({ ...itemFields, status: "pending" });
 
       await storage.createLog({
         action: "auto-detect",
@@ -358,24 +334,8 @@ export async function startWatcher(): Promise<{ success: boolean; message: strin
   const settings = await storage.getAllSettings();
   const isDocker = fs.existsSync(HOST_PREFIX);
   
-  let moviesPaths: string[] = [];
-  let tvShowsPaths: string[] = [];
-  
-  if (settings.moviesPaths) {
-    try { moviesPaths = JSON.parse(settings.moviesPaths); } 
-    catch { moviesPaths = [settings.moviesPaths]; }
-  } else if (settings.moviesPath) {
-    moviesPaths = [settings.moviesPath];
-  }
-  
-  if (settings.tvShowsPaths) {
-    try { tvShowsPaths = JSON.parse(settings.tvShowsPaths); } 
-    catch { tvShowsPaths = [settings.tvShowsPaths]; }
-  } else if (settings.tvShowsPath) {
-    tvShowsPaths = [settings.tvShowsPath];
-  }
-  
-  const allPaths = [...moviesPaths, ...tvShowsPaths].filter(p => p && p.trim());
+  const { moviesPaths, tvShowsPaths, animePaths } = sourceLibraryPaths(settings);
+  const allPaths = [...moviesPaths, ...tvShowsPaths, ...animePaths].filter(p => p && p.trim());
   
   if (allPaths.length === 0) {
     return { success: false, message: "No library folders configured" };
@@ -390,6 +350,16 @@ export async function startWatcher(): Promise<{ success: boolean; message: strin
   // Use DESTINATION paths for organizing (not source paths!)
   const moviesDestination = settings.moviesDestination || "";
   const tvShowsDestination = settings.tvShowsDestination || "";
+  const basePaths: DestinationBasePaths = {
+    movies: moviesDestination,
+    tvshows: tvShowsDestination,
+    anime: settings.animeDestination || undefined,
+  };
+
+  // Files under an Anime source folder are parsed with the anime profile
+  const animeWatchPaths = animePaths
+    .filter(p => p && p.trim())
+    .map(p => (isDocker ? HOST_PREFIX + p : p).replace(/\/+$/, "") + "/");
   
   // Check if auto-organize is enabled
   const autoOrganize = settings.autoOrganize === "true" && !!moviesDestination && !!tvShowsDestination;
@@ -407,7 +377,8 @@ export async function startWatcher(): Promise<{ success: boolean; message: strin
 
   state.watcher
     .on("add", (filePath) => {
-      processNewFile(filePath, moviesDestination, tvShowsDestination, autoOrganize);
+      const anime = animeWatchPaths.some(p => filePath.startsWith(p));
+      processNewFile(filePath, basePaths, autoOrganize, { anime });
     })
     .on("error", (error) => {
       const errorMsg = `Watcher error: ${error}`;
@@ -0,0 +1,46 @@
+import * as fs from "fs";
+import { createHash } from "crypto";
+
+// Bytes read from each sampled region of a file
+const CHUNK_SIZE = 64 * 1024;
+
+// Partial-hash fingerprint: file size plus a hash of the first, middle and last chunks.
+// Cheap enough to compute during a scan, and byte-identical files always share it.
+// Returns "<size>:<sha1>", or null when the file can't be read.
+export async function computeFingerprint(filePath: string): Promise<string | null> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(filePath, "r");
+    const { size } = await handle.stat();
+    const hash = createHash("sha1");
+
+    // Small files are hashed whole; otherwise sample the three regions
+    const offsets = size <= CHUNK_SIZE * 3
+      ? [0]
+      : [0, Math.floor(size / 2 - CHUNK_SIZE / 2), size - CHUNK_SIZE];
+    const length = size <= CHUNK_SIZE * 3 ? size : CHUNK_SIZE;
+
+    for (const offset of offsets) {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+
+    return `${size}:${hash.digest("hex")}`;
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+// Full SHA-256 of a file's contents, used to confirm an exact duplicate before removal
+export function computeFullHash(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
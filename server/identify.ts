@@ -0,0 +1,149 @@
+import * as fs from "fs";
+import { parseMediaFilename, type DestinationBasePaths, type ParsedMedia } from "@shared/mediaParser";
+import type { MediaItem } from "@shared/schema";
+import { storage } from "./storage";
+import { destinationExists } from "./conflicts";
+import { generateDestinationPath } from "./destination";
+import { describeLibraryFile, findLibraryMatch } from "./libraryIndex";
+import {
+  lookupEpisodeTitle,
+  resolveEpisodeNumbering,
+  type MetadataMediaType,
+  type MetadataSearchResult,
+} from "./metadataProvider";
+import { tmdbGet, tmdbImageUrl } from "./tmdbClient";
+
+// A TMDB movie or show chosen by hand for one or more items
+export interface IdentifyTarget extends MetadataSearchResult {
+  type: MetadataMediaType;
+}
+
+// Helper: a TMDB movie or show by ID, or null when TMDB doesn't have it
+export async function fetchIdentifyTarget(type: MetadataMediaType, tmdbId: number): Promise<IdentifyTarget | null> {
+  const data = await tmdbGet(type === "movie" ? `/movie/${tmdbId}` : `/tv/${tmdbId}`);
+  if (!data) return null;
+  const date: string | undefined = type === "movie" ? data.release_date : data.first_air_date;
+  return {
+    type,
+    provider: "tmdb",
+    id: String(data.id),
+    name: type === "movie" ? data.title : data.name,
+    year: date ? parseInt(date.substring(0, 4), 10) : null,
+    posterPath: tmdbImageUrl(data.poster_path, "w342"),
+  };
+}
+
+// Other items of the same detected movie or series: same type and detected name, or the
+// same metadata match
+export function siblingItems(item: MediaItem, all: MediaItem[]): MediaItem[] {
+  const name = item.detectedName?.toLowerCase();
+  return all.filter(
+    (other) =>
+      other.id !== item.id &&
+      other.detectedType === item.detectedType &&
+      ((!!name && other.detectedName?.toLowerCase() === name) ||
+        (!!item.metadataId &&
+          other.metadataProvider === item.metadataProvider &&
+          other.metadataId === item.metadataId))
+  );
+}
+
+// Re-plan an item as the chosen movie or show: the filename is parsed again as that type,
+// episode numbering is resolved against the new show and the destination is rebuilt.
+// Organized and conflicting items whose destination changes go back to pending so the
+// Organizer moves them. Returns an error message when the file can't be that type.
+export async function identifyItem(
+  item: MediaItem,
+  target: IdentifyTarget,
+  basePaths: DestinationBasePaths
+): Promise<{ item?: MediaItem; error?: string }> {
+  let parsed: ParsedMedia = {
+    ...parseMediaFilename(item.originalFilename, null, { anime: !!item.isAnime }),
+    detectedType: target.type,
+  };
+  if (target.type === "tvshow") {
+    parsed = await resolveEpisodeNumbering(parsed, target);
+    if (parsed.season === null && !parsed.airDate) {
+      return { error: `${item.originalFilename} has no season or episode number to file it under a show` };
+    }
+  } else {
+    // An episode identified as a movie drops its episode numbering
+    parsed = { ...parsed, season: null, episode: null, episodes: null, airDate: null, absoluteEpisode: null };
+  }
+
+  const episodeTitle = await lookupEpisodeTitle(parsed, target);
+  const destinationPath = await generateDestinationPath(
+    parsed,
+    target.name,
+    basePaths,
+    target.name,
+    target.year,
+    episodeTitle
+  );
+  const moved = destinationPath !== item.destinationPath;
+  const organized = item.status === "organized";
+
+  // Library matches and version labels were worked out for the old title
+  let libraryMatch = item.libraryMatch;
+  if (!organized && moved) {
+    const isDocker = fs.existsSync("/host");
+    libraryMatch = destinationExists(destinationPath, isDocker)
+      ? await describeLibraryFile(destinationPath)
+      : await findLibraryMatch(
+          { ...parsed, originalFilename: item.originalFilename, detectedName: target.name, year: target.year },
+          item.originalPath
+        );
+  }
+
+  const updated = await storage.updateMediaItem(item.id, {
+    detectedType: target.type,
+    detectedName: target.name,
+    tmdbId: parseInt(target.id, 10),
+    tmdbName: target.name,
+    year: target.year ?? parsed.year,
+    posterPath: target.posterPath,
+    metadataProvider: "tmdb",
+    metadataId: target.id,
+    season: parsed.season,
+    episode: parsed.episode,
+    episodes: parsed.episodes,
+    episodeTitle,
+    destinationPath,
+    libraryMatch: organized ? item.libraryMatch : libraryMatch,
+    versionLabel: moved ? null : item.versionLabel,
+    // Chosen by hand: nothing left to review
+    matchScore: null,
+    matchCandidates: null,
+    confidence: 100,
+    needsReview: false,
+    ...(moved && (organized || item.status === "conflict") ? { status: "pending" as const } : {}),
+  });
+  console.log(`[Identify] ${item.originalFilename} -> ${target.name} (${target.year ?? "?"}), TMDB ${target.id}`);
+  return { item: updated };
+}
+
+// Identify each item in turn. Files that can't be the chosen type are left as they were
+// and reported by name.
+export async function identifyItems(
+  items: MediaItem[],
+  target: IdentifyTarget,
+  settings: Record<string, string>
+): Promise<{ updated: MediaItem[]; skipped: string[] }> {
+  const basePaths: DestinationBasePaths = {
+    movies: settings.moviesDestination || "",
+    tvshows: settings.tvShowsDestination || "",
+    anime: settings.animeDestination || undefined,
+  };
+  const updated: MediaItem[] = [];
+  const skipped: string[] = [];
+  for (const item of items) {
+    const result = await identifyItem(item, target, basePaths);
+    if (result.item) {
+      updated.push(result.item);
+    } else {
+      console.log(`[Identify] Skipped: ${result.error}`);
+      skipped.push(item.originalFilename);
+    }
+  }
+  return { updated, skipped };
+}
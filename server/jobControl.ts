@@ -0,0 +1,75 @@
+import type { OrganizeJobStatus, ScanJobStatus } from "@shared/schema";
+
+type JobStatus = ScanJobStatus | OrganizeJobStatus;
+
+export const JOB_CONTROLS = ["pause", "resume", "cancel"] as const;
+export type JobControl = (typeof JOB_CONTROLS)[number];
+
+// How often a paused job checks whether it was resumed or cancelled
+const PAUSE_POLL_MS = 1000;
+
+// Statuses a job can be in for each control to apply, and the status it moves to
+const CONTROL_TRANSITIONS: Record<JobControl, { from: JobStatus[]; to: "paused" | "running" | "cancelled" }> = {
+  pause: { from: ["pending", "running"], to: "paused" },
+  resume: { from: ["paused"], to: "running" },
+  cancel: { from: ["pending", "running", "paused"], to: "cancelled" },
+};
+
+// Status a job moves to with a control, or null when the control doesn't apply to it
+export function controlledStatus(
+  current: JobStatus | null,
+  control: JobControl
+): "paused" | "running" | "cancelled" | null {
+  const transition = CONTROL_TRANSITIONS[control];
+  return current && transition.from.includes(current) ? transition.to : null;
+}
+
+// Checked by background job loops at each file boundary. While the job is paused this
+// waits (calling onPause once, so the loop can save its progress); resolves true when
+// the job was cancelled and the loop should stop.
+export async function shouldStopJob(
+  getStatus: () => Promise<JobStatus | null | undefined>,
+  onPause?: () => Promise<unknown>
+): Promise<boolean> {
+  let status = await getStatus();
+  if (status === "paused" && onPause) await onPause();
+  while (status === "paused") {
+    await new Promise((resolve) => setTimeout(resolve, PAUSE_POLL_MS));
+    status = await getStatus();
+  }
+  return status === "cancelled";
+}
+
+// Moves a job loop's own status forward (to running or completed) without overwriting a
+// pause or cancel that lands at the same moment: transition must be a conditional update
+// that resolves falsy when the job is no longer in the expected status. A job paused in
+// between is waited on and the transition retried; resolves false when it was cancelled.
+export async function advanceJob(
+  getStatus: () => Promise<JobStatus | null | undefined>,
+  transition: () => Promise<unknown>,
+  onPause?: () => Promise<unknown>
+): Promise<boolean> {
+  for (;;) {
+    if (await shouldStopJob(getStatus, onPause)) return false;
+    if (await transition()) return true;
+    if ((await getStatus()) !== "paused") return false;
+  }
+}
+
+// IDs of jobs whose background loop is running in this process. After a restart a job's
+// loop is gone, so resuming it would leave it "running" with nothing processing it.
+const jobWorkers = new Set<string>();
+
+// Run a job's background loop, registered for its whole lifetime
+export async function runJobWorker(jobId: string, work: () => Promise<void>): Promise<void> {
+  jobWorkers.add(jobId);
+  try {
+    await work();
+  } finally {
+    jobWorkers.delete(jobId);
+  }
+}
+
+export function hasJobWorker(jobId: string): boolean {
+  return jobWorkers.has(jobId);
+}
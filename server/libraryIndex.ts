@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as path from "path";
+import { detectQuality, isVideoFile, parseMediaFilename } from "@shared/mediaParser";
+import type { LibraryMatch } from "@shared/schema";
+import { storage } from "./storage";
+import { duplicateGroupKey, isContentKey, type DuplicateKeySource } from "./duplicateIndex";
+
+const HOST_PREFIX = "/host";
+
+// How long a walk of the destination libraries is reused
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+// Show/Season XX/file is the deepest layout we write; leave some slack for hand-made folders
+const MAX_DEPTH = 4;
+
+interface LibraryIndex {
+  roots: string;
+  builtAt: number;
+  // Content key (see duplicateGroupKey) -> user paths of library files
+  entries: Map<string, string[]>;
+}
+
+let libraryIndex: LibraryIndex | null = null;
+let building: Promise<LibraryIndex> | null = null;
+
+// Helper: configured destination library roots
+async function getLibraryRoots(): Promise<string[]> {
+  const settings = await storage.getAllSettings();
+  return [settings.moviesDestination, settings.tvShowsDestination, settings.animeDestination]
+    .filter((root): root is string => !!root);
+}
+
+// Helper: collect video files below a folder (hidden folders skipped)
+async function collectVideoFiles(dir: string, depth: number, files: string[]): Promise<void> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && depth < MAX_DEPTH) {
+      await collectVideoFiles(fullPath, depth + 1, files);
+    } else if (entry.isFile() && isVideoFile(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+}
+
+async function buildLibraryIndex(roots: string[]): Promise<LibraryIndex> {
+  const isDocker = fs.existsSync(HOST_PREFIX);
+  const entries = new Map<string, string[]>();
+  let fileCount = 0;
+
+  for (const root of roots) {
+    const files: string[] = [];
+    await collectVideoFiles(isDocker ? `${HOST_PREFIX}${root}` : root, 0, files);
+
+    for (const actualPath of files) {
+      const filename = path.basename(actualPath);
+      const key = duplicateGroupKey({ ...parseMediaFilename(filename), originalFilename: filename });
+      // Files we can't pin to a movie or episode are never reported as matches
+      if (!isContentKey(key)) continue;
+
+      const userPath = isDocker ? actualPath.slice(HOST_PREFIX.length) : actualPath;
+      entries.set(key, [...(entries.get(key) || []), userPath]);
+      fileCount++;
+    }
+  }
+
+  console.log(`[LibraryIndex] Indexed ${fileCount} files in ${roots.length} libraries`);
+  return { roots: roots.join("\n"), builtAt: Date.now(), entries };
+}
+
+async function getLibraryIndex(): Promise<LibraryIndex> {
+  const roots = await getLibraryRoots();
+  if (
+    libraryIndex &&
+    libraryIndex.roots === roots.join("\n") &&
+    Date.now() - libraryIndex.builtAt < INDEX_TTL_MS
+  ) {
+    return libraryIndex;
+  }
+
+  if (!building) {
+    building = buildLibraryIndex(roots).finally(() => {
+      building = null;
+    });
+  }
+  libraryIndex = await building;
+  return libraryIndex;
+}
+
+// Drop the cached index; the next lookup walks the libraries again.
+// Called when a scan starts and after files are moved into a library.
+export function invalidateLibraryIndex(): void {
+  libraryIndex = null;
+}
+
+// Size and quality of a library file. Organized filenames no longer carry release
+// tags, so the app's own record of the file is preferred when it has one.
+export async function describeLibraryFile(userPath: string): Promise<LibraryMatch> {
+  const isDocker = fs.existsSync(HOST_PREFIX);
+  let fileSize: string | null = null;
+  try {
+    fileSize = String((await fs.promises.stat(isDocker ? `${HOST_PREFIX}${userPath}` : userPath)).size);
+  } catch {
+    // Size stays unknown
+  }
+
+  const known = await storage.getMediaItemByPath(userPath);
+  return {
+    path: userPath,
+    fileSize: known?.fileSize ?? fileSize,
+    quality: known?.quality ?? detectQuality(path.basename(userPath)),
+  };
+}
+
+// Find a file in the destination libraries holding the same movie or episode as `item`
+// (ignoring `ownPath`, the item's own file, for items found inside a library)
+export async function findLibraryMatch(
+  item: DuplicateKeySource,
+  ownPath: string
+): Promise<LibraryMatch | null> {
+  const key = duplicateGroupKey(item);
+  if (!isContentKey(key)) return null;
+
+  const { entries } = await getLibraryIndex();
+  const match = entries.get(key)?.find((libraryPath) => libraryPath !== ownPath);
+  return match ? describeLibraryFile(match) : null;
+}
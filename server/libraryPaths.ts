@@ -0,0 +1,39 @@
+// Helper: a folder list setting. Saved as a JSON array; older installs (and hand-edited
+// settings) hold a single plain path, which is a one-folder list.
+export function parsePathList(value: string | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed;
+    return [typeof parsed === "string" ? parsed : value];
+  } catch {
+    return [value];
+  }
+}
+
+export interface SourceLibraryPaths {
+  moviesPaths: string[];
+  tvShowsPaths: string[];
+  animePaths: string[];
+}
+
+// Source folders scanned for each library, falling back to the single moviesPath /
+// tvShowsPath settings from before multiple folders were supported
+export function sourceLibraryPaths(settings: Record<string, string>): SourceLibraryPaths {
+  return {
+    moviesPaths: settings.moviesPaths
+      ? parsePathList(settings.moviesPaths)
+      : parsePathList(settings.moviesPath),
+    tvShowsPaths: settings.tvShowsPaths
+      ? parsePathList(settings.tvShowsPaths)
+      : parsePathList(settings.tvShowsPath),
+    animePaths: parsePathList(settings.animePaths),
+  };
+}
+
+// Helper: every configured source folder, for scanning, watching and cleaning up
+// emptied folders after a move
+export function allSourcePaths(settings: Record<string, string>): string[] {
+  const { moviesPaths, tvShowsPaths, animePaths } = sourceLibraryPaths(settings);
+  return [...moviesPaths, ...tvShowsPaths, ...animePaths];
+}
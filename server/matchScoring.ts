@@ -0,0 +1,122 @@
+import type { MatchCandidate } from "@shared/schema";
+import { calculateSimilarity } from "@shared/nameSimilarity";
+import type { MetadataMediaType, MetadataSearchResult } from "./metadataProvider";
+
+// How much each factor counts towards a candidate's score (sums to 100)
+const WEIGHTS = {
+  title: 60,
+  year: 20,
+  popularity: 10,
+  type: 10,
+};
+
+// Candidates kept on an item for review
+export const MAX_STORED_CANDIDATES = 5;
+
+export interface ScoredResult extends MetadataSearchResult {
+  score: number;
+  // Best similarity (0-100) of the searched name to any of the candidate's titles
+  titleSimilarity: number;
+}
+
+// Any character that isn't a letter or digit in any script
+const NOT_LETTER_OR_DIGIT = new RegExp("[^\\p{L}\\p{N}]", "gu");
+
+// Helper: lowercase letters and digits only, accents dropped and "&" read as "and",
+// so "Amélie", "Amelie!" and "AMELIE" compare equal. Non-Latin scripts are kept.
+function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(NOT_LETTER_OR_DIGIT, "");
+}
+
+// Helper: 0-1 for how close the candidate's year is; unknown years are neutral
+function yearFactor(expected: number | null, actual: number | null): number {
+  if (!expected || !actual) return 0.5;
+  const distance = Math.abs(expected - actual);
+  if (distance === 0) return 1;
+  if (distance === 1) return 0.8;
+  if (distance === 2) return 0.4;
+  return 0;
+}
+
+// Helper: 0-1 for whether the candidate is the kind of release the file is.
+// Direct-to-video releases (compilations, making-ofs) rank below a feature of the same name.
+function typeFactor(expected: MetadataMediaType, candidate: MetadataSearchResult): number {
+  if (!candidate.kind) return 1;
+  if (candidate.kind === expected) return 1;
+  return candidate.kind === "video" && expected === "movie" ? 0.5 : 0;
+}
+
+// Best similarity of any searched name to any of the candidate's titles
+export function titleSimilarity(names: string[], candidate: MetadataSearchResult): number {
+  const queries = names.map(normalizeTitle).filter(Boolean);
+  const titles = [candidate.name, candidate.originalName, ...(candidate.alternativeTitles || [])]
+    .filter((title): title is string => !!title)
+    .map(normalizeTitle)
+    .filter(Boolean);
+  let best = 0;
+  for (const query of queries) {
+    for (const title of titles) {
+      best = Math.max(best, calculateSimilarity(query, title));
+    }
+  }
+  return best;
+}
+
+// Score one candidate (0-100) by title similarity, year distance, popularity and type.
+// names holds the file's detected name and the cleaned search query.
+export function scoreCandidate(
+  names: string[],
+  year: number | null,
+  type: MetadataMediaType,
+  candidate: MetadataSearchResult
+): ScoredResult {
+  const similarity = titleSimilarity(names, candidate);
+  const score =
+    (similarity / 100) * WEIGHTS.title +
+    yearFactor(year, candidate.year) * WEIGHTS.year +
+    (candidate.popularity ?? 0.5) * WEIGHTS.popularity +
+    typeFactor(type, candidate) * WEIGHTS.type;
+  return { ...candidate, score: Math.round(score), titleSimilarity: similarity };
+}
+
+// Score and sort candidates, best first. Equal scores keep the provider's order.
+export function rankCandidates(
+  names: string[],
+  year: number | null,
+  type: MetadataMediaType,
+  candidates: MetadataSearchResult[]
+): ScoredResult[] {
+  return candidates
+    .map((candidate) => scoreCandidate(names, year, type, candidate))
+    .sort((a, b) => b.score - a.score);
+}
+
+// The fields of a ranked candidate stored on an item
+export function toMatchCandidate(result: ScoredResult): MatchCandidate {
+  return {
+    provider: result.provider,
+    id: result.id,
+    name: result.name,
+    year: result.year,
+    posterPath: result.posterPath,
+    score: result.score,
+  };
+}
+
+// Item confidence once matched: the parser's confidence in the filename, weighted
+// against how well the best candidate fits. Unmatched items keep the parser's value.
+export function matchConfidence(parserConfidence: number, matchScore: number | null): number {
+  if (matchScore === null) return parserConfidence;
+  return Math.min(100, Math.round(parserConfidence * 0.4 + matchScore * 0.6));
+}
+
+// Helper: a stored review threshold (0 disables the review hold)
+export function parseReviewThreshold(value: string | undefined): number {
+  const threshold = parseInt(value || "70", 10);
+  return Number.isFinite(threshold) ? Math.max(0, Math.min(100, threshold)) : 70;
+}
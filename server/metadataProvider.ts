@@ -0,0 +1,308 @@
+import { buildSearchQuery, getEpisodeNumbers, type ParsedMedia } from "@shared/mediaParser";
+import { METADATA_PROVIDERS, type MatchCandidate, type MediaItem, type MetadataProviderId } from "@shared/schema";
+import { MAX_STORED_CANDIDATES, rankCandidates, toMatchCandidate, type ScoredResult } from "./matchScoring";
+import { omdbProvider } from "./omdb";
+import { tmdbProvider } from "./tmdb";
+import { tvdbProvider } from "./tvdb";
+
+export type MetadataMediaType = "movie" | "tvshow";
+
+// A movie or show found by a provider search. posterPath is a full image URL.
+export interface MetadataSearchResult {
+  provider: MetadataProviderId;
+  id: string;
+  name: string;
+  year: number | null;
+  posterPath: string | null;
+  // Ranking hints, when the provider has them
+  originalName?: string | null;
+  alternativeTitles?: string[];
+  // Provider popularity, scaled to 0-1
+  popularity?: number | null;
+  // "video" marks direct-to-video releases and compilations
+  kind?: MetadataMediaType | "video";
+}
+
+// The candidate chosen for an item, with its score and the best-scoring candidates
+export interface MetadataMatch extends MetadataSearchResult {
+  score: number;
+  candidates: MatchCandidate[];
+}
+
+export interface MetadataSeason {
+  number: number;
+  // First air date (YYYY-MM-DD) and episode count, when the provider lists them
+  airDate: string | null;
+  episodeCount: number | null;
+}
+
+export interface MetadataSeries extends MetadataSearchResult {
+  // Regular seasons only (no specials)
+  seasons: MetadataSeason[];
+}
+
+export interface MetadataEpisode {
+  season: number;
+  episode: number;
+  title: string | null;
+  airDate: string | null;
+  // Absolute episode number, when the provider has one
+  absolute: number | null;
+}
+
+export interface MetadataImages {
+  posters: string[];
+  backdrops: string[];
+}
+
+// An online metadata source. Lookups resolve to empty results or null when the provider
+// has no match, isn't configured or keeps failing; they never throw.
+export interface MetadataProvider {
+  id: MetadataProviderId;
+  name: string;
+  // Whether the credentials the provider needs are set
+  isConfigured(): Promise<boolean>;
+  searchMovie(query: string, year: number | null): Promise<MetadataSearchResult[]>;
+  searchSeries(query: string, year: number | null): Promise<MetadataSearchResult[]>;
+  getSeries(id: string): Promise<MetadataSeries | null>;
+  // Episodes of one season, or every regular episode in absolute order when season is omitted
+  getEpisodes(seriesId: string, season?: number): Promise<MetadataEpisode[]>;
+  getImages(type: MetadataMediaType, id: string): Promise<MetadataImages>;
+  // Other titles a movie or show is known by (regional titles, former names); providers
+  // whose search results already carry them leave this out
+  getAlternativeTitles?(type: MetadataMediaType, id: string): Promise<string[]>;
+}
+
+const PROVIDERS: Record<MetadataProviderId, MetadataProvider> = {
+  tmdb: tmdbProvider,
+  tvdb: tvdbProvider,
+  omdb: omdbProvider,
+};
+
+export function getMetadataProvider(id: MetadataProviderId): MetadataProvider {
+  return PROVIDERS[id];
+}
+
+// Providers whose credentials are set
+export async function configuredMetadataProviders(): Promise<MetadataProviderId[]> {
+  const configured = await Promise.all(METADATA_PROVIDERS.map((id) => PROVIDERS[id].isConfigured()));
+  return METADATA_PROVIDERS.filter((_, i) => configured[i]);
+}
+
+// Helper: a stored provider priority list (JSON array of provider IDs) with unknown and
+// repeated IDs dropped; every provider in the default order when unset or unreadable
+export function parseProviderPriority(value: string | undefined): MetadataProviderId[] {
+  if (!value) return [...METADATA_PROVIDERS];
+  try {
+    const ids = JSON.parse(value);
+    if (!Array.isArray(ids)) return [...METADATA_PROVIDERS];
+    return METADATA_PROVIDERS.filter((id) => ids.includes(id)).sort((a, b) => ids.indexOf(a) - ids.indexOf(b));
+  } catch {
+    return [...METADATA_PROVIDERS];
+  }
+}
+
+// Providers configured for the library an item belongs to, in priority order.
+// Anime uses the TV Shows order until it has one of its own.
+export function metadataProvidersFor(
+  item: Pick<MediaItem, "detectedType" | "isAnime">,
+  settings: Record<string, string>
+): MetadataProviderId[] {
+  if (item.detectedType === "movie") return parseProviderPriority(settings.moviesMetadataProviders);
+  if (item.isAnime && settings.animeMetadataProviders) return parseProviderPriority(settings.animeMetadataProviders);
+  return parseProviderPriority(settings.tvShowsMetadataProviders);
+}
+
+// Candidates that score at least this well end the search; otherwise the next provider
+// is tried and the best candidate across providers wins
+const CONFIDENT_MATCH_SCORE = 75;
+
+// Candidates whose alternative titles are fetched when their own title isn't an exact match
+const ALTERNATIVE_TITLE_CANDIDATES = 3;
+
+// Search each provider in turn for a canonical name, rank every candidate and return the
+// best. Providers without credentials are skipped; a provider with no confident match
+// falls through to the next.
+export async function lookupMetadata(
+  name: string,
+  type: MetadataMediaType,
+  year: number | null,
+  providerIds: MetadataProviderId[]
+): Promise<MetadataMatch | null> {
+  // First, clean the name aggressively for the search
+  const searchQuery = buildSearchQuery(name);
+
+  console.log(`[Metadata] Original: "${name}" -> Search: "${searchQuery}"`);
+
+  if (!searchQuery || searchQuery.length < 2) {
+    console.log(`[Metadata] Search query too short, skipping`);
+    return null;
+  }
+
+  const ranked: ScoredResult[] = [];
+
+  for (const providerId of providerIds) {
+    const provider = PROVIDERS[providerId];
+    if (!(await provider.isConfigured())) continue;
+
+    const search = (withYear: number | null) =>
+      type === "movie" ? provider.searchMovie(searchQuery, withYear) : provider.searchSeries(searchQuery, withYear);
+
+    try {
+      // Try with year first, then without
+      let results = await search(year);
+      if (results.length === 0 && year) {
+        console.log(`[${provider.name}] No results with year ${year}, trying without year`);
+        results = await search(null);
+      }
+      if (results.length === 0) {
+        console.log(`[${provider.name}] No results for "${searchQuery}"`);
+        continue;
+      }
+
+      let scored = rankCandidates([name, searchQuery], year, type, results);
+
+      // "The Office (US)" or a former title may only appear among the alternative titles
+      if (provider.getAlternativeTitles) {
+        const top = scored.slice(0, ALTERNATIVE_TITLE_CANDIDATES).filter((c) => c.titleSimilarity < 100);
+        for (const candidate of top) {
+          candidate.alternativeTitles = await provider.getAlternativeTitles(type, candidate.id);
+        }
+        if (top.length > 0) scored = rankCandidates([name, searchQuery], year, type, scored);
+      }
+
+      const best = scored[0];
+      console.log(`[${provider.name}] Best of ${scored.length}: "${best.name}" (${best.year}) score ${best.score}`);
+      ranked.push(...scored);
+      if (best.score >= CONFIDENT_MATCH_SCORE) break;
+    } catch (err) {
+      console.error(`[${provider.name}] Lookup error:`, err);
+    }
+  }
+
+  if (ranked.length === 0) return null;
+  ranked.sort((a, b) => b.score - a.score);
+
+  const best = ranked[0];
+  if (!best.posterPath) {
+    const images = await PROVIDERS[best.provider].getImages(type, best.id);
+    best.posterPath = images.posters[0] ?? null;
+  }
+
+  console.log(
+    `[${PROVIDERS[best.provider].name}] Found: "${best.name}" (${best.year}) score ${best.score} poster: ${best.posterPath ? "yes" : "no"}`
+  );
+  const { titleSimilarity, ...match } = best;
+  return { ...match, candidates: ranked.slice(0, MAX_STORED_CANDIDATES).map(toMatchCandidate) };
+}
+
+// Resolve a daily show's air date to its season/episode.
+// Returns the parse result unchanged when the date isn't in the episode list,
+// so the destination falls back to the "Season 2024/Show - 2024-03-15" layout.
+async function resolveAirDate(parsed: ParsedMedia, match: MetadataSearchResult | null): Promise<ParsedMedia> {
+  if (!parsed.airDate || parsed.episode !== null || !match) return parsed;
+  const provider = PROVIDERS[match.provider];
+
+  try {
+    const series = await provider.getSeries(match.id);
+    if (!series) return parsed;
+
+    // Newest season that started on or before the air date is the most likely home;
+    // walk back in case a season's listed start date is off. Seasons without a start
+    // date can't be ruled out.
+    const candidates = series.seasons
+      .filter((s) => s.number > 0 && (!s.airDate || s.airDate <= parsed.airDate!))
+      .map((s) => s.number)
+      .sort((a, b) => b - a)
+      .slice(0, 3);
+
+    for (const seasonNumber of candidates) {
+      const episodes = await provider.getEpisodes(match.id, seasonNumber);
+      const episode = episodes.find((ep) => ep.airDate === parsed.airDate);
+      if (episode) {
+        console.log(`[${provider.name}] Air date ${parsed.airDate} -> S${seasonNumber}E${episode.episode}`);
+        return { ...parsed, season: seasonNumber, episode: episode.episode, episodes: [episode.episode] };
+      }
+    }
+
+    console.log(`[${provider.name}] No episode aired on ${parsed.airDate} for show ${match.id}`);
+  } catch (err) {
+    console.error(`[${provider.name}] Air date lookup error:`, err);
+  }
+
+  return parsed;
+}
+
+// Map an anime absolute episode number (provisionally S01Exx) to its season/episode.
+// Unmapped numbers keep the provisional Season 01 placement.
+async function resolveAbsoluteEpisode(parsed: ParsedMedia, match: MetadataSearchResult | null): Promise<ParsedMedia> {
+  if (parsed.absoluteEpisode === null || !match) return parsed;
+  const provider = PROVIDERS[match.provider];
+
+  try {
+    const order = await provider.getEpisodes(match.id);
+    const target =
+      order.find((ep) => ep.absolute === parsed.absoluteEpisode) ?? order[parsed.absoluteEpisode - 1];
+    if (target) {
+      console.log(`[${provider.name}] Absolute episode ${parsed.absoluteEpisode} -> S${target.season}E${target.episode}`);
+      return { ...parsed, season: target.season, episode: target.episode, episodes: [target.episode] };
+    }
+    console.log(`[${provider.name}] Absolute episode ${parsed.absoluteEpisode} not in episode list for show ${match.id}`);
+  } catch (err) {
+    console.error(`[${provider.name}] Absolute order lookup error:`, err);
+  }
+
+  return parsed;
+}
+
+// Map date-based and absolute episode numbers onto the matched show's season/episode
+export async function resolveEpisodeNumbering(
+  parsed: ParsedMedia,
+  match: MetadataSearchResult | null
+): Promise<ParsedMedia> {
+  if (parsed.detectedType !== "tvshow") return parsed;
+  const resolved = await resolveAirDate(parsed, match);
+  return resolveAbsoluteEpisode(resolved, match);
+}
+
+// Title of the episode in a file, from the matched show's season listing. A multi-episode
+// file gets its titles joined ("Pilot & Paternity"). Null when the show or episode isn't listed.
+export async function lookupEpisodeTitle(
+  parsed: ParsedMedia,
+  match: MetadataSearchResult | null
+): Promise<string | null> {
+  if (parsed.detectedType !== "tvshow" || parsed.season === null || parsed.episode === null || !match) return null;
+  const provider = PROVIDERS[match.provider];
+
+  try {
+    const listing = await provider.getEpisodes(match.id, parsed.season);
+    const titles: string[] = [];
+    for (const number of getEpisodeNumbers(parsed)) {
+      const title = listing.find((ep) => ep.episode === number)?.title;
+      if (title && !titles.includes(title)) titles.push(title);
+    }
+    return titles.length > 0 ? titles.join(" & ") : null;
+  } catch (err) {
+    console.error(`[${provider.name}] Episode title lookup error:`, err);
+    return null;
+  }
+}
+
+// Item fields recording a match: its provider and ID (tmdbId when TMDB made it), its
+// score and the candidates it was chosen from
+export function matchFields(
+  match: MetadataMatch | null
+): Pick<
+  MediaItem,
+  "tmdbId" | "tmdbName" | "posterPath" | "metadataProvider" | "metadataId" | "matchScore" | "matchCandidates"
+> {
+  return {
+    tmdbId: match?.provider === "tmdb" ? parseInt(match.id, 10) : null,
+    tmdbName: match?.name ?? null,
+    posterPath: match?.posterPath ?? null,
+    metadataProvider: match?.provider ?? null,
+    metadataId: match?.id ?? null,
+    matchScore: match?.score ?? null,
+    matchCandidates: match?.candidates ?? null,
+  };
+}
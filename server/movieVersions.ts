@@ -0,0 +1,146 @@
+import * as fs from "fs";
+import * as path from "path";
+import { detectQuality, isVideoFile, qualityVersionLabel } from "@shared/mediaParser";
+import type { MediaItem } from "@shared/schema";
+import { storage } from "./storage";
+
+const HOST_PREFIX = "/host";
+
+// Label for a copy whose quality is unknown
+const FALLBACK_LABEL = "Version";
+
+// Fields of a media item (stored or about to be created) that versioning looks at
+export type MovieVersionSource = Pick<
+  MediaItem,
+  "detectedType" | "originalPath" | "destinationPath" | "quality" | "partNumber" | "versionLabel"
+>;
+
+export interface MovieVersionPlan {
+  versionLabel: string;
+  destinationPath: string;
+}
+
+// A video file in a movie folder and the version label it has (or will get)
+interface FolderVersion {
+  path: string;
+  label: string | null;
+}
+
+// Helper: "<stem> - <label><part><ext>" for a movie filename without a version label
+function versionedFilename(filename: string, label: string, partNumber: number | null): string {
+  const ext = path.extname(filename);
+  const partStr = partNumber ? ` - part${partNumber}` : "";
+  let stem = filename.slice(0, filename.length - ext.length);
+  if (partStr && stem.endsWith(partStr)) stem = stem.slice(0, -partStr.length);
+  return `${stem} - ${label.replace(/[\/\\:*?"<>|]/g, "")}${partStr}${ext}`;
+}
+
+// Helper: label an existing unlabeled copy gets; the app's record of the file is
+// preferred because organized filenames no longer carry release tags
+async function existingCopyLabel(userPath: string): Promise<string> {
+  const known = await storage.getMediaItemByPath(userPath);
+  return qualityVersionLabel(known?.quality ?? detectQuality(path.basename(userPath))) || FALLBACK_LABEL;
+}
+
+// Helper: video files in the movie folder that are versions of `filename`
+// (the unlabeled file itself or "<stem> - <label>.<ext>")
+async function listFolderVersions(
+  destinationPath: string,
+  isDocker: boolean
+): Promise<FolderVersion[]> {
+  const folder = path.dirname(destinationPath);
+  const stem = path.basename(destinationPath, path.extname(destinationPath));
+
+  let filenames: string[];
+  try {
+    filenames = await fs.promises.readdir(isDocker ? `${HOST_PREFIX}${folder}` : folder);
+  } catch {
+    return [];
+  }
+
+  const versions: FolderVersion[] = [];
+  for (const filename of filenames.filter(isVideoFile)) {
+    const fileStem = filename.slice(0, filename.length - path.extname(filename).length);
+    if (fileStem === stem) {
+      versions.push({ path: `${folder}/${filename}`, label: null });
+    } else if (fileStem.startsWith(`${stem} - `)) {
+      versions.push({ path: `${folder}/${filename}`, label: fileStem.slice(stem.length + 3) });
+    }
+  }
+  return versions;
+}
+
+// Plan a movie file as an additional version next to the copies already in its
+// movie folder. The label comes from the file's quality and never repeats one
+// already used in the folder. Nothing is moved here; see labelExistingVersion.
+export async function planMovieVersion(
+  item: MovieVersionSource,
+  isDocker: boolean
+): Promise<MovieVersionPlan | null> {
+  if (item.detectedType !== "movie" || !item.destinationPath) return null;
+
+  // Plan from the unlabeled destination so re-planning an item doesn't stack labels
+  const baseDestination = item.versionLabel
+    ? item.destinationPath.replace(` - ${item.versionLabel}`, "")
+    : item.destinationPath;
+
+  const taken = new Set<string>();
+  for (const version of await listFolderVersions(baseDestination, isDocker)) {
+    if (version.path === item.originalPath) continue;
+    const label = version.label ?? await existingCopyLabel(version.path);
+    taken.add(label.toLowerCase());
+  }
+
+  const candidates = [qualityVersionLabel(item.quality), qualityVersionLabel(item.quality, true)]
+    .filter((label): label is string => !!label);
+  if (candidates.length === 0) candidates.push(FALLBACK_LABEL);
+  let versionLabel = candidates.find((label) => !taken.has(label.toLowerCase()));
+  if (!versionLabel) {
+    const base = candidates[candidates.length - 1];
+    let n = 2;
+    while (taken.has(`${base} (${n})`.toLowerCase())) n++;
+    versionLabel = `${base} (${n})`;
+  }
+
+  const filename = versionedFilename(path.basename(baseDestination), versionLabel, item.partNumber);
+  return { versionLabel, destinationPath: `${path.dirname(baseDestination)}/${filename}` };
+}
+
+// Before a labeled version is moved in, give the folder's unlabeled copy (if any) its
+// own label so every version follows "Movie (Year) - <label>.ext". Updates the
+// copy's media item and movie entry. Returns the rename that was made, if any.
+export async function labelExistingVersion(
+  item: MovieVersionSource,
+  isDocker: boolean
+): Promise<{ from: string; to: string } | null> {
+  if (!item.versionLabel || !item.destinationPath) return null;
+
+  const baseDestination = item.destinationPath.replace(` - ${item.versionLabel}`, "");
+  const unlabeled = (await listFolderVersions(baseDestination, isDocker)).find(
+    (version) => version.label === null && version.path !== item.originalPath
+  );
+  if (!unlabeled) return null;
+
+  const known = await storage.getMediaItemByPath(unlabeled.path);
+  const label = await existingCopyLabel(unlabeled.path);
+  const renamed = `${path.dirname(unlabeled.path)}/${versionedFilename(path.basename(unlabeled.path), label, known?.partNumber ?? null)}`;
+  const actual = (userPath: string) => (isDocker ? `${HOST_PREFIX}${userPath}` : userPath);
+
+  if (fs.existsSync(actual(renamed))) return null;
+  await fs.promises.rename(actual(unlabeled.path), actual(renamed));
+
+  if (known) {
+    await storage.updateMediaItem(known.id, {
+      originalPath: renamed,
+      destinationPath: renamed,
+      versionLabel: label,
+    });
+  }
+  const movie = (await storage.getAllMovies()).find((m) => m.filePath === unlabeled.path);
+  if (movie) {
+    await storage.updateMovie(movie.id, { filePath: renamed });
+  }
+
+  console.log(`[MovieVersions] Labeled existing copy: ${unlabeled.path} -> ${renamed}`);
+  return { from: unlabeled.path, to: renamed };
+}
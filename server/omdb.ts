@@ -0,0 +1,150 @@
+import { storage } from "./storage";
+import type { MetadataEpisode, MetadataProvider, MetadataSearchResult } from "./metadataProvider";
+
+const OMDB_BASE_URL = "https://www.omdbapi.com/";
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// Responses are kept in memory for a while; the free tier allows 1,000 requests a day
+const RESPONSE_TTL_MS = 60 * 60 * 1000;
+
+const responses = new Map<string, { expiresAt: number; data: Promise<any> }>();
+let lastResponsePrune = 0;
+
+// Helper: OMDb API key from the env var first, then settings
+async function getApiKey(): Promise<string | null> {
+  if (process.env.OMDB_API_KEY) return process.env.OMDB_API_KEY;
+  try {
+    const settings = await storage.getAllSettings();
+    return settings.omdbApiKey || null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper: "N/A" is how OMDb says a field is empty
+function value(field: string | undefined): string | null {
+  return field && field !== "N/A" ? field : null;
+}
+
+// Helper: first year of an OMDb year ("2010", "2010–2015", "2010–")
+function yearOf(year: string | undefined): number | null {
+  const match = value(year)?.match(/^\d{4}/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+// Helper: query the API and return the response JSON, or null on failure or no match
+async function request(params: Record<string, string>): Promise<any | null> {
+  const apiKey = await getApiKey();
+  if (!apiKey) return null;
+  try {
+    const query = new URLSearchParams({ ...params, apikey: apiKey });
+    const response = await fetch(`${OMDB_BASE_URL}?${query}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      console.error(`[OMDb] ${response.status} for ${JSON.stringify(params)}`);
+      return null;
+    }
+    const body = await response.json();
+    if (body.Response === "False") {
+      // "Movie not found!" and "Series or season not found!" are ordinary misses
+      if (!/not found/i.test(body.Error || "")) console.error(`[OMDb] ${body.Error}`);
+      return null;
+    }
+    return body;
+  } catch (err) {
+    console.error("[OMDb] Request failed:", err);
+    return null;
+  }
+}
+
+// Helper: forget expired responses (checked at most once per TTL)
+function pruneResponses() {
+  const now = Date.now();
+  if (now - lastResponsePrune < RESPONSE_TTL_MS) return;
+  lastResponsePrune = now;
+  responses.forEach((entry, key) => {
+    if (entry.expiresAt <= now) responses.delete(key);
+  });
+}
+
+// Helper: cached request; failed requests aren't kept
+function omdbGet(params: Record<string, string>): Promise<any | null> {
+  const key = new URLSearchParams(params).toString();
+  const cached = responses.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.data;
+
+  const data = request(params);
+  pruneResponses();
+  responses.set(key, { expiresAt: Date.now() + RESPONSE_TTL_MS, data });
+  data.then((body) => {
+    if (body === null) responses.delete(key);
+  });
+  return data;
+}
+
+function toSearchResult(result: any): MetadataSearchResult {
+  return {
+    provider: "omdb",
+    id: result.imdbID,
+    name: result.Title,
+    year: yearOf(result.Year),
+    posterPath: value(result.Poster),
+  };
+}
+
+async function search(query: string, type: "movie" | "series", year: number | null) {
+  const params: Record<string, string> = { s: query, type };
+  if (year) params.y = String(year);
+  const body = await omdbGet(params);
+  return (body?.Search || []).map(toSearchResult);
+}
+
+async function getSeasonEpisodes(imdbId: string, season: number): Promise<MetadataEpisode[]> {
+  const body = await omdbGet({ i: imdbId, Season: String(season) });
+  return (body?.Episodes || []).map((ep: any) => ({
+    season,
+    episode: parseInt(ep.Episode, 10),
+    title: value(ep.Title),
+    airDate: value(ep.Released),
+    absolute: null,
+  }));
+}
+
+// Looks titles up by IMDb ID; seasons and episodes are listed for series
+export const omdbProvider: MetadataProvider = {
+  id: "omdb",
+  name: "OMDb",
+
+  async isConfigured() {
+    return !!(await getApiKey());
+  },
+
+  searchMovie: (query, year) => search(query, "movie", year),
+
+  searchSeries: (query, year) => search(query, "series", year),
+
+  async getSeries(id) {
+    const body = await omdbGet({ i: id });
+    if (!body) return null;
+    const totalSeasons = parseInt(value(body.totalSeasons) || "0", 10);
+    return {
+      ...toSearchResult(body),
+      seasons: Array.from({ length: totalSeasons }, (_, i) => ({ number: i + 1, airDate: null, episodeCount: null })),
+    };
+  },
+
+  async getEpisodes(seriesId, season) {
+    if (season !== undefined) return getSeasonEpisodes(seriesId, season);
+    const series = await this.getSeries(seriesId);
+    const episodes: MetadataEpisode[] = [];
+    for (const s of series?.seasons || []) {
+      episodes.push(...(await getSeasonEpisodes(seriesId, s.number)));
+    }
+    return episodes;
+  },
+
+  async getImages(_type, id) {
+    const body = await omdbGet({ i: id });
+    const poster = value(body?.Poster);
+    return { posters: poster ? [poster] : [], backdrops: [] };
+  },
+};
@@ -0,0 +1,176 @@
+import { QUALITY_VALUES, detectReleaseGroup } from "@shared/mediaParser";
+import { DEFAULT_QUALITY_PROFILE, type MediaQuality, type QualityProfile } from "@shared/schema";
+import type { DuplicateGroup, DuplicateItem } from "./storage";
+
+type Factor = keyof QualityProfile["weights"];
+
+// Per-factor points for one copy
+type Breakdown = Record<Factor, number>;
+
+// What scoring looks at: a duplicate copy, or a file about to be organized / already in a library
+export interface RankedCopy {
+  originalFilename: string;
+  quality?: MediaQuality | null;
+  fileSize?: string | null;
+}
+
+// Helper: trimmed, non-empty release group names
+function cleanGroupList(groups: unknown): string[] {
+  if (!Array.isArray(groups)) return [];
+  return groups.map((group) => String(group).trim()).filter(Boolean);
+}
+
+// Read the saved profile (settings key "qualityProfile"), filling gaps from the defaults
+export function parseQualityProfile(raw: string | undefined): QualityProfile {
+  if (!raw) return DEFAULT_QUALITY_PROFILE;
+  try {
+    const saved = JSON.parse(raw) as Partial<QualityProfile>;
+    return {
+      weights: { ...DEFAULT_QUALITY_PROFILE.weights, ...(saved.weights || {}) },
+      preferredGroups: cleanGroupList(saved.preferredGroups),
+      avoidedGroups: cleanGroupList(saved.avoidedGroups),
+    };
+  } catch {
+    return DEFAULT_QUALITY_PROFILE;
+  }
+}
+
+// Helper: 1 for the best value in a best-first list, approaching 0 for the worst; 0 when unknown
+function tierScore(values: readonly string[], value: string | null | undefined): number {
+  if (!value) return 0;
+  const index = values.indexOf(value);
+  if (index === -1) return 0;
+  return (values.length - index) / values.length;
+}
+
+// Helper: human-readable byte count
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+function fileBytes(item: RankedCopy): number {
+  const size = parseInt(item.fileSize || "", 10);
+  return Number.isFinite(size) ? size : 0;
+}
+
+function groupPreference(item: RankedCopy, profile: QualityProfile): number {
+  const group = detectReleaseGroup(item.originalFilename)?.toLowerCase();
+  if (!group) return 0;
+  if (profile.preferredGroups.some((g) => g.toLowerCase() === group)) return 1;
+  if (profile.avoidedGroups.some((g) => g.toLowerCase() === group)) return -1;
+  return 0;
+}
+
+function scoreItem(item: RankedCopy, largestFile: number, profile: QualityProfile): Breakdown {
+  const { weights } = profile;
+  const quality = item.quality;
+  return {
+    resolution: weights.resolution * tierScore(QUALITY_VALUES.resolution, quality?.resolution),
+    source: weights.source * tierScore(QUALITY_VALUES.source, quality?.source),
+    videoCodec: weights.videoCodec * tierScore(QUALITY_VALUES.videoCodec, quality?.videoCodec),
+    dynamicRange: weights.dynamicRange * tierScore(QUALITY_VALUES.dynamicRange, quality?.dynamicRange),
+    fileSize: largestFile > 0 ? weights.fileSize * (fileBytes(item) / largestFile) : 0,
+    releaseGroup: weights.releaseGroup * groupPreference(item, profile),
+  };
+}
+
+// Helper: describe one factor where `better` beat `worse`
+function describeFactor(factor: Factor, better: RankedCopy, worse: RankedCopy, won: boolean): string {
+  const value = (item: RankedCopy): string => {
+    switch (factor) {
+      case "fileSize":
+        return formatBytes(fileBytes(item));
+      case "releaseGroup":
+        return detectReleaseGroup(item.originalFilename) || "unknown group";
+      case "dynamicRange":
+        return item.quality?.dynamicRange || "SDR";
+      default:
+        return item.quality?.[factor] || "unknown";
+    }
+  };
+  const [self, other] = won ? [better, worse] : [worse, better];
+  const labels: Record<Factor, [string, string]> = {
+    resolution: ["Higher resolution", "Lower resolution"],
+    source: ["Better source", "Worse source"],
+    videoCodec: ["Better video codec", "Older video codec"],
+    dynamicRange: ["Better dynamic range", "Weaker dynamic range"],
+    fileSize: ["Larger file", "Smaller file"],
+    releaseGroup: ["Preferred release group", "Less preferred release group"],
+  };
+  return `${labels[factor][won ? 0 : 1]} (${value(self)} vs ${value(other)})`;
+}
+
+// Helper: factors where `a` scored more than `b`, biggest gap first
+function winningFactors(a: Breakdown, b: Breakdown): Factor[] {
+  return (Object.keys(a) as Factor[])
+    .filter((factor) => a[factor] - b[factor] > 0.01)
+    .sort((x, y) => (a[y] - b[y]) - (a[x] - b[x]));
+}
+
+const total = (breakdown: Breakdown) =>
+  Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+
+// Rank a duplicate group by quality score. The best copy becomes the recommended
+// keeper (and isOriginal); every copy gets a score and the reasons it won or lost.
+export function rankDuplicateGroup(group: DuplicateGroup, profile: QualityProfile): DuplicateGroup {
+  const largestFile = Math.max(...group.items.map(fileBytes));
+  const scored = group.items.map((item) => ({
+    item,
+    breakdown: scoreItem(item, largestFile, profile),
+  }));
+
+  // Stable sort keeps the scan order for exact ties
+  scored.sort((a, b) => total(b.breakdown) - total(a.breakdown));
+  const [keeper, runnerUp] = scored;
+
+  const items = scored.map(({ item, breakdown }, index) => {
+    let reasons: string[];
+    if (index === 0) {
+      const factors = winningFactors(breakdown, runnerUp.breakdown);
+      reasons = factors.length > 0
+        ? factors.map((factor) => describeFactor(factor, item, runnerUp.item, true))
+        : ["Same quality as the other copies; kept the first one found"];
+    } else {
+      const factors = winningFactors(keeper.breakdown, breakdown);
+      reasons = factors.length > 0
+        ? factors.map((factor) => describeFactor(factor, keeper.item, item, false))
+        : ["Same quality as the recommended copy"];
+    }
+
+    return {
+      ...item,
+      isOriginal: index === 0,
+      score: Math.round(total(breakdown)),
+      reasons,
+    };
+  });
+
+  return {
+    ...group,
+    recommendedKeeperId: keeper.item.id,
+    items,
+  };
+}
+
+// Compare an incoming copy with the one already at its destination. The incoming copy
+// is better only with a strictly higher score; reasons list what decided it.
+export function compareCopies(
+  incoming: RankedCopy,
+  existing: RankedCopy,
+  profile: QualityProfile
+): { better: boolean; reasons: string[] } {
+  const largestFile = Math.max(fileBytes(incoming), fileBytes(existing));
+  const incomingScore = scoreItem(incoming, largestFile, profile);
+  const existingScore = scoreItem(existing, largestFile, profile);
+
+  const better = total(incomingScore) > total(existingScore);
+  const [winner, loser, winnerScore, loserScore] = better
+    ? [incoming, existing, incomingScore, existingScore]
+    : [existing, incoming, existingScore, incomingScore];
+  const factors = winningFactors(winnerScore, loserScore);
+  const reasons = factors.length > 0
+    ? factors.map((factor) => describeFactor(factor, winner, loser, better))
+    : ["Same quality as the existing copy"];
+  return { better, reasons };
+}
@@ -1,443 +1,101 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { RELEASE_GROUPS, type MediaType } from "@shared/schema";
+import { storage, type DuplicateGroup } from "./storage";
+import {
+  VIDEO_EXTENSIONS,
+  type InsertOrganizeJournalEntry,
+  type MediaItem,
+  type Movie,
+  type OrganizeJournalEntry,
+  type ScanJobStatus,
+  type ConflictPolicy,
+  type TransferMode,
+  type TvSeries,
+} from "@shared/schema";
+import {
+  parseMediaFilename,
+  findSeriesNameByConsensus,
+  getEpisodeNumbers,
+  QUALITY_VALUES,
+  type DestinationBasePaths,
+} from "@shared/mediaParser";
 import * as fs from "fs";
 import * as path from "path";
 import { startWatcher, stopWatcher, getWatcherStatus, initWatcher } from "./fileWatcher";
-
-const TMDB_API_KEY = process.env.TMDB_API_KEY;
-const TMDB_BASE_URL = "https://api.themoviedb.org/3";
-
-// Helper functions for parsing filenames
-function cleanFilename(filename: string): string {
-  let cleaned = filename;
-
-  const extMatch = filename.match(/\.[a-zA-Z0-9]{2,4}$/);
-  if (extMatch) {
-    cleaned = cleaned.slice(0, -extMatch[0].length);
-  }
-
-  cleaned = cleaned.replace(/[._]/g, " ");
-  cleaned = cleaned.replace(/\[.*?\]/g, " ");
-  cleaned = cleaned.replace(/\((?!(?:19|20)\d{2}\))[^)]*\)/g, " ");
-
-  for (const group of RELEASE_GROUPS) {
-    const regex = new RegExp(`\\b${group}\\b`, "gi");
-    cleaned = cleaned.replace(regex, " ");
-  }
-
-  cleaned = cleaned.replace(/\s+/g, " ").trim();
-  return cleaned;
-}
-
-// Aggressive cleaner for TMDB search - strips ALL junk to get just the title
-function cleanForTmdbSearch(filename: string): string {
-  let cleaned = filename;
-  
-  // Remove extension
-  cleaned = cleaned.replace(/\.[a-zA-Z0-9]{2,4}$/, "");
-  
-  // Replace delimiters with spaces
-  cleaned = cleaned.replace(/[._\-\[\]]/g, " ");
-  
-  // Remove content in brackets except years
-  cleaned = cleaned.replace(/\((?!(?:19|20)\d{2}\))[^)]*\)/g, " ");
-  
-  // Comprehensive list of junk patterns to remove (case-insensitive)
-  const junkPatterns = [
-    // Quality tags
-    /\b(720p|1080p|2160p|4k|hd|fhd|uhd|sd)\b/gi,
-    /\b(hdtv|webdl|web-dl|webrip|web|bluray|bdrip|brrip|dvdrip|hdrip|hdtc|hdts|hdcam|cam|ts|tc|r5|dvdscr|screener|pre)\b/gi,
-    /\b(remux|proper|repack|internal|real|extended|uncut|unrated|theatrical|directors?\.?cut)\b/gi,
-    
-    // Video codecs
-    /\b(x264|x265|h\.?264|h\.?265|hevc|avc|xvid|divx|10bit|8bit|hdr|hdr10|sdr|dv|dolby\.?vision)\b/gi,
-    
-    // Audio codecs and channels
-    /\b(aac|ac3|dts|dts-hd|truehd|atmos|flac|mp3|eac3)\b/gi,
-    /\b(ddp?5?\.?1|dd5?\.?1|dd2?\.?0|5\.1|7\.1|2\.0|dts-x)\b/gi,
-    /\b(ddp|ddpa|dts|dd)\d*\.?\d*\b/gi,
-    
-    // Streaming services
-    /\b(amzn|amazon|nf|netflix|hmax|hbo|dsnp|disney\+?|atvp|apple|pcok|peacock|hulu|max|hotstar|hs|jhs|zee5|sonyliv|jio|voot|mxplayer)\b/gi,
-    
-    // Languages (remove these from search query, not the whole filename)
-    /\b(hindi|english|tamil|telugu|malayalam|kannada|bengali|marathi|punjabi|gujarati|spanish|french|german|italian|japanese|korean|chinese|russian|portuguese|arabic|thai|vietnamese|indonesian|dutch|polish|turkish|swedish|norwegian|danish|finnish|greek|hebrew|hungarian|czech|romanian|ukrainian|persian|urdu)\b/gi,
-    /\b(hin|eng|tam|tel|mal|kan|ben|mar|pun|chi|kor|jap|spa|fre|ger|ita|rus|por|ara|tha|vie|ind|dut|pol|tur|swe|nor|dan|fin|gre|heb|hun|cze|rom|ukr|per|urd)\b/gi,
-    /\b(dual|multi|dual-audio|multi-audio)\b/gi,
-    
-    // Subtitles
-    /\b(esub|esubs|subs?|subtitles?|hcsub|hc|msub|msubs|subtitled)\b/gi,
-    
-    // Release groups and uploaders
-    /\b(yts|yify|rarbg|eztv|ettv|lol|dimension|sparks|ntg|ntb|flux|phoenix|ggez|ggwp|gossip|cmrg|sigma|mkvcage|pahe|psa|tepes|hone|evo|fgt|galactica|memento|syncopy|nogrp|ion10|playwave|frds|npms|successors|telly|cakes|glhf|deejayahmed|hdhub4u|kingdom|katmoviehd|grab|ms|tv|rg)\b/gi,
-    
-    // Quality indicators
-    /\b(hq|lq|line|clear|proper|clean)\b/gi,
-    
-    // Common junk
-    /\b(www|com|org|net|to|in|me|cc|ws|sx)\b/gi,
-    /\b(v2|v3|v4)\b/gi,
-    /\baka\b/gi,
-  ];
-  
-  for (const pattern of junkPatterns) {
-    cleaned = cleaned.replace(pattern, " ");
-  }
-  
-  // Remove standalone numbers that look like audio channels or quality
-  cleaned = cleaned.replace(/\b\d+\s*\d*\s*\b/g, (match) => {
-    // Keep years, remove everything else
-    if (/^(19|20)\d{2}$/.test(match.trim())) return match;
-    return " ";
-  });
-  
-  // Clean up multiple spaces and trim
-  cleaned = cleaned.replace(/\s+/g, " ").trim();
-  
-  // Remove leading/trailing punctuation
-  cleaned = cleaned.replace(/^[\s\-\.,]+|[\s\-\.,]+$/g, "");
-  
-  // Remove empty parentheses or malformed ones
-  cleaned = cleaned.replace(/\(\s*\)/g, "");
-  cleaned = cleaned.replace(/\(\s*\(/g, "(");
-  cleaned = cleaned.replace(/\)\s*\)/g, ")");
-  
-  return cleaned;
-}
-
-// Extract just the title words (first few meaningful words before junk)
-function extractTitleForSearch(cleanedName: string): string {
-  // Split into words
-  const words = cleanedName.split(/\s+/);
-  
-  // Take words until we hit a year or max 6 words
-  const titleWords: string[] = [];
-  for (const word of words) {
-    // Stop at year
-    if (/^\(?(19|20)\d{2}\)?$/.test(word)) break;
-    // Stop at empty or very short words that might be junk
-    if (word.length < 2) continue;
-    // Skip numbers unless they look like part of title (like "2" in "Iron Man 2")
-    if (/^\d+$/.test(word) && titleWords.length === 0) continue;
-    
-    titleWords.push(word);
-    
-    // Max 6 words for title
-    if (titleWords.length >= 6) break;
-  }
-  
-  return titleWords.join(" ").trim();
-}
-
-function extractYear(filename: string): number | null {
-  const parenMatch = filename.match(/\(?(19[5-9]\d|20[0-2]\d)\)?/);
-  if (parenMatch) {
-    return parseInt(parenMatch[1], 10);
-  }
-  return null;
-}
-
-function detectTVShowPattern(filename: string): { season: number; episode: number } | null {
-  const patterns = [
-    /[Ss](\d{1,2})[Ee](\d{1,3})/,
-    /(\d{1,2})[xX](\d{1,3})/,
-    /[Ss]eason\s*(\d{1,2})\s*[Ee]pisode\s*(\d{1,3})/i,
-    /[Ss](\d{1,2})\s+[Ee](\d{1,3})/,
-    /[Ee][Pp]?(\d{1,3})(?!\d)/,
-  ];
-
-  for (const pattern of patterns) {
-    const match = filename.match(pattern);
-    if (match) {
-      if (match.length === 2) {
-        return { season: 1, episode: parseInt(match[1], 10) };
-      }
-      return {
-        season: parseInt(match[1], 10),
-        episode: parseInt(match[2], 10),
-      };
-    }
-  }
-
-  return null;
+import { matchConfidence, parseReviewThreshold } from "./matchScoring";
+import {
+  configuredMetadataProviders,
+  lookupEpisodeTitle,
+  lookupMetadata,
+  matchFields,
+  metadataProvidersFor,
+  parseProviderPriority,
+  resolveEpisodeNumbering,
+} from "./metadataProvider";
+import { TMDB_CACHE_TTL, hasTmdbCredentials, tmdbGet, tmdbImageUrl } from "./tmdbClient";
+import { generateDestinationPath } from "./destination";
+import { fetchIdentifyTarget, identifyItems, siblingItems, type IdentifyTarget } from "./identify";
+import { parseQualityProfile, rankDuplicateGroup } from "./qualityRanking";
+import { computeFingerprint, computeFullHash } from "./fingerprint";
+import { describeLibraryFile, findLibraryMatch, invalidateLibraryIndex } from "./libraryIndex";
+import { labelExistingVersion, planMovieVersion, type MovieVersionPlan } from "./movieVersions";
+import { TRANSFER_VERBS, parseTransferMode, transferFile, transferModeFor } from "./transfer";
+import { allSourcePaths, sourceLibraryPaths } from "./libraryPaths";
+import {
+  compareWithExisting,
+  destinationExists,
+  keepBothPath,
+  parseConflictPolicy,
+} from "./conflicts";
+import { JOB_CONTROLS, advanceJob, controlledStatus, hasJobWorker, runJobWorker, shouldStopJob } from "./jobControl";
+import {
+  findCompanionFiles,
+  isExtrasFolder,
+  transferCompanions,
+  type CompanionFile,
+  type CompanionTransfer,
+} from "./companions";
+
+// Quality attributes the media list can be filtered by
+const QUALITY_FILTER_KEYS = Object.keys(QUALITY_VALUES) as Array<keyof typeof QUALITY_VALUES>;
+
+// Duplicate grouping modes for /api/duplicates
+type DuplicateMode = "name" | "exact";
+
+function parseDuplicateMode(value: unknown): DuplicateMode {
+  return value === "exact" ? "exact" : "name";
 }
 
-function getExtension(filename: string): string {
-  const match = filename.match(/\.[a-zA-Z0-9]{2,4}$/);
-  return match ? match[0].toLowerCase() : "";
-}
-
-// Token-based parser: strips quality tags, release groups, and extracts core name
-function tokenizeFilename(filename: string): string[] {
-  // Remove extension
-  let name = filename.replace(/\.[a-zA-Z0-9]{2,4}$/, "");
-  // Replace delimiters with spaces
-  name = name.replace(/[._\-\[\]()]/g, " ");
-  // Split into tokens
-  return name.split(/\s+/).filter(t => t.length > 0);
-}
-
-// Quality and release tags to remove (all lowercase for normalized comparison)
-const QUALITY_TAGS = new Set([
-  '720p', '1080p', '2160p', '4k', 'hdtv', 'web', 'webrip', 'webdl', 'web-dl',
-  'bluray', 'brrip', 'bdrip', 'dvdrip', 'hdrip', 'hdtvrip',
-  'x264', 'x265', 'hevc', 'h264', 'h265', 'avc',
-  'aac', 'ac3', 'dts', 'ddp', 'ddp5', 'dd5', 'ddp51', 'atmos', 'truehd',
-  'proper', 'repack', 'internal', 'readnfo', 'extended', 'uncut', 'unrated',
-  '10bit', '8bit', 'hdr', 'hdr10', 'sdr', 'dv', 'dolby', 'vision',
-  'amzn', 'nf', 'hmax', 'dsnp', 'atvp', 'pcok', 'hulu', 'max',
-  // Release groups / uploaders
-  'telly', 'yts', 'rarbg', 'eztv', 'ettv', 'lol', 'dimension', 'sparks',
-  'ntg', 'ntb', 'flux', 'phoenix', 'ggez', 'ggwp', 'cakes', 'gossip', 
-  'glhf', 'cmrg', 'sigma', 'mkvcage', 'pahe', 'psa', 'tepes',
-  'successors', 'hone', 'evo', 'fgt', 'yify', 'galactica', 'memento',
-  'syncopy', 'nogrp', 'ion10', 'playwave', 'frds', 'npms', 'deejayahmed'
-]);
-
-// Normalize token for quality tag matching (remove dots, lowercase)
-function normalizeToken(token: string): string {
-  return token.toLowerCase().replace(/[.\-]/g, '');
-}
-
-// Check if token is a quality/release tag
-function isQualityTag(token: string): boolean {
-  const normalized = normalizeToken(token);
-  return QUALITY_TAGS.has(normalized);
-}
-
-// Get tokens before any S01E01 pattern or quality tags
-function extractSeriesTokens(tokens: string[]): string[] {
-  const result: string[] = [];
-  let hasNonNumericToken = false;
-  
-  for (let i = 0; i < tokens.length; i++) {
-    const token = tokens[i];
-    const lower = token.toLowerCase();
-    const isNumeric = /^\d+$/.test(token);
-    
-    // Stop at S01E01 pattern
-    if (/^s\d{1,2}e\d{1,3}$/i.test(token)) break;
-    // Stop at season marker
-    if (/^s\d{1,2}$/i.test(token)) break;
-    // Stop at 1x01 pattern
-    if (/^\d{1,2}x\d{1,3}$/i.test(token)) break;
-    
-    // Skip leading quality/release tags (before we have real title tokens)
-    const isReleaseGroup = RELEASE_GROUPS.some(g => lower === g.toLowerCase());
-    if (!hasNonNumericToken && (isQualityTag(token) || isReleaseGroup)) continue;
-    
-    // Stop at quality/release tags (after we have title tokens)
-    if (hasNonNumericToken && isQualityTag(token)) break;
-    // Stop at year in parentheses style (only after we have title tokens)
-    if (/^(19|20)\d{2}$/.test(token) && hasNonNumericToken) break;
-    // Stop at release group patterns (only after we have title tokens)
-    if (hasNonNumericToken && isReleaseGroup) break;
-    // Stop at pure numbers that look like episode numbers (only after we have non-numeric tokens)
-    if (isNumeric && hasNonNumericToken && parseInt(token) <= 50) break;
-    
-    if (!isNumeric) hasNonNumericToken = true;
-    result.push(token);
-  }
-  
-  return result;
-}
-
-// Find longest common prefix of token arrays
-function longestCommonPrefix(tokenArrays: string[][]): string[] {
-  if (tokenArrays.length === 0) return [];
-  if (tokenArrays.length === 1) return tokenArrays[0];
-  
-  const first = tokenArrays[0];
-  const result: string[] = [];
-  
-  for (let i = 0; i < first.length; i++) {
-    const token = first[i].toLowerCase();
-    let allMatch = true;
-    
-    for (let j = 1; j < tokenArrays.length; j++) {
-      if (i >= tokenArrays[j].length || tokenArrays[j][i].toLowerCase() !== token) {
-        allMatch = false;
-        break;
-      }
-    }
-    
-    if (allMatch) {
-      result.push(first[i]);
-    } else {
-      break;
-    }
-  }
-  
-  return result;
-}
-
-// Extract series name from filename (single file)
-function extractSeriesName(filename: string): string {
-  const tokens = tokenizeFilename(filename);
-  const seriesTokens = extractSeriesTokens(tokens);
-  
-  if (seriesTokens.length > 0) {
-    // Title case
-    return seriesTokens.map(t => 
-      t.charAt(0).toUpperCase() + t.slice(1).toLowerCase()
-    ).join(" ");
-  }
-  
-  return cleanFilename(filename);
-}
-
-// Batch consensus: find series name from multiple filenames
-// Only returns consensus if high overlap across files (avoids mixed directory issues)
-function findSeriesNameByConsensus(filenames: string[]): string | null {
-  if (filenames.length < 2) return null;
-  
-  const tokenArrays = filenames.map(f => {
-    const tokens = tokenizeFilename(f);
-    return extractSeriesTokens(tokens);
-  }).filter(t => t.length > 0);
-  
-  if (tokenArrays.length < 2) return null;
-  
-  const commonPrefix = longestCommonPrefix(tokenArrays);
-  if (commonPrefix.length < 2) return null;
-  
-  // Validation: need at least 1 non-numeric word for a valid series name
-  // (keeps numeric tokens like "3" in "3 Body Problem")
-  const nonNumericCount = commonPrefix.filter(t => !/^\d+$/.test(t)).length;
-  if (nonNumericCount < 1) return null;
-  
-  // Guard: only use consensus if at least 70% of files share this prefix
-  // This prevents applying wrong names to mixed directories
-  const minOverlap = Math.ceil(tokenArrays.length * 0.7);
-  let matchCount = 0;
-  
-  for (const tokens of tokenArrays) {
-    let matches = true;
-    for (let i = 0; i < commonPrefix.length; i++) {
-      if (i >= tokens.length || tokens[i].toLowerCase() !== commonPrefix[i].toLowerCase()) {
-        matches = false;
-        break;
-      }
-    }
-    if (matches) matchCount++;
-  }
-  
-  if (matchCount < minOverlap) return null;
-  
-  // Build series name from ALL prefix tokens (including numeric ones like "3")
-  const seriesName = commonPrefix.map(t => 
-    /^\d+$/.test(t) ? t : t.charAt(0).toUpperCase() + t.slice(1).toLowerCase()
-  ).join(" ");
-  
-  // Guard: series name should be at least 3 characters total
-  if (seriesName.length < 3) return null;
-  
-  return seriesName;
-}
+// Helper: full content hash of each media item's file (null when missing/unreadable)
+async function hashMediaItems(
+  ids: string[],
+  isDocker: boolean
+): Promise<Record<string, string | null>> {
+  const HOST_PREFIX = "/host";
+  const hashes: Record<string, string | null> = {};
 
-function parseMediaFilename(filename: string): {
-  cleanedName: string;
-  detectedType: MediaType;
-  detectedName: string;
-  year: number | null;
-  season: number | null;
-  episode: number | null;
-  extension: string;
-  confidence: number;
-} {
-  const extension = getExtension(filename);
-  const cleanedName = cleanFilename(filename);
-  const year = extractYear(filename);
-  const tvPattern = detectTVShowPattern(filename);
-
-  let detectedType: MediaType = "unknown";
-  let detectedName = cleanedName;
-  let confidence = 50;
-
-  if (tvPattern) {
-    detectedType = "tvshow";
-    confidence = 80;
-
-    // Use improved series name extraction
-    detectedName = extractSeriesName(filename);
-  } else if (year) {
-    detectedType = "movie";
-    confidence = 70;
-
-    const yearIndex = filename.indexOf(year.toString());
-    if (yearIndex > 0) {
-      detectedName = cleanFilename(filename.substring(0, yearIndex));
+  for (const id of ids) {
+    const item = await storage.getMediaItemById(id);
+    if (!item) {
+      hashes[id] = null;
+      continue;
     }
+    const actualPath = isDocker ? `${HOST_PREFIX}${item.originalPath}` : item.originalPath;
+    hashes[id] = await computeFullHash(actualPath).catch(() => null);
   }
 
-  if (detectedName.length > 3 && detectedName.length < 100) {
-    confidence += 10;
-  }
-
-  return {
-    cleanedName,
-    detectedType,
-    detectedName: detectedName || cleanedName,
-    year,
-    season: tvPattern?.season || null,
-    episode: tvPattern?.episode || null,
-    extension,
-    confidence: Math.min(confidence, 100),
-  };
-}
-
-// Helper: normalize series name for consistent matching
-function normalizeSeriesName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]/g, "")
-    .trim();
-}
-
-// Helper: get canonical series folder name (returns just the folder name, not full path)
-async function getCanonicalSeriesFolder(
-  detectedName: string,
-  year: number | null
-): Promise<string> {
-  const normalizedInput = normalizeSeriesName(detectedName);
-  
-  // Check if we have an existing TV series with matching name
-  const existingSeries = await storage.getAllTvSeries();
-  
-  for (const series of existingSeries) {
-    const normalizedExisting = normalizeSeriesName(series.name);
-    
-    // Check for match (with some fuzzy tolerance)
-    if (normalizedInput === normalizedExisting || 
-        normalizedInput.includes(normalizedExisting) || 
-        normalizedExisting.includes(normalizedInput)) {
-      // Reuse existing folder name if available (just the folder name, not full path)
-      if (series.folderPath) {
-        // folderPath stores just the folder name like "Ashram (2020)"
-        return series.folderPath;
-      }
-      // Otherwise use existing series name for consistency
-      const yearStr = series.year ? ` (${series.year})` : "";
-      return `${series.name}${yearStr}`;
-    }
-  }
-  
-  // No existing series found, create new folder name
-  const titleCase = (str: string) =>
-    str.replace(/\b\w/g, (c) => c.toUpperCase());
-  const formattedName = titleCase(detectedName);
-  const yearStr = year ? ` (${year})` : "";
-  return `${formattedName}${yearStr}`;
+  return hashes;
 }
 
-// Helper: Move file to destination with folder creation
+// Helper: Move file to destination with folder creation, or copy / link it there with
+// another transfer mode. createdFolders lists the folders made for the destination,
+// outermost first; transferMode is the mode actually used.
 async function moveFileToDestination(
   sourcePath: string,
   destinationPath: string,
-  isDocker: boolean = false
-): Promise<{ success: boolean; error?: string }> {
+  isDocker: boolean = false,
+  mode: TransferMode = "move"
+): Promise<{ success: boolean; error?: string; createdFolders?: string[]; transferMode?: TransferMode }> {
   try {
     // In Docker, paths need HOST_PREFIX for actual filesystem access
     const HOST_PREFIX = "/host";
@@ -451,9 +109,16 @@ async function moveFileToDestination(
       return { success: false, error: `Source file not found: ${sourcePath}` };
     }
     
-    // Create destination directory
+    // Create destination directory (mkdir reports the first folder it had to create)
     const destDir = path.dirname(actualDest);
-    await fs.promises.mkdir(destDir, { recursive: true });
+    const firstCreated = await fs.promises.mkdir(destDir, { recursive: true });
+    const createdFolders: string[] = [];
+    if (firstCreated) {
+      for (let dir = destDir; ; dir = path.dirname(dir)) {
+        createdFolders.unshift(isDocker ? dir.slice(HOST_PREFIX.length) : dir);
+        if (dir === firstCreated || dir === path.dirname(dir)) break;
+      }
+    }
     
     // Check if destination already exists
     try {
@@ -463,6 +128,18 @@ async function moveFileToDestination(
       // Good - destination doesn't exist
     }
     
+    // Copy or link, leaving the source in place
+    if (mode !== "move") {
+      const transferMode = await transferFile(actualSource, actualDest, mode, sourcePath);
+      try {
+        // lstat: in Docker a symlink points at the host path, which doesn't resolve here
+        await fs.promises.lstat(actualDest);
+      } catch {
+        return { success: false, error: `Transfer failed: destination not accessible after ${transferMode}` };
+      }
+      return { success: true, createdFolders, transferMode };
+    }
+
     // Move file (rename if same filesystem, copy+delete otherwise)
     try {
       await fs.promises.rename(actualSource, actualDest);
@@ -502,7 +179,7 @@ async function moveFileToDestination(
       return { success: false, error: `Move failed: destination not accessible after move` };
     }
     
-    return { success: true };
+    return { success: true, createdFolders, transferMode: "move" };
   } catch (err: any) {
     return { success: false, error: err.message || 'Unknown error' };
   }
@@ -555,136 +232,453 @@ async function cleanupEmptyFolders(
   return deletedFolders;
 }
 
-// TMDB lookup cache (in-memory for current session)
-const tmdbCache = new Map<string, { id: number; name: string; year: number | null; posterPath: string | null }>();
+// Helper: path for a file moved into the quarantine folder, prefixed with
+// `uniquePrefix` when another quarantined file already has the same name
+function quarantineTarget(quarantinePath: string, filename: string, uniquePrefix: string, isDocker: boolean): string {
+  const target = path.join(quarantinePath, filename);
+  return fs.existsSync(isDocker ? `/host${target}` : target)
+    ? path.join(quarantinePath, `${uniquePrefix.slice(0, 8)} - ${filename}`)
+    : target;
+}
+
+// Outcome of organizing onto a destination that is already taken. "proceed" moves the
+// item to destinationPath (displaced: where the existing file went, to is null when it
+// was deleted, and the media item it had). "conflict" leaves the item for review (movedTo: its path in the conflicts
+// folder, reached with transferMode).
+type ConflictOutcome =
+  | { outcome: "proceed"; destinationPath: string; displaced: DisplacedFile | null }
+  | { outcome: "conflict"; reason: string; movedTo: string | null; transferMode?: TransferMode };
+
+type DisplacedFile = { from: string; to: string | null; item: MediaItem | null };
+
+// Helper: move the file at an item's destination out of the way before an overwrite.
+// It goes to the quarantine folder when one is set, otherwise it is deleted. Its media
+// item is removed (and returned so a rollback can recreate it).
+async function displaceExisting(
+  destinationPath: string,
+  item: MediaItem,
+  settings: Record<string, string>,
+  isDocker: boolean
+): Promise<DisplacedFile | { error: string }> {
+  const existingItem = await storage.getMediaItemByPath(destinationPath);
+  const quarantinePath = settings.duplicateQuarantinePath;
+  let to: string | null = null;
+
+  if (quarantinePath) {
+    to = quarantineTarget(quarantinePath, path.basename(destinationPath), existingItem?.id || item.id, isDocker);
+    const result = await moveFileToDestination(destinationPath, to, isDocker);
+    await storage.createLog({
+      mediaItemId: existingItem?.id,
+      action: "quarantine",
+      fromPath: destinationPath,
+      toPath: to,
+      success: result.success,
+      message: result.success
+        ? `Quarantined existing file overwritten by ${item.originalFilename}`
+        : `Failed to quarantine: ${result.error}`,
+    });
+    if (!result.success) return { error: `Failed to quarantine existing file: ${result.error}` };
+  } else {
+    try {
+      await fs.promises.unlink(isDocker ? `/host${destinationPath}` : destinationPath);
+    } catch (err: any) {
+      return { error: `Failed to delete existing file: ${err.message}` };
+    }
+    await storage.createLog({
+      mediaItemId: existingItem?.id,
+      action: "delete",
+      fromPath: destinationPath,
+      success: true,
+      message: `Deleted existing file overwritten by ${item.originalFilename}`,
+    });
+  }
+
+  if (existingItem) {
+    await storage.deleteMediaItem(existingItem.id);
+  }
+  return { from: destinationPath, to, item: existingItem ?? null };
+}
+
+// Helper: apply the conflict policy when an item's destination file already exists
+// (nothing to do when it doesn't, or when the source is missing and the move will fail)
+async function applyConflictPolicy(
+  item: MediaItem,
+  destinationPath: string,
+  policy: ConflictPolicy,
+  settings: Record<string, string>,
+  isDocker: boolean,
+  transferMode: TransferMode = "move"
+): Promise<ConflictOutcome> {
+  const sourceExists = fs.existsSync(isDocker ? `/host${item.originalPath}` : item.originalPath);
+  if (!sourceExists || !destinationExists(destinationPath, isDocker)) {
+    return { outcome: "proceed", destinationPath, displaced: null };
+  }
+
+  if (policy === "keep_both") {
+    return { outcome: "proceed", destinationPath: keepBothPath(destinationPath, isDocker), displaced: null };
+  }
+
+  if (policy === "overwrite" || policy === "replace_if_better") {
+    if (policy === "replace_if_better") {
+      const comparison = await compareWithExisting(item, destinationPath, settings);
+      if (!comparison.incomingIsBetter) {
+        return {
+          outcome: "conflict",
+          reason: `Destination already exists and is as good or better: ${comparison.reasons.join(", ")}`,
+          movedTo: null,
+        };
+      }
+    }
+    const displaced = await displaceExisting(destinationPath, item, settings, isDocker);
+    if ("error" in displaced) {
+      return { outcome: "conflict", reason: displaced.error, movedTo: null };
+    }
+    return { outcome: "proceed", destinationPath, displaced };
+  }
+
+  if (policy === "conflicts_folder" && settings.conflictsPath) {
+    const target = quarantineTarget(settings.conflictsPath, path.basename(item.originalPath), item.id, isDocker);
+    const result = await moveFileToDestination(item.originalPath, target, isDocker, transferMode);
+    return {
+      outcome: "conflict",
+      reason: result.success
+        ? `Destination already exists; ${TRANSFER_VERBS[result.transferMode || transferMode].toLowerCase()} to the conflicts folder`
+        : `Destination already exists; failed to move to the conflicts folder: ${result.error}`,
+      movedTo: result.success ? target : null,
+      transferMode: result.transferMode,
+    };
+  }
+
+  return { outcome: "conflict", reason: `Destination already exists: ${destinationPath}`, movedTo: null };
+}
+
+// Helper: give an item the conflict status after applyConflictPolicy left it unresolved
+async function markConflict(
+  item: MediaItem,
+  destinationPath: string,
+  conflict: Extract<ConflictOutcome, { outcome: "conflict" }>
+): Promise<void> {
+  const copied = conflict.movedTo && conflict.transferMode && conflict.transferMode !== "move";
+  await storage.updateMediaItem(item.id, {
+    status: "conflict",
+    originalPath: conflict.movedTo ?? item.originalPath,
+    sourcePath: copied ? item.originalPath : item.sourcePath,
+    destinationPath,
+  });
+  await storage.createLog({
+    mediaItemId: item.id,
+    action: "conflict",
+    fromPath: item.originalPath,
+    toPath: conflict.movedTo ?? destinationPath,
+    success: false,
+    message: conflict.reason,
+    transferMode: conflict.transferMode,
+  });
+  console.log(`[Organize] Conflict: ${item.originalFilename} - ${conflict.reason}`);
+}
+
+// Helper: carry an organized item's subtitles, NFO, artwork and extras to its destination
+// (found before the video moved). With a move, the folders they leave empty (Subs/,
+// Featurettes/) are removed too.
+async function organizeCompanions(
+  companions: CompanionFile[],
+  mode: TransferMode,
+  sourcePaths: string[],
+  isDocker: boolean
+): Promise<{ transferred: CompanionTransfer[]; deletedFolders: string[] }> {
+  const transferred = await transferCompanions(companions, isDocker, mode);
+  const deletedFolders: string[] = [];
+  if (mode === "move") {
+    for (const companion of transferred) {
+      deletedFolders.push(...await cleanupEmptyFolders(companion.from, sourcePaths, isDocker));
+    }
+  }
+  return { transferred, deletedFolders };
+}
 
-// Helper: Search TMDB for canonical name
-async function lookupTmdb(
-  name: string,
+// Helper: create or update the movie / TV series entry for an item just moved to its destination
+async function registerOrganizedItem(item: MediaItem): Promise<void> {
+  if (item.detectedType === "movie" && item.detectedName) {
+    const existingMovie = await storage.getMovieByName(item.detectedName);
+    if (!existingMovie) {
+      await storage.createMovie({
+        name: item.detectedName,
+        cleanedName: item.cleanedName || item.detectedName,
+        year: item.year,
+        filePath: item.destinationPath,
+        tmdbId: item.tmdbId,
+        posterPath: item.posterPath,
+      });
+    } else if (item.posterPath && !existingMovie.posterPath) {
+      // Update existing movie with poster if it doesn't have one
+      await storage.updateMovie(existingMovie.id, {
+        posterPath: item.posterPath,
+        tmdbId: item.tmdbId,
+      });
+    }
+  } else if (item.detectedType === "tvshow" && item.detectedName) {
+    // Extract series folder name from destination path
+    const pathParts = item.destinationPath?.split("/").filter(Boolean) || [];
+    const seriesFolderName = pathParts.length >= 2 ? pathParts[1] : null;
+    
+    let series = await storage.getTvSeriesByName(item.detectedName);
+    if (!series) {
+      series = await storage.createTvSeries({
+        name: item.detectedName,
+        cleanedName: item.cleanedName || item.detectedName,
+        year: item.year,
+        totalSeasons: item.season || 1,
+        totalEpisodes: Math.max(getEpisodeNumbers(item).length, 1),
+        folderPath: seriesFolderName,
+        tmdbId: item.tmdbId,
+        posterPath: item.posterPath,
+      });
+    } else {
+      await storage.updateTvSeries(series.id, {
+        totalSeasons: Math.max(series.totalSeasons || 0, item.season || 0),
+        totalEpisodes: (series.totalEpisodes || 0) + Math.max(getEpisodeNumbers(item).length, 1),
+        folderPath: series.folderPath || seriesFolderName,
+        // Update poster if not already set
+        ...(item.posterPath && !series.posterPath ? { posterPath: item.posterPath, tmdbId: item.tmdbId } : {}),
+      });
+    }
+  }
+}
+
+// Helper: the TMDB movie or show an identify request names, or the response to refuse it with
+async function identifyTargetFrom(
+  tmdbId: unknown,
+  type: unknown
+): Promise<{ target: IdentifyTarget } | { error: string; status: number }> {
+  if (type !== "movie" && type !== "tvshow") {
+    return { error: "type must be movie or tvshow", status: 400 };
+  }
+  const id = Number(tmdbId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return { error: "tmdbId must be a TMDB ID", status: 400 };
+  }
+  if (!(await hasTmdbCredentials())) {
+    return { error: "TMDB API key not configured. Set it in Settings.", status: 400 };
+  }
+  const target = await fetchIdentifyTarget(type, id);
+  if (!target) {
+    return { error: type === "movie" ? "Movie not found on TMDB" : "TV show not found on TMDB", status: 404 };
+  }
+  return { target };
+}
+
+// Helper: point a Movies / TV Shows entry at an identified title. When the library already
+// has an entry of that name the two are merged into it.
+async function renameLibraryEntry(
   type: "movie" | "tvshow",
-  year: number | null
-): Promise<{ id: number; name: string; year: number | null; posterPath: string | null } | null> {
-  // First, clean the name aggressively for TMDB search
-  const cleanedName = cleanForTmdbSearch(name);
-  const searchQuery = extractTitleForSearch(cleanedName);
-  
-  console.log(`[TMDB] Original: "${name}" -> Cleaned: "${cleanedName}" -> Search: "${searchQuery}"`);
-  
-  if (!searchQuery || searchQuery.length < 2) {
-    console.log(`[TMDB] Search query too short, skipping`);
-    return null;
+  id: string,
+  target: IdentifyTarget
+): Promise<Movie | TvSeries | undefined> {
+  const fields = {
+    name: target.name,
+    cleanedName: target.name,
+    year: target.year,
+    tmdbId: parseInt(target.id, 10),
+    posterPath: target.posterPath,
+  };
+  if (type === "movie") {
+    const existing = await storage.getMovieByName(target.name);
+    if (existing && existing.id !== id) {
+      await storage.deleteMovie(id);
+      return storage.updateMovie(existing.id, fields);
+    }
+    return storage.updateMovie(id, fields);
   }
-  
-  const cacheKey = `${type}:${searchQuery.toLowerCase()}:${year || ""}`;
-  
-  if (tmdbCache.has(cacheKey)) {
-    return tmdbCache.get(cacheKey)!;
+
+  const folderPath = `${target.name}${target.year ? ` (${target.year})` : ""}`;
+  const existing = await storage.getTvSeriesByName(target.name);
+  if (existing && existing.id !== id) {
+    const merged = await storage.getTvSeriesById(id);
+    await storage.deleteTvSeries(id);
+    return storage.updateTvSeries(existing.id, {
+      ...fields,
+      folderPath,
+      totalSeasons: Math.max(existing.totalSeasons || 0, merged?.totalSeasons || 0),
+      totalEpisodes: (existing.totalEpisodes || 0) + (merged?.totalEpisodes || 0),
+    });
   }
-  
-  // Try env var first, then settings
-  let apiKey = TMDB_API_KEY;
-  if (!apiKey) {
+  return storage.updateTvSeries(id, { ...fields, folderPath });
+}
+
+// Helper: refusal for items whose movie/episode already exists in a destination library.
+// With multi-version movies enabled, matched movies go in as additional versions instead.
+function libraryMatchError(item: MediaItem, movieVersions: boolean): string | null {
+  if (!item.libraryMatch || (movieVersions && item.detectedType === "movie")) return null;
+  return `Already in library at ${item.libraryMatch.path} - choose keep, replace or skip in the Organizer`;
+}
+
+// Helper: final destination for a movie about to be organized. With multi-version movies
+// enabled, a movie whose copy is already in the library is relabeled as an additional
+// version; a versioned movie first gets the folder's unlabeled copy labeled (`renamed`).
+async function prepareMovieVersion(
+  item: MediaItem,
+  destinationPath: string,
+  movieVersions: boolean,
+  isDocker: boolean
+): Promise<{ destinationPath: string; renamed: { from: string; to: string } | null }> {
+  let prepared: MediaItem = item;
+  const destTaken = fs.existsSync(isDocker ? `/host${destinationPath}` : destinationPath);
+  if (movieVersions && !item.versionLabel && (item.libraryMatch || destTaken)) {
+    const plan = await planMovieVersion(item, isDocker);
+    if (plan) {
+      prepared = (await storage.updateMediaItem(item.id, { ...plan, libraryMatch: null })) || { ...item, ...plan };
+    }
+  }
+
+  let renamed: { from: string; to: string } | null = null;
+  if (prepared.versionLabel) {
     try {
-      const settings = await storage.getAllSettings();
-      apiKey = settings.tmdbApiKey || null;
-    } catch {
-      apiKey = null;
+      renamed = await labelExistingVersion(prepared, isDocker);
+    } catch (err) {
+      console.error(`[MovieVersions] Failed to label existing copy for ${item.originalFilename}:`, err);
     }
   }
-  if (!apiKey) return null;
-  
+  return { destinationPath: prepared.destinationPath || destinationPath, renamed };
+}
+
+// Helper: size of a file as stored in media items / the journal (null when unreadable)
+async function fileSizeOf(userPath: string, isDocker: boolean): Promise<string | null> {
   try {
-    const endpoint = type === "movie" ? "movie" : "tv";
-    
-    // Try with year first
-    let url = `${TMDB_BASE_URL}/search/${endpoint}?api_key=${apiKey}&query=${encodeURIComponent(searchQuery)}`;
-    if (year) {
-      url += type === "movie" ? `&year=${year}` : `&first_air_date_year=${year}`;
+    return String((await fs.promises.stat(isDocker ? `/host${userPath}` : userPath)).size);
+  } catch {
+    return null;
+  }
+}
+
+// One journal step a rollback could not undo
+interface RollbackFailure {
+  entryId: string;
+  action: OrganizeJournalEntry["action"];
+  path: string | null;
+  error: string;
+}
+
+// Helper: undo one journal step after checking the filesystem still matches it.
+// Returns why the step could not be undone, or null on success.
+async function undoJournalEntry(entry: OrganizeJournalEntry, isDocker: boolean): Promise<string | null> {
+  const actual = (userPath: string) => (isDocker ? `/host${userPath}` : userPath);
+
+  switch (entry.action) {
+    case "move":
+    case "rename": {
+      if (!entry.fromPath || !entry.toPath) return "Journal entry has no paths";
+      const size = await fileSizeOf(entry.toPath, isDocker);
+      if (size === null) return `File is no longer at ${entry.toPath}`;
+      if (entry.fileSize && size !== entry.fileSize) {
+        return `File at ${entry.toPath} changed size since it was moved (${entry.fileSize} -> ${size} bytes)`;
+      }
+      if (fs.existsSync(actual(entry.fromPath))) return `Original location is taken: ${entry.fromPath}`;
+      const result = await moveFileToDestination(entry.toPath, entry.fromPath, isDocker);
+      return result.success ? null : result.error || "Move failed";
     }
-    
-    let response = await fetch(url);
-    let data = response.ok ? await response.json() : null;
-    
-    // If no results with year, try without year
-    if ((!data?.results || data.results.length === 0) && year) {
-      console.log(`[TMDB] No results with year ${year}, trying without year`);
-      url = `${TMDB_BASE_URL}/search/${endpoint}?api_key=${apiKey}&query=${encodeURIComponent(searchQuery)}`;
-      response = await fetch(url);
-      data = response.ok ? await response.json() : null;
+    case "copy": {
+      // The source was left in place; only the copy / link is removed
+      if (!entry.fromPath || !entry.toPath) return "Journal entry has no paths";
+      if (!fs.existsSync(actual(entry.fromPath))) return `Source file is gone: ${entry.fromPath}`;
+      let isLink: boolean;
+      try {
+        isLink = (await fs.promises.lstat(actual(entry.toPath))).isSymbolicLink();
+      } catch {
+        return `File is no longer at ${entry.toPath}`;
+      }
+      const size = isLink ? null : await fileSizeOf(entry.toPath, isDocker);
+      if (entry.fileSize && size !== null && size !== entry.fileSize) {
+        return `File at ${entry.toPath} changed size since it was organized (${entry.fileSize} -> ${size} bytes)`;
+      }
+      await fs.promises.unlink(actual(entry.toPath));
+      return null;
     }
-    
-    if (!data?.results || data.results.length === 0) {
-      console.log(`[TMDB] No results for "${searchQuery}"`);
+    case "create_folder": {
+      if (!entry.toPath) return "Journal entry has no path";
+      try {
+        await fs.promises.rmdir(actual(entry.toPath));
+        return null;
+      } catch (err: any) {
+        if (err.code === "ENOENT") return null;
+        return err.code === "ENOTEMPTY" ? `Folder is not empty: ${entry.toPath}` : err.message;
+      }
+    }
+    case "delete_folder": {
+      if (!entry.fromPath) return "Journal entry has no path";
+      await fs.promises.mkdir(actual(entry.fromPath), { recursive: true });
       return null;
     }
-    
-    const result = data.results[0];
-    const tmdbResult = {
-      id: result.id,
-      name: type === "movie" ? result.title : result.name,
-      year: type === "movie" 
-        ? (result.release_date ? parseInt(result.release_date.substring(0, 4)) : null)
-        : (result.first_air_date ? parseInt(result.first_air_date.substring(0, 4)) : null),
-      posterPath: result.poster_path ? `https://image.tmdb.org/t/p/w342${result.poster_path}` : null
-    };
-    
-    console.log(`[TMDB] Found: "${tmdbResult.name}" (${tmdbResult.year}) poster: ${tmdbResult.posterPath ? 'yes' : 'no'}`);
-    tmdbCache.set(cacheKey, tmdbResult);
-    return tmdbResult;
-  } catch (err) {
-    console.error("[TMDB] Lookup error:", err);
-    return null;
+    default:
+      return `Unknown journal action: ${entry.action}`;
   }
 }
 
-async function generateDestinationPath(
-  parsed: ReturnType<typeof parseMediaFilename>,
-  detectedName: string,
-  basePaths: { movies: string; tvshows: string },
-  tmdbName?: string | null,
-  tmdbYear?: number | null
-): Promise<string> {
-  const { detectedType, year, season, episode, extension } = parsed;
-
-  const titleCase = (str: string) =>
-    str.replace(/\b\w/g, (c) => c.toUpperCase());
-
-  // Use TMDB name if available, otherwise use detected name
-  const canonicalName = tmdbName || titleCase(detectedName);
-  const canonicalYear = tmdbYear || year;
-  const yearStr = canonicalYear ? ` (${canonicalYear})` : "";
-
-  if (detectedType === "movie") {
-    const folderName = `${canonicalName}${yearStr}`;
-    const fileName = `${canonicalName}${yearStr}${extension}`;
-    return `${basePaths.movies}/${folderName}/${fileName}`;
+// Helper: after a rollback, drop movie / TV series entries that no longer have any
+// organized files, point movies at a remaining copy and recount series episodes.
+// Library files moved back into place (reinstated) get their entries back first.
+async function pruneCatalog(restored: MediaItem[], reinstated: MediaItem[] = []): Promise<void> {
+  for (const item of reinstated) {
+    await registerOrganizedItem(item);
   }
 
-  if (detectedType === "tvshow" && season !== null && episode !== null) {
-    // Use TMDB name for folder, or get canonical from existing series
-    let seriesFolder: string;
-    if (tmdbName) {
-      seriesFolder = `${tmdbName}${yearStr}`;
-    } else {
-      seriesFolder = await getCanonicalSeriesFolder(detectedName, year);
+  const organized = (await storage.getAllMediaItems()).filter((item) => item.status === "organized");
+  const remaining = (item: MediaItem) =>
+    organized.filter(
+      (other) =>
+        other.detectedType === item.detectedType &&
+        other.detectedName?.toLowerCase() === item.detectedName?.toLowerCase()
+    );
+
+  for (const item of [...restored, ...reinstated]) {
+    if (!item.detectedName) continue;
+    const copies = remaining(item);
+
+    if (item.detectedType === "movie") {
+      const movie = await storage.getMovieByName(item.detectedName);
+      if (!movie) continue;
+      if (copies.length === 0) {
+        await storage.deleteMovie(movie.id);
+      } else if (!copies.some((copy) => copy.originalPath === movie.filePath)) {
+        await storage.updateMovie(movie.id, { filePath: copies[0].originalPath });
+      }
+    } else if (item.detectedType === "tvshow") {
+      const series = await storage.getTvSeriesByName(item.detectedName);
+      if (!series) continue;
+      if (copies.length === 0) {
+        await storage.deleteTvSeries(series.id);
+      } else {
+        // Multi-episode files count once per episode they cover, as when they were added
+        await storage.updateTvSeries(series.id, {
+          totalSeasons: Math.max(...copies.map((copy) => copy.season || 0), 1),
+          totalEpisodes: copies.reduce((acc, copy) => acc + Math.max(getEpisodeNumbers(copy).length, 1), 0),
+        });
+      }
     }
-    
-    const seasonFolder = `Season ${season.toString().padStart(2, "0")}`;
-    const episodeStr = `S${season.toString().padStart(2, "0")}E${episode.toString().padStart(2, "0")}`;
-    
-    // Extract just the series name for the filename
-    const seriesNameForFile = seriesFolder.replace(/\s*\(\d{4}\)$/, "");
-    const fileName = `${seriesNameForFile} - ${episodeStr}${extension}`;
-    return `${basePaths.tvshows}/${seriesFolder}/${seasonFolder}/${fileName}`;
   }
+}
+
+// Helper: scan and organize jobs still pending, running or paused from before a restart
+// have no worker left. Fail them so they don't block new jobs as "in progress".
+async function failInterruptedJobs(): Promise<void> {
+  const active: ScanJobStatus[] = ["pending", "running", "paused"];
+  const interrupted = { error: "Interrupted by restart", completedAt: new Date() };
 
-  return `${basePaths.movies}/Unsorted/${parsed.cleanedName}${extension}`;
+  for (let job = await storage.getActiveScanJob(); job; job = await storage.getActiveScanJob()) {
+    await storage.updateScanJob(job.id, { ...interrupted, status: "failed", currentFolder: null }, active);
+    console.log(`[Scan] Job ${job.id} was ${job.status} when the server stopped; marked failed`);
+  }
+  for (let job = await storage.getActiveOrganizeJob(); job; job = await storage.getActiveOrganizeJob()) {
+    await storage.updateOrganizeJob(job.id, { ...interrupted, status: "failed", currentFile: null }, active);
+    console.log(`[OrganizeJob] Job ${job.id} was ${job.status} when the server stopped; marked failed`);
+  }
 }
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  await failInterruptedJobs();
+
   // Stats endpoint
   app.get("/api/stats", async (req, res) => {
     try {
@@ -696,9 +690,10 @@ export async function registerRoutes(
       const duplicates = mediaItems.filter((i) => i.status === "duplicate").length;
       const organized = mediaItems.filter((i) => i.status === "organized").length;
 
-      const totalEpisodes = mediaItems.filter(
-        (i) => i.detectedType === "tvshow" && i.status === "organized"
-      ).length;
+      // Multi-episode files count once per episode they cover
+      const totalEpisodes = mediaItems
+        .filter((i) => i.detectedType === "tvshow" && i.status === "organized")
+        .reduce((acc, i) => acc + Math.max(getEpisodeNumbers(i).length, 1), 0);
 
       res.json({
         totalMovies: movies.length,
@@ -726,8 +721,15 @@ export async function registerRoutes(
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = (page - 1) * limit;
+
+      // Optional quality filters, e.g. ?resolution=2160p&videoCodec=HEVC
+      const qualityFilters = QUALITY_FILTER_KEYS
+        .map((key) => [key, req.query[key]] as const)
+        .filter((entry): entry is readonly [typeof entry[0], string] => typeof entry[1] === "string" && entry[1] !== "");
       
-      const allItems = await storage.getAllMediaItems();
+      const allItems = (await storage.getAllMediaItems()).filter((item) =>
+        qualityFilters.every(([key, value]) => item.quality?.[key] === value)
+      );
       const total = allItems.length;
       const items = allItems.slice(offset, offset + limit);
       
@@ -833,6 +835,318 @@ export async function registerRoutes(
     }
   });
 
+  // Resolve an item whose movie/episode is already in a destination library:
+  // keep = keep the library copy (incoming marked duplicate), replace = quarantine the
+  // library copy and organize the incoming file, skip = not the same content, clear the flag
+  app.post("/api/media-items/:id/library-match", async (req, res) => {
+    try {
+      const { action } = req.body || {};
+      if (!["keep", "replace", "skip"].includes(action)) {
+        return res.status(400).json({ error: "action must be keep, replace or skip" });
+      }
+
+      const item = await storage.getMediaItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Item not found" });
+      }
+      const match = item.libraryMatch;
+      if (!match) {
+        return res.status(400).json({ error: "Item has no library match" });
+      }
+
+      if (action === "skip") {
+        const updated = await storage.updateMediaItem(item.id, { libraryMatch: null });
+        return res.json(updated);
+      }
+
+      if (action === "keep") {
+        const updated = await storage.updateMediaItem(item.id, { status: "duplicate", libraryMatch: null });
+        await storage.createLog({
+          mediaItemId: item.id,
+          action: "duplicate",
+          fromPath: item.originalPath,
+          success: true,
+          message: `Kept existing library copy ${match.path}`,
+        });
+        return res.json(updated);
+      }
+
+      const settings = await storage.getAllSettings();
+      const quarantinePath = settings.duplicateQuarantinePath;
+      if (!quarantinePath) {
+        return res.status(400).json({ error: "Quarantine folder is not configured. Set it in Settings first." });
+      }
+      if (!item.destinationPath) {
+        return res.status(400).json({ error: "Item has no destination path" });
+      }
+
+      const isDocker = fs.existsSync("/host");
+      const existingItem = await storage.getMediaItemByPath(match.path);
+      const target = quarantineTarget(quarantinePath, path.basename(match.path), existingItem?.id || item.id, isDocker);
+
+      const quarantineResult = await moveFileToDestination(match.path, target, isDocker);
+      await storage.createLog({
+        mediaItemId: existingItem?.id,
+        action: "quarantine",
+        fromPath: match.path,
+        toPath: target,
+        success: quarantineResult.success,
+        message: quarantineResult.success
+          ? `Quarantined library copy replaced by ${item.originalFilename}`
+          : `Failed to quarantine: ${quarantineResult.error}`,
+      });
+      if (!quarantineResult.success) {
+        return res.status(500).json({ error: `Failed to quarantine existing file: ${quarantineResult.error}` });
+      }
+
+      // The library copy is out of the way (the incoming file often goes to the same path)
+      const transferMode = transferModeFor(item, settings);
+      const moveResult = await moveFileToDestination(item.originalPath, item.destinationPath, isDocker, transferMode);
+      const usedMode = moveResult.transferMode || transferMode;
+      await storage.createLog({
+        mediaItemId: item.id,
+        action: "replace",
+        fromPath: item.originalPath,
+        toPath: item.destinationPath,
+        success: moveResult.success,
+        message: moveResult.success
+          ? `Replaced ${match.path} with ${item.detectedType}: ${item.detectedName}`
+          : `Failed to ${transferMode}: ${moveResult.error}`,
+        transferMode: usedMode,
+      });
+      if (!moveResult.success) {
+        // Put the library copy back so the library keeps it; the item stays flagged to retry
+        const restoreResult = await moveFileToDestination(target, match.path, isDocker);
+        await storage.createLog({
+          mediaItemId: existingItem?.id,
+          action: "rollback",
+          fromPath: target,
+          toPath: match.path,
+          success: restoreResult.success,
+          message: restoreResult.success
+            ? `Restored library copy after failing to replace it with ${item.originalFilename}`
+            : `Failed to restore library copy from quarantine: ${restoreResult.error}`,
+        });
+        invalidateLibraryIndex();
+        return res.status(500).json({
+          error: restoreResult.success
+            ? `Failed to ${transferMode} file: ${moveResult.error}`
+            : `Failed to ${transferMode} file: ${moveResult.error}; the library copy is still in quarantine at ${target}`,
+        });
+      }
+      if (existingItem) {
+        await storage.deleteMediaItem(existingItem.id);
+      }
+      invalidateLibraryIndex();
+
+      const updated = await storage.updateMediaItem(item.id, {
+        status: "organized",
+        originalPath: item.destinationPath,
+        sourcePath: usedMode === "move" ? null : item.originalPath,
+        libraryMatch: null,
+      });
+      await registerOrganizedItem(item);
+      console.log(`[Organize] Replaced ${match.path} with ${item.originalPath} (${usedMode})`);
+      res.json(updated);
+    } catch (error) {
+      console.error("Library match resolve error:", error);
+      res.status(500).json({ error: "Failed to resolve library match" });
+    }
+  });
+
+  // Keep another copy of a movie as an additional version: it gets a label from its
+  // quality and a versioned destination in the movie folder, and is moved when organized
+  app.post("/api/media-items/:id/keep-version", async (req, res) => {
+    try {
+      const item = await storage.getMediaItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Item not found" });
+      }
+      if (item.detectedType !== "movie") {
+        return res.status(400).json({ error: "Only movies can be kept as additional versions" });
+      }
+      if (item.status === "organized") {
+        return res.status(400).json({ error: "Item is already organized" });
+      }
+
+      const plan = await planMovieVersion(item, fs.existsSync("/host"));
+      if (!plan) {
+        return res.status(400).json({ error: "Item has no destination path" });
+      }
+
+      const updated = await storage.updateMediaItem(item.id, {
+        ...plan,
+        libraryMatch: null,
+        status: "pending",
+      });
+      console.log(`[MovieVersions] ${item.originalFilename} kept as version "${plan.versionLabel}"`);
+      res.json(updated);
+    } catch (error) {
+      console.error("Keep version error:", error);
+      res.status(500).json({ error: "Failed to keep as additional version" });
+    }
+  });
+
+  // Items whose destination was already taken, each with the existing file's details
+  // and how the two copies compare
+  app.get("/api/conflicts", async (req, res) => {
+    try {
+      const settings = await storage.getAllSettings();
+      const isDocker = fs.existsSync("/host");
+      const items = (await storage.getAllMediaItems()).filter((item) => item.status === "conflict");
+
+      const conflicts = await Promise.all(
+        items.map(async (item) => {
+          const comparison = item.destinationPath && destinationExists(item.destinationPath, isDocker)
+            ? await compareWithExisting(item, item.destinationPath, settings)
+            : null;
+          return {
+            ...item,
+            existing: comparison?.existing ?? null,
+            comparison: comparison && { incomingIsBetter: comparison.incomingIsBetter, reasons: comparison.reasons },
+          };
+        })
+      );
+      res.json(conflicts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get conflicts" });
+    }
+  });
+
+  // Approve an item held for review: it joins the pending list and can be organized
+  app.post("/api/media-items/:id/approve", async (req, res) => {
+    try {
+      const item = await storage.getMediaItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Media item not found" });
+      }
+      if (!item.needsReview) {
+        return res.status(409).json({ error: "Item is not waiting for review" });
+      }
+      const updated = await storage.updateMediaItem(item.id, { needsReview: false });
+      console.log(`[Review] Approved match for ${item.originalFilename}: ${item.detectedName}`);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to approve item" });
+    }
+  });
+
+  // Identify an item by hand as a TMDB movie or show, optionally along with every other
+  // file of the same detected series (or movie parts)
+  app.post("/api/media-items/:id/identify", async (req, res) => {
+    try {
+      const { tmdbId, type, applyToSiblings = false } = req.body || {};
+      const target = await identifyTargetFrom(tmdbId, type);
+      if ("error" in target) {
+        return res.status(target.status).json({ error: target.error });
+      }
+
+      const item = await storage.getMediaItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Media item not found" });
+      }
+
+      const settings = await storage.getAllSettings();
+      const items = applyToSiblings
+        ? [item, ...siblingItems(item, await storage.getAllMediaItems())]
+        : [item];
+      const { updated, skipped } = await identifyItems(items, target.target, settings);
+      if (updated.length === 0) {
+        return res.status(400).json({ error: `${item.originalFilename} has no season or episode number to file it under a show` });
+      }
+      await storage.createLog({
+        mediaItemId: item.id,
+        action: "identify",
+        success: true,
+        message: `Identified ${updated.length} file(s) as ${target.target.name} (TMDB ${target.target.id})`,
+      });
+      res.json({ updated, skipped });
+    } catch (error) {
+      console.error("Identify error:", error);
+      res.status(500).json({ error: "Failed to identify item" });
+    }
+  });
+
+  // Resolve a conflict: overwrite the existing file, keep both (the incoming file gets a
+  // numbered name), keep the existing file (incoming marked duplicate), or retry later
+  app.post("/api/media-items/:id/conflict", async (req, res) => {
+    try {
+      const { action } = req.body || {};
+      if (!["overwrite", "keep_both", "keep_existing", "retry"].includes(action)) {
+        return res.status(400).json({ error: "action must be overwrite, keep_both, keep_existing or retry" });
+      }
+
+      const item = await storage.getMediaItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Item not found" });
+      }
+      if (item.status !== "conflict") {
+        return res.status(400).json({ error: "Item is not in conflict" });
+      }
+      if (!item.destinationPath) {
+        return res.status(400).json({ error: "Item has no destination path" });
+      }
+
+      if (action === "retry") {
+        const updated = await storage.updateMediaItem(item.id, { status: "pending" });
+        return res.json(updated);
+      }
+
+      if (action === "keep_existing") {
+        const updated = await storage.updateMediaItem(item.id, { status: "duplicate" });
+        await storage.createLog({
+          mediaItemId: item.id,
+          action: "duplicate",
+          fromPath: item.originalPath,
+          success: true,
+          message: `Kept existing file ${item.destinationPath}`,
+        });
+        return res.json(updated);
+      }
+
+      const settings = await storage.getAllSettings();
+      const isDocker = fs.existsSync("/host");
+      const conflict = await applyConflictPolicy(item, item.destinationPath, action, settings, isDocker);
+      if (conflict.outcome === "conflict") {
+        return res.status(500).json({ error: conflict.reason });
+      }
+
+      // A file parked in the conflicts folder as a copy / link is ours to move
+      const transferMode = item.sourcePath ? "move" : transferModeFor(item, settings);
+      const { destinationPath } = conflict;
+      const moveResult = await moveFileToDestination(item.originalPath, destinationPath, isDocker, transferMode);
+      const usedMode = moveResult.transferMode || transferMode;
+      await storage.createLog({
+        mediaItemId: item.id,
+        action: "organize",
+        fromPath: item.originalPath,
+        toPath: destinationPath,
+        success: moveResult.success,
+        message: moveResult.success
+          ? `${TRANSFER_VERBS[usedMode]} ${item.detectedType}: ${item.detectedName} (${action === "overwrite" ? "overwrote existing file" : "kept both"})`
+          : `Failed to ${transferMode}: ${moveResult.error}`,
+        transferMode: usedMode,
+      });
+      invalidateLibraryIndex();
+      if (!moveResult.success) {
+        return res.status(500).json({ error: `Failed to move file: ${moveResult.error}` });
+      }
+
+      const updated = await storage.updateMediaItem(item.id, {
+        status: "organized",
+        originalPath: destinationPath,
+        destinationPath,
+        sourcePath: item.sourcePath ?? (usedMode === "move" ? null : item.originalPath),
+      });
+      await registerOrganizedItem({ ...item, destinationPath });
+      console.log(`[Organize] Conflict resolved (${action}): ${item.originalFilename} -> ${destinationPath}`);
+      res.json(updated);
+    } catch (error) {
+      console.error("Conflict resolve error:", error);
+      res.status(500).json({ error: "Failed to resolve conflict" });
+    }
+  });
+
   // Scan endpoint
   app.post("/api/scan", async (req, res) => {
     try {
@@ -865,6 +1179,14 @@ export async function registerRoutes(
           year: parsed.year,
           season: parsed.season,
           episode: parsed.episode,
+          episodes: parsed.episodes,
+          airDate: parsed.airDate,
+          absoluteEpisode: parsed.absoluteEpisode,
+          crc32: parsed.crc32,
+          isAnime: parsed.isAnime,
+          partNumber: parsed.partNumber,
+          edition: parsed.edition,
+          quality: parsed.quality,
           status: "pending",
           destinationPath,
           confidence: parsed.confidence,
@@ -887,7 +1209,6 @@ export async function registerRoutes(
 
   // Background scan job system
   const BATCH_SIZE = 50; // Process 50 files at a time
-  const VIDEO_EXTENSIONS = ['.mkv', '.mp4', '.avi', '.mov', '.wmv', '.m4v', '.webm', '.flv', '.ts', '.m2ts'];
   const HOST_PREFIX = "/host";
 
   // Find all video files (lightweight - just collects paths)
@@ -902,7 +1223,8 @@ export async function registerRoutes(
         for (const entry of entries) {
           const fullPath = path.join(currentDir, entry.name);
           if (entry.isDirectory()) {
-            queue.push(fullPath);
+            // Videos in extras folders travel with their movie as companions
+            if (!isExtrasFolder(entry.name)) queue.push(fullPath);
           } else if (entry.isFile()) {
             const ext = path.extname(entry.name).toLowerCase();
             if (VIDEO_EXTENSIONS.includes(ext)) {
@@ -918,19 +1240,44 @@ export async function registerRoutes(
   };
 
   // Process files in background with chunking
-  const runBackgroundScan = async (jobId: string, allPaths: string[], defaultMoviesPath: string, defaultTvShowsPath: string) => {
+  const runBackgroundScan = async (
+    jobId: string,
+    allPaths: string[],
+    basePaths: DestinationBasePaths,
+    animePaths: string[]
+  ) => {
     const isDocker = fs.existsSync(HOST_PREFIX);
     let totalFiles = 0;
     let processedFiles = 0;
     let newItems = 0;
+    let cancelled = false;
+
+    const scanStatus = async () => (await storage.getScanJob(jobId))?.status;
+    const saveProgress = () => storage.updateScanJob(jobId, { processedFiles, newItems });
+    // Checked at each folder / file boundary: waits while paused, true once cancelled
+    const scanStopped = () => shouldStopJob(scanStatus, saveProgress);
     
     try {
-      await storage.updateScanJob(jobId, { status: "running" });
+      const started = await advanceJob(
+        scanStatus,
+        () => storage.updateScanJob(jobId, { status: "running" }, ["pending", "running"]),
+        saveProgress
+      );
+      if (!started) return;
+      // Files may have been added to the libraries outside the app since the last scan
+      invalidateLibraryIndex();
+      const settings = await storage.getAllSettings();
+      const movieVersions = settings.movieVersions === "true";
+      const reviewThreshold = parseReviewThreshold(settings.reviewThreshold);
 
       // First pass: count all files
       const allVideoFiles: Array<{filePath: string, sourcePath: string}> = [];
       
       for (const sourcePath of allPaths) {
+        if (await scanStopped()) {
+          cancelled = true;
+          break;
+        }
         const actualPath = isDocker ? HOST_PREFIX + sourcePath : sourcePath;
         if (!fs.existsSync(actualPath)) continue;
         
@@ -942,8 +1289,11 @@ export async function registerRoutes(
         }
       }
       
-      totalFiles = allVideoFiles.length;
-      await storage.updateScanJob(jobId, { totalFiles });
+      // A scan cancelled while counting never learns its total
+      if (!cancelled) {
+        totalFiles = allVideoFiles.length;
+        await storage.updateScanJob(jobId, { totalFiles });
+      }
 
       // Group files by parent directory for consensus-based naming
       const filesByDir: Record<string, Array<{filePath: string, sourcePath: string}>> = {};
@@ -954,7 +1304,7 @@ export async function registerRoutes(
       }
 
       // Process each directory group
-      for (const dir of Object.keys(filesByDir)) {
+      scan: for (const dir of cancelled ? [] : Object.keys(filesByDir)) {
         const dirFiles = filesByDir[dir];
         // Get filenames for consensus detection
         const filenames = dirFiles.map((f: {filePath: string, sourcePath: string}) => path.basename(f.filePath));
@@ -967,6 +1317,10 @@ export async function registerRoutes(
           const batch = dirFiles.slice(i, i + BATCH_SIZE);
           
           for (const { filePath, sourcePath } of batch) {
+            if (await scanStopped()) {
+              cancelled = true;
+              break scan;
+            }
             const filename = path.basename(filePath);
             const userPath = isDocker ? filePath.replace(HOST_PREFIX, '') : filePath;
             
@@ -978,57 +1332,68 @@ export async function registerRoutes(
               continue;
             }
             
-            // Also check by destination path in case it was organized
+            // Also check by destination path in case it was organized, and by the path
+            // a copied / linked file was organized from (the source stays in place)
             const existingByFilename = await storage.getMediaItemByFilename(filename);
-            if (existingByFilename && existingByFilename.originalPath === userPath) {
+            if (
+              existingByFilename &&
+              (existingByFilename.originalPath === userPath || existingByFilename.sourcePath === userPath)
+            ) {
               console.log(`[Scan] File already in DB by filename+path: ${filename}`);
               processedFiles++;
               continue;
             }
 
-            const parsed = parseMediaFilename(filename);
-            
-            // If this is a TV show and we have consensus, use consensus name
-            let detectedName = parsed.detectedName;
+            // Consensus series name (if any) is applied by the parser for TV shows
+            // Files from an Anime source folder use the anime parsing profile
+            let parsed = parseMediaFilename(filename, consensusName, {
+              anime: animePaths.includes(sourcePath),
+            });
+            const detectedName = parsed.detectedName;
             let confidence = parsed.confidence;
-            if (parsed.detectedType === "tvshow" && consensusName && consensusName.length >= 3) {
-              detectedName = consensusName;
-              confidence = Math.min(confidence + 15, 100); // Boost confidence for consensus
+
+            // Size in bytes, used to rank duplicate copies
+            let fileSize: string | null = null;
+            try {
+              fileSize = String((await fs.promises.stat(filePath)).size);
+            } catch {
+              // Unreadable file; ranking treats the size as unknown
             }
+            const fingerprint = await computeFingerprint(filePath);
             
-            // TMDB lookup for canonical naming
-            let tmdbId: number | null = null;
-            let tmdbName: string | null = null;
-            let tmdbYear: number | null = null;
-            let posterPath: string | null = null;
-            
-            if (parsed.detectedType !== "unknown") {
-              const tmdbResult = await lookupTmdb(
-                detectedName, 
-                parsed.detectedType, 
-                parsed.year
-              );
-              if (tmdbResult) {
-                tmdbId = tmdbResult.id;
-                tmdbName = tmdbResult.name;
-                tmdbYear = tmdbResult.year;
-                posterPath = tmdbResult.posterPath;
-                confidence = Math.min(confidence + 10, 100); // Boost for TMDB match
-              }
-            }
+            // Metadata lookup for canonical naming, through the library's providers in priority order
+            const match = parsed.detectedType !== "unknown"
+              ? await lookupMetadata(
+                  detectedName,
+                  parsed.detectedType,
+                  parsed.year,
+                  metadataProvidersFor(parsed, settings)
+                )
+              : null;
+            const { tmdbId, tmdbName, posterPath, ...matchInfo } = matchFields(match);
+            const tmdbYear = match?.year ?? null;
+            // Weigh the parser's confidence against how well the match fits; weak ones wait for review
+            confidence = matchConfidence(confidence, match?.score ?? null);
+            const needsReview = confidence < reviewThreshold;
+
+            // Daily shows and anime: map air dates / absolute numbers onto the show's season/episode
+            parsed = await resolveEpisodeNumbering(parsed, match);
+            const episodeTitle = await lookupEpisodeTitle(parsed, match);
             
             const destinationPath = await generateDestinationPath(
               parsed, 
               detectedName, 
-              { movies: defaultMoviesPath, tvshows: defaultTvShowsPath },
+              basePaths,
               tmdbName,
-              tmdbYear
+              tmdbYear,
+              episodeTitle
             );
 
             // Check if file already exists at destination
+            let destExists = false;
             if (destinationPath) {
               const actualDestPath = isDocker ? `${HOST_PREFIX}${destinationPath}` : destinationPath;
-              const destExists = fs.existsSync(actualDestPath);
+              destExists = fs.existsSync(actualDestPath);
               console.log(`[Scan] File: ${filename}, Dest: ${actualDestPath}, Exists: ${destExists}`);
               if (destExists) {
                 // Check if source path equals destination path (truly organized)
@@ -1052,9 +1417,21 @@ export async function registerRoutes(
                     tmdbId: tmdbId,
                     tmdbName: tmdbName,
                     posterPath: posterPath,
+                    ...matchInfo,
                     year: finalYear,
                     season: parsed.season,
                     episode: parsed.episode,
+                    episodes: parsed.episodes,
+                    episodeTitle,
+                    airDate: parsed.airDate,
+                    absoluteEpisode: parsed.absoluteEpisode,
+                    crc32: parsed.crc32,
+                    isAnime: parsed.isAnime,
+                    partNumber: parsed.partNumber,
+                    edition: parsed.edition,
+                    quality: parsed.quality,
+                    fileSize,
+                    fingerprint,
                     status: "organized",
                     destinationPath,
                     confidence: confidence,
@@ -1085,7 +1462,7 @@ export async function registerRoutes(
                         cleanedName: parsed.cleanedName || finalName,
                         year: finalYear,
                         totalSeasons: parsed.season || 1,
-                        totalEpisodes: 1,
+                        totalEpisodes: Math.max(getEpisodeNumbers(parsed).length, 1),
                         folderPath: seriesFolderName,
                         tmdbId: tmdbId,
                         posterPath: posterPath,
@@ -1094,45 +1471,54 @@ export async function registerRoutes(
                     } else {
                       await storage.updateTvSeries(series.id, {
                         totalSeasons: Math.max(series.totalSeasons || 0, parsed.season || 0),
-                        totalEpisodes: (series.totalEpisodes || 0) + 1,
+                        totalEpisodes: (series.totalEpisodes || 0) + Math.max(getEpisodeNumbers(parsed).length, 1),
                         folderPath: series.folderPath || seriesFolderName,
                       });
-                      console.log(`[Scan] Updated TV series: ${finalName}, episodes: ${(series.totalEpisodes || 0) + 1}`);
+                      console.log(`[Scan] Updated TV series: ${finalName}, episodes: ${(series.totalEpisodes || 0) + Math.max(getEpisodeNumbers(parsed).length, 1)}`);
                     }
                   }
                   
                   newItems++;
                   processedFiles++;
                   continue;
-                } else {
-                  // Source path is DIFFERENT from destination - this is an UNORGANIZED duplicate!
-                  // File exists at destination but this source copy is somewhere else
-                  console.log(`[Scan] DUPLICATE found - source: ${userPath}, dest exists at: ${destinationPath}`);
-                  // Add as "duplicate" so user can see it and decide what to do
-                  await storage.createMediaItem({
+                }
+                // Source path is DIFFERENT from destination - another copy is already in the
+                // library. It's added below as a pending item flagged with the library match.
+              }
+            }
+
+            // Already in a destination library (same file name, or the same movie/episode
+            // under another name)? The Organizer asks whether to keep, replace or skip it.
+            const libraryMatch = destinationPath && destExists
+              ? await describeLibraryFile(destinationPath)
+              : await findLibraryMatch(
+                  {
+                    ...parsed,
                     originalFilename: filename,
-                    originalPath: userPath,
-                    extension: parsed.extension,
-                    detectedType: parsed.detectedType,
                     detectedName: tmdbName || detectedName,
-                    cleanedName: parsed.cleanedName,
-                    tmdbId: tmdbId,
-                    tmdbName: tmdbName,
-                    posterPath: posterPath,
                     year: tmdbYear || parsed.year,
-                    season: parsed.season,
-                    episode: parsed.episode,
-                    status: "duplicate",
-                    destinationPath,
-                    confidence: confidence,
-                  });
-                  newItems++;
-                  processedFiles++;
-                  continue;
-                }
-              }
+                  },
+                  userPath
+                );
+            if (libraryMatch) {
+              console.log(`[Scan] Already in library: ${filename} matches ${libraryMatch.path}`);
             }
 
+            // Multi-version movies: another copy of a movie is planned as an additional version
+            const versionPlan: MovieVersionPlan | null = libraryMatch && movieVersions
+              ? await planMovieVersion(
+                  {
+                    detectedType: parsed.detectedType,
+                    originalPath: userPath,
+                    destinationPath,
+                    quality: parsed.quality,
+                    partNumber: parsed.partNumber,
+                    versionLabel: null,
+                  },
+                  isDocker
+                )
+              : null;
+
             await storage.createMediaItem({
               originalFilename: filename,
               originalPath: userPath,
@@ -1143,12 +1529,27 @@ export async function registerRoutes(
               tmdbId: tmdbId,
               tmdbName: tmdbName,
               posterPath: posterPath,
+              ...matchInfo,
               year: tmdbYear || parsed.year,
               season: parsed.season,
               episode: parsed.episode,
+              episodes: parsed.episodes,
+              episodeTitle,
+              airDate: parsed.airDate,
+              absoluteEpisode: parsed.absoluteEpisode,
+              crc32: parsed.crc32,
+              isAnime: parsed.isAnime,
+              partNumber: parsed.partNumber,
+              edition: parsed.edition,
+              quality: parsed.quality,
+              fileSize,
+              fingerprint,
+              libraryMatch: versionPlan ? null : libraryMatch,
+              versionLabel: versionPlan?.versionLabel ?? null,
               status: "pending",
-              destinationPath,
+              destinationPath: versionPlan?.destinationPath ?? destinationPath,
               confidence: confidence,
+              needsReview,
             });
 
             newItems++;
@@ -1163,13 +1564,36 @@ export async function registerRoutes(
         }
       }
 
-      await storage.updateScanJob(jobId, { 
-        status: "completed", 
-        completedAt: new Date(),
-        processedFiles: totalFiles,
-        newItems,
-        currentFolder: null 
-      });
+      // Only a job that is still running completes; one cancelled while the last file was
+      // being processed stays cancelled
+      const completed = !cancelled && await advanceJob(
+        scanStatus,
+        () => storage.updateScanJob(jobId, {
+          status: "completed",
+          completedAt: new Date(),
+          processedFiles: totalFiles,
+          newItems,
+          currentFolder: null
+        }, ["running"]),
+        saveProgress
+      );
+
+      if (!completed) {
+        // Keep the counts as a record of how far the scan got
+        await storage.updateScanJob(jobId, {
+          completedAt: new Date(),
+          processedFiles,
+          newItems,
+          currentFolder: null,
+        });
+        await storage.createLog({
+          action: "scan-folder",
+          success: false,
+          message: `Background scan cancelled: ${processedFiles} of ${totalFiles || "?"} files processed, ${newItems} new items`,
+        });
+        console.log(`[Scan] Job ${jobId} cancelled after ${processedFiles} files`);
+        return;
+      }
 
       await storage.createLog({
         action: "scan-folder",
@@ -1202,24 +1626,8 @@ export async function registerRoutes(
 
       const settings = await storage.getAllSettings();
       
-      let moviesPaths: string[] = [];
-      let tvShowsPaths: string[] = [];
-      
-      if (settings.moviesPaths) {
-        try { moviesPaths = JSON.parse(settings.moviesPaths); } 
-        catch { moviesPaths = [settings.moviesPaths]; }
-      } else if (settings.moviesPath) {
-        moviesPaths = [settings.moviesPath];
-      }
-      
-      if (settings.tvShowsPaths) {
-        try { tvShowsPaths = JSON.parse(settings.tvShowsPaths); } 
-        catch { tvShowsPaths = [settings.tvShowsPaths]; }
-      } else if (settings.tvShowsPath) {
-        tvShowsPaths = [settings.tvShowsPath];
-      }
-      
-      const allPaths = [...moviesPaths, ...tvShowsPaths].filter(p => p && p.trim());
+      const { moviesPaths, tvShowsPaths, animePaths } = sourceLibraryPaths(settings);
+      const allPaths = [...moviesPaths, ...tvShowsPaths, ...animePaths].filter(p => p && p.trim());
       
       if (allPaths.length === 0) {
         return res.status(400).json({ 
@@ -1248,7 +1656,16 @@ export async function registerRoutes(
 
       // Start background scan (non-blocking)
       setImmediate(() => {
-        runBackgroundScan(job.id, allPaths, moviesDestination, tvShowsDestination);
+        runJobWorker(job.id, () => runBackgroundScan(
+          job.id,
+          allPaths,
+          {
+            movies: moviesDestination,
+            tvshows: tvShowsDestination,
+            anime: settings.animeDestination || undefined,
+          },
+          animePaths
+        ));
       });
 
       res.json({ 
@@ -1262,6 +1679,16 @@ export async function registerRoutes(
     }
   });
 
+  // Get active scan job
+  app.get("/api/scan-jobs/active", async (req, res) => {
+    try {
+      const job = await storage.getActiveScanJob();
+      res.json(job || null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get active scan job" });
+    }
+  });
+
   // Get scan job status
   app.get("/api/scan-jobs/:id", async (req, res) => {
     try {
@@ -1275,15 +1702,32 @@ export async function registerRoutes(
     }
   });
 
-  // Get active scan job
-  app.get("/api/scan-jobs/active", async (req, res) => {
-    try {
-      const job = await storage.getActiveScanJob();
-      res.json(job || null);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to get active scan job" });
-    }
-  });
+  // Pause, resume or cancel a scan. The scan picks the change up at its next file.
+  for (const control of JOB_CONTROLS) {
+    app.post(`/api/scan-jobs/:id/${control}`, async (req, res) => {
+      try {
+        const job = await storage.getScanJob(req.params.id);
+        if (!job) {
+          return res.status(404).json({ error: "Job not found" });
+        }
+        const status = controlledStatus(job.status, control);
+        if (!status) {
+          return res.status(409).json({ error: `Cannot ${control} a ${job.status} scan` });
+        }
+        if (control === "resume" && !hasJobWorker(job.id)) {
+          return res.status(409).json({ error: "This scan is no longer running on the server; cancel it and start a new scan" });
+        }
+        const updated = await storage.updateScanJob(
+          job.id,
+          status === "cancelled" ? { status, completedAt: new Date() } : { status }
+        );
+        console.log(`[Scan] Job ${job.id}: ${control}`);
+        res.json(updated);
+      } catch (error) {
+        res.status(500).json({ error: `Failed to ${control} scan job` });
+      }
+    });
+  }
 
   // File Watcher / Monitoring endpoints
   app.get("/api/monitoring/status", async (req, res) => {
@@ -1323,18 +1767,39 @@ export async function registerRoutes(
     try {
       const pendingItems = await storage.getPendingMediaItems();
       const settings = await storage.getAllSettings();
+      const isDocker = fs.existsSync("/host");
 
-      const previews = pendingItems.map((item) => ({
-        id: item.id,
-        originalFilename: item.originalFilename,
-        originalPath: item.originalPath,
-        destinationPath: item.destinationPath || "",
-        detectedType: item.detectedType,
-        detectedName: item.detectedName,
-        season: item.season,
-        episode: item.episode,
-        year: item.year,
-      }));
+      // Sequential: finding companions reads each item's folder
+      const previews = [];
+      for (const item of pendingItems) {
+        previews.push({
+          id: item.id,
+          originalFilename: item.originalFilename,
+          originalPath: item.originalPath,
+          destinationPath: item.destinationPath || "",
+          detectedType: item.detectedType,
+          detectedName: item.detectedName,
+          season: item.season,
+          episode: item.episode,
+          episodes: item.episodes,
+          airDate: item.airDate,
+          partNumber: item.partNumber,
+          edition: item.edition,
+          quality: item.quality,
+          fileSize: item.fileSize,
+          libraryMatch: item.libraryMatch,
+          versionLabel: item.versionLabel,
+          year: item.year,
+          confidence: item.confidence,
+          needsReview: item.needsReview,
+          metadataProvider: item.metadataProvider,
+          matchScore: item.matchScore,
+          matchCandidates: item.matchCandidates,
+          companions: item.destinationPath
+            ? await findCompanionFiles(item.originalPath, item.destinationPath, item.detectedType, isDocker)
+            : [],
+        });
+      }
 
       res.json(previews);
     } catch (error) {
@@ -1356,6 +1821,8 @@ export async function registerRoutes(
       const settings = await storage.getAllSettings();
       const moviesDestination = settings.moviesDestination || "";
       const tvShowsDestination = settings.tvShowsDestination || "";
+      const movieVersions = settings.movieVersions === "true";
+      const conflictPolicy = parseConflictPolicy(settings.conflictPolicy);
       
       if (!moviesDestination && !tvShowsDestination) {
         return res.status(400).json({ 
@@ -1390,6 +1857,11 @@ export async function registerRoutes(
           failed.push({ id, error: "Missing source or destination path" });
           continue;
         }
+        const matchError = libraryMatchError(item, movieVersions);
+        if (matchError) {
+          failed.push({ id, error: matchError });
+          continue;
+        }
 
         // In dry run mode, just verify source exists and destination is writable
         if (dryRun) {
@@ -1422,11 +1894,22 @@ export async function registerRoutes(
           continue;
         }
 
-        // Actually move the file
+        // Actually move (or copy / link) the file
+        const transferMode = transferModeFor(item, settings);
+        const prepared = await prepareMovieVersion(item, item.destinationPath, movieVersions, isDocker);
+        const conflict = await applyConflictPolicy(item, prepared.destinationPath, conflictPolicy, settings, isDocker, transferMode);
+        if (conflict.outcome === "conflict") {
+          await markConflict(item, prepared.destinationPath, conflict);
+          failed.push({ id, error: conflict.reason, conflict: true });
+          continue;
+        }
+        const { destinationPath } = conflict;
+        const companions = await findCompanionFiles(item.originalPath, destinationPath, item.detectedType, isDocker);
         const moveResult = await moveFileToDestination(
           item.originalPath,
-          item.destinationPath,
-          isDocker
+          destinationPath,
+          isDocker,
+          transferMode
         );
 
         if (!moveResult.success) {
@@ -1435,80 +1918,38 @@ export async function registerRoutes(
             mediaItemId: id,
             action: "organize",
             fromPath: item.originalPath,
-            toPath: item.destinationPath,
+            toPath: destinationPath,
             success: false,
-            message: `Failed to move: ${moveResult.error}`,
+            message: `Failed to ${transferMode}: ${moveResult.error}`,
+            transferMode,
           });
           failed.push({ id, error: moveResult.error });
           continue;
         }
+        const usedMode = moveResult.transferMode || transferMode;
 
         // Update item status after successful move
         await storage.updateMediaItem(id, { 
           status: "organized",
-          originalPath: item.destinationPath // Update path to new location
+          originalPath: destinationPath, // Update path to new location
+          sourcePath: usedMode === "move" ? null : item.originalPath,
         });
 
         // Create or update movie or TV series entry
-        if (item.detectedType === "movie" && item.detectedName) {
-          const existingMovie = await storage.getMovieByName(item.detectedName);
-          if (!existingMovie) {
-            await storage.createMovie({
-              name: item.detectedName,
-              cleanedName: item.cleanedName || item.detectedName,
-              year: item.year,
-              filePath: item.destinationPath,
-              tmdbId: item.tmdbId,
-              posterPath: item.posterPath,
-            });
-          } else if (item.posterPath && !existingMovie.posterPath) {
-            // Update existing movie with poster if it doesn't have one
-            await storage.updateMovie(existingMovie.id, {
-              posterPath: item.posterPath,
-              tmdbId: item.tmdbId,
-            });
-          }
-        } else if (item.detectedType === "tvshow" && item.detectedName) {
-          // Extract series folder name from destination path
-          const pathParts = item.destinationPath?.split("/").filter(Boolean) || [];
-          const seriesFolderName = pathParts.length >= 2 ? pathParts[1] : null;
-          
-          let series = await storage.getTvSeriesByName(item.detectedName);
-          if (!series) {
-            series = await storage.createTvSeries({
-              name: item.detectedName,
-              cleanedName: item.cleanedName || item.detectedName,
-              year: item.year,
-              totalSeasons: item.season || 1,
-              totalEpisodes: 1,
-              folderPath: seriesFolderName,
-              tmdbId: item.tmdbId,
-              posterPath: item.posterPath,
-            });
-          } else {
-            await storage.updateTvSeries(series.id, {
-              totalSeasons: Math.max(series.totalSeasons || 0, item.season || 0),
-              totalEpisodes: (series.totalEpisodes || 0) + 1,
-              folderPath: series.folderPath || seriesFolderName,
-              // Update poster if not already set
-              ...(item.posterPath && !series.posterPath ? { posterPath: item.posterPath, tmdbId: item.tmdbId } : {}),
-            });
-          }
-        }
-
-        // Cleanup empty source folders
-        const settings = await storage.getAllSettings();
-        const sourcePaths = [
-          ...(JSON.parse(settings.moviesPaths || "[]") as string[]),
-          ...(JSON.parse(settings.tvShowsPaths || "[]") as string[])
+        await registerOrganizedItem({ ...item, destinationPath });
+
+        // Cleanup empty source folders (copies and links leave the source in place)
+        const sourcePaths = allSourcePaths(settings);
+        const companionResult = await organizeCompanions(companions, usedMode, sourcePaths, isDocker);
+        const deletedFolders = [
+          ...companionResult.deletedFolders,
+          ...(usedMode === "move" ? await cleanupEmptyFolders(item.originalPath, sourcePaths, isDocker) : []),
         ];
-        const deletedFolders = await cleanupEmptyFolders(
-          item.originalPath, 
-          sourcePaths,
-          isDocker
-        );
         
         // Create success log
+        const companionMsg = companionResult.transferred.length > 0
+          ? ` with ${companionResult.transferred.length} companion file(s)`
+          : "";
         const cleanupMsg = deletedFolders.length > 0 
           ? ` (cleaned ${deletedFolders.length} empty folder(s))` 
           : "";
@@ -1516,9 +1957,10 @@ export async function registerRoutes(
           mediaItemId: id,
           action: "organize",
           fromPath: item.originalPath,
-          toPath: item.destinationPath,
+          toPath: destinationPath,
           success: true,
-          message: `Moved ${item.detectedType}: ${item.detectedName}${cleanupMsg}`,
+          message: `${TRANSFER_VERBS[usedMode]} ${item.detectedType}: ${item.detectedName}${companionMsg}${cleanupMsg}`,
+          transferMode: usedMode,
         });
 
         organized.push(id);
@@ -1530,6 +1972,7 @@ export async function registerRoutes(
         }
       } // end of outer for loop (chunks)
       
+      if (!dryRun && organized.length > 0) invalidateLibraryIndex();
       console.log(`[Organize] Completed: ${organized.length} organized, ${failed.length} failed`);
 
       res.json({ 
@@ -1562,6 +2005,8 @@ export async function registerRoutes(
       const settings = await storage.getAllSettings();
       const moviesDestination = settings.moviesDestination || "";
       const tvShowsDestination = settings.tvShowsDestination || "";
+      const movieVersions = settings.movieVersions === "true";
+      const conflictPolicy = parseConflictPolicy(settings.conflictPolicy);
       
       if (!moviesDestination && !tvShowsDestination) {
         return res.status(400).json({ 
@@ -1578,21 +2023,36 @@ export async function registerRoutes(
         failedCount: 0,
       });
 
+      // Every filesystem change is journaled so the job can be rolled back
+      let journalSequence = 0;
+      const journal = (entry: Omit<InsertOrganizeJournalEntry, "jobId" | "sequence">) =>
+        storage.addJournalEntry({ ...entry, jobId: job.id, sequence: journalSequence++ });
+
       // Start background processing
       const isDocker = fs.existsSync("/host");
       const CHUNK_SIZE = 10;
       const CHUNK_DELAY = 200;
       const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-      (async () => {
+      runJobWorker(job.id, async () => {
         let successCount = 0;
         let failedCount = 0;
+        let cancelled = false;
+
+        const jobStatus = async () => (await storage.getOrganizeJob(job.id))?.status;
+        const clearCurrentFile = () => storage.updateOrganizeJob(job.id, { currentFile: null });
+        // Checked before each file: waits while paused, true once cancelled
+        const jobStopped = () => shouldStopJob(jobStatus, clearCurrentFile);
 
         try {
-          for (let chunkStart = 0; chunkStart < ids.length; chunkStart += CHUNK_SIZE) {
+          organize: for (let chunkStart = 0; chunkStart < ids.length; chunkStart += CHUNK_SIZE) {
             const chunk = ids.slice(chunkStart, chunkStart + CHUNK_SIZE);
             
             for (const id of chunk) {
+              if (await jobStopped()) {
+                cancelled = true;
+                break organize;
+              }
               const item = await storage.getMediaItemById(id);
               if (!item || !item.originalPath || !item.destinationPath) {
                 failedCount++;
@@ -1609,68 +2069,120 @@ export async function registerRoutes(
                 currentFile: item.originalFilename 
               });
 
-              const moveResult = await moveFileToDestination(
-                item.originalPath,
-                item.destinationPath,
-                isDocker
-              );
+              const matchError = libraryMatchError(item, movieVersions);
+              const { destinationPath: preparedPath, renamed } = matchError
+                ? { destinationPath: item.destinationPath, renamed: null }
+                : await prepareMovieVersion(item, item.destinationPath, movieVersions, isDocker);
+              if (renamed) {
+                await journal({
+                  mediaItemId: id,
+                  action: "rename",
+                  fromPath: renamed.from,
+                  toPath: renamed.to,
+                  fileSize: await fileSizeOf(renamed.to, isDocker),
+                });
+              }
+              const transferMode = transferModeFor(item, settings);
+
+              // Destination already taken: resolve it with the conflict policy
+              const conflict = matchError
+                ? null
+                : await applyConflictPolicy(item, preparedPath, conflictPolicy, settings, isDocker, transferMode);
+              if (conflict?.outcome === "conflict") {
+                if (conflict.movedTo) {
+                  await journal({
+                    mediaItemId: id,
+                    action: (conflict.transferMode || "move") === "move" ? "move" : "copy",
+                    fromPath: item.originalPath,
+                    toPath: conflict.movedTo,
+                    fileSize: await fileSizeOf(conflict.movedTo, isDocker),
+                  });
+                }
+                await markConflict(item, preparedPath, conflict);
+                failedCount++;
+                await storage.updateOrganizeJob(job.id, { 
+                  processedFiles: chunkStart + chunk.indexOf(id) + 1,
+                  successCount,
+                  failedCount
+                });
+                continue;
+              }
+              if (conflict?.displaced?.to) {
+                await journal({
+                  mediaItemId: id,
+                  action: "move",
+                  fromPath: conflict.displaced.from,
+                  toPath: conflict.displaced.to,
+                  fileSize: await fileSizeOf(conflict.displaced.to, isDocker),
+                  displacedItem: conflict.displaced.item,
+                });
+              }
+              const destinationPath = conflict?.destinationPath ?? preparedPath;
+
+              const companions = matchError
+                ? []
+                : await findCompanionFiles(item.originalPath, destinationPath, item.detectedType, isDocker);
+              const moveResult = matchError
+                ? { success: false, error: matchError }
+                : await moveFileToDestination(item.originalPath, destinationPath, isDocker, transferMode);
 
               if (moveResult.success) {
+                const usedMode = moveResult.transferMode || transferMode;
+                for (const folder of moveResult.createdFolders || []) {
+                  await journal({ mediaItemId: id, action: "create_folder", toPath: folder });
+                }
+                await journal({
+                  mediaItemId: id,
+                  action: usedMode === "move" ? "move" : "copy",
+                  fromPath: item.originalPath,
+                  toPath: destinationPath,
+                  fileSize: await fileSizeOf(destinationPath, isDocker),
+                });
+
                 await storage.updateMediaItem(id, { 
                   status: "organized",
-                  originalPath: item.destinationPath
+                  originalPath: destinationPath,
+                  sourcePath: usedMode === "move" ? null : item.originalPath,
                 });
 
                 // Create or update movie or TV series entry
-                if (item.detectedType === "movie" && item.detectedName) {
-                  const existingMovie = await storage.getMovieByName(item.detectedName);
-                  if (!existingMovie) {
-                    await storage.createMovie({
-                      name: item.detectedName,
-                      cleanedName: item.cleanedName || item.detectedName,
-                      year: item.year,
-                      filePath: item.destinationPath,
-                      tmdbId: item.tmdbId,
-                      posterPath: item.posterPath,
-                    });
-                  } else if (item.posterPath && !existingMovie.posterPath) {
-                    await storage.updateMovie(existingMovie.id, {
-                      posterPath: item.posterPath,
-                      tmdbId: item.tmdbId,
-                    });
-                  }
-                } else if (item.detectedType === "tvshow" && item.detectedName) {
-                  const pathParts = item.destinationPath?.split("/").filter(Boolean) || [];
-                  const seriesFolderName = pathParts.length >= 2 ? pathParts[1] : null;
-                  
-                  let series = await storage.getTvSeriesByName(item.detectedName);
-                  if (!series) {
-                    await storage.createTvSeries({
-                      name: item.detectedName,
-                      cleanedName: item.cleanedName || item.detectedName,
-                      year: item.year,
-                      totalSeasons: item.season || 1,
-                      totalEpisodes: 1,
-                      folderPath: seriesFolderName,
-                      tmdbId: item.tmdbId,
-                      posterPath: item.posterPath,
-                    });
-                  } else {
-                    await storage.updateTvSeries(series.id, {
-                      totalSeasons: Math.max(series.totalSeasons || 0, item.season || 0),
-                      totalEpisodes: (series.totalEpisodes || 0) + 1,
-                      folderPath: series.folderPath || seriesFolderName,
-                      ...(item.posterPath && !series.posterPath ? { posterPath: item.posterPath, tmdbId: item.tmdbId } : {}),
-                    });
+                await registerOrganizedItem({ ...item, destinationPath });
+
+                // Cleanup empty source folders (copies and links leave the source in place)
+                const sourcePaths = allSourcePaths(settings);
+                const companionResult = await organizeCompanions(companions, usedMode, sourcePaths, isDocker);
+                for (const transfer of companionResult.transferred) {
+                  if (transfer.createdFolder) {
+                    await journal({ mediaItemId: id, action: "create_folder", toPath: transfer.createdFolder });
                   }
+                  await journal({
+                    mediaItemId: id,
+                    action: transfer.transferMode === "move" ? "move" : "copy",
+                    fromPath: transfer.from,
+                    toPath: transfer.to,
+                    fileSize: await fileSizeOf(transfer.to, isDocker),
+                  });
                 }
-
-                // Cleanup empty source folders
-                const sourcePaths = [
-                  ...(JSON.parse(settings.moviesPaths || "[]") as string[]),
-                  ...(JSON.parse(settings.tvShowsPaths || "[]") as string[])
+                const deletedFolders = [
+                  ...companionResult.deletedFolders,
+                  ...(usedMode === "move" ? await cleanupEmptyFolders(item.originalPath, sourcePaths, isDocker) : []),
                 ];
-                await cleanupEmptyFolders(item.originalPath, sourcePaths, isDocker);
+                for (const folder of deletedFolders) {
+                  await journal({ mediaItemId: id, action: "delete_folder", fromPath: folder });
+                }
+
+                const companionMsg = companionResult.transferred.length > 0
+                  ? ` with ${companionResult.transferred.length} companion file(s)`
+                  : "";
+                await storage.createLog({
+                  mediaItemId: id,
+                  action: "organize",
+                  fromPath: item.originalPath,
+                  toPath: destinationPath,
+                  success: true,
+                  message: `${TRANSFER_VERBS[usedMode]} ${item.detectedType}: ${item.detectedName}${companionMsg}`,
+                  transferMode: usedMode,
+                });
 
                 successCount++;
               } else {
@@ -1679,9 +2191,10 @@ export async function registerRoutes(
                   mediaItemId: id,
                   action: "organize",
                   fromPath: item.originalPath,
-                  toPath: item.destinationPath,
+                  toPath: destinationPath,
                   success: false,
                   message: `Failed: ${moveResult.error}`,
+                  transferMode: matchError ? null : transferMode,
                 });
               }
 
@@ -1697,13 +2210,30 @@ export async function registerRoutes(
             }
           }
 
-          await storage.updateOrganizeJob(job.id, {
-            status: "completed",
-            completedAt: new Date(),
-            processedFiles: ids.length,
-            successCount,
-            failedCount
-          });
+          if (successCount > 0) invalidateLibraryIndex();
+          // A job cancelled while its last file was being moved stays cancelled
+          const completed = !cancelled && await advanceJob(
+            jobStatus,
+            () => storage.updateOrganizeJob(job.id, {
+              status: "completed",
+              completedAt: new Date(),
+              processedFiles: ids.length,
+              successCount,
+              failedCount
+            }, ["running"]),
+            clearCurrentFile
+          );
+          if (!completed) {
+            // The counts record how far the job got; what it did can still be undone
+            await storage.updateOrganizeJob(job.id, {
+              completedAt: new Date(),
+              currentFile: null,
+              successCount,
+              failedCount,
+            });
+            console.log(`[OrganizeJob] Cancelled after ${successCount + failedCount} of ${ids.length} files: ${successCount} success, ${failedCount} failed`);
+            return;
+          }
           console.log(`[OrganizeJob] Completed: ${successCount} success, ${failedCount} failed`);
         } catch (err: any) {
           await storage.updateOrganizeJob(job.id, {
@@ -1713,7 +2243,7 @@ export async function registerRoutes(
           });
           console.error("[OrganizeJob] Failed:", err);
         }
-      })();
+      });
 
       res.json({ jobId: job.id, totalFiles: ids.length });
     } catch (error: any) {
@@ -1721,6 +2251,107 @@ export async function registerRoutes(
     }
   });
 
+  // Recent organize jobs, newest first (for undo)
+  app.get("/api/organize-jobs/history", async (req, res) => {
+    try {
+      res.json(await storage.getRecentOrganizeJobs(10));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get organize jobs" });
+    }
+  });
+
+  // Roll back an organize job, or only some of its items, by undoing its journal
+  // in reverse order. Steps that can't be verified or undone are reported and skipped.
+  app.post("/api/organize-jobs/:id/rollback", async (req, res) => {
+    try {
+      const job = await storage.getOrganizeJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status === "pending" || job.status === "running" || job.status === "paused") {
+        return res.status(409).json({ error: "Job is still running" });
+      }
+      const { itemIds } = req.body || {};
+      if (itemIds !== undefined && !Array.isArray(itemIds)) {
+        return res.status(400).json({ error: "itemIds must be an array" });
+      }
+
+      const entries = (await storage.getJournalEntries(job.id))
+        .filter((entry) => !entry.undoneAt && (!itemIds || itemIds.includes(entry.mediaItemId)))
+        .reverse();
+      if (entries.length === 0) {
+        return res.status(400).json({ error: "Nothing to roll back for this job" });
+      }
+
+      const isDocker = fs.existsSync("/host");
+      const failed: RollbackFailure[] = [];
+      const restored: MediaItem[] = [];
+      const reinstated: MediaItem[] = [];
+      let undone = 0;
+
+      for (const entry of entries) {
+        const error = await undoJournalEntry(entry, isDocker).catch((err: any) => err.message || String(err));
+        if (error) {
+          failed.push({ entryId: entry.id, action: entry.action, path: entry.toPath || entry.fromPath, error });
+          continue;
+        }
+        await storage.updateJournalEntry(entry.id, { undoneAt: new Date() });
+        undone++;
+
+        if ((entry.action === "move" || entry.action === "copy") && entry.mediaItemId) {
+          const item = await storage.getMediaItemById(entry.mediaItemId);
+          if (item && item.originalPath === entry.toPath) {
+            const updated = await storage.updateMediaItem(item.id, {
+              status: "pending",
+              originalPath: entry.fromPath!,
+              sourcePath: null,
+            });
+            restored.push(updated || item);
+          }
+          if (entry.displacedItem) {
+            // A library file the job overwrote is back at its place: so is its item
+            const { id: _id, createdAt: _createdAt, ...displaced } = entry.displacedItem;
+            reinstated.push(await storage.createMediaItem({ ...displaced, originalPath: entry.fromPath! }));
+          }
+          await storage.createLog({
+            mediaItemId: entry.mediaItemId,
+            action: "rollback",
+            fromPath: entry.toPath,
+            toPath: entry.fromPath,
+            success: true,
+            message: `Rolled back organize job ${job.id}`,
+          });
+        } else if (entry.action === "rename") {
+          // A movie version label given to an existing copy
+          const copy = await storage.getMediaItemByPath(entry.toPath!);
+          if (copy) {
+            await storage.updateMediaItem(copy.id, {
+              originalPath: entry.fromPath!,
+              destinationPath: entry.fromPath,
+              versionLabel: null,
+            });
+          }
+          const movie = (await storage.getAllMovies()).find((m) => m.filePath === entry.toPath);
+          if (movie) await storage.updateMovie(movie.id, { filePath: entry.fromPath });
+        }
+      }
+
+      await pruneCatalog(restored, reinstated);
+      invalidateLibraryIndex();
+
+      const journalLeft = (await storage.getJournalEntries(job.id)).some((entry) => !entry.undoneAt);
+      if (!journalLeft) {
+        await storage.updateOrganizeJob(job.id, { status: "rolled_back" });
+      }
+
+      console.log(`[Rollback] Job ${job.id}: ${undone} step(s) undone, ${restored.length} file(s) restored, ${failed.length} failed`);
+      res.json({ jobId: job.id, undone, restored: restored.length, failed });
+    } catch (error) {
+      console.error("Rollback error:", error);
+      res.status(500).json({ error: "Failed to roll back organize job" });
+    }
+  });
+
   // Get organize job status
   app.get("/api/organize-jobs/:id", async (req, res) => {
     try {
@@ -1734,6 +2365,34 @@ export async function registerRoutes(
     }
   });
 
+  // Pause, resume or cancel an organize job. The job picks the change up before its next
+  // file; the file in progress is finished first.
+  for (const control of JOB_CONTROLS) {
+    app.post(`/api/organize-jobs/:id/${control}`, async (req, res) => {
+      try {
+        const job = await storage.getOrganizeJob(req.params.id);
+        if (!job) {
+          return res.status(404).json({ error: "Job not found" });
+        }
+        const status = controlledStatus(job.status, control);
+        if (!status) {
+          return res.status(409).json({ error: `Cannot ${control} a ${job.status} job` });
+        }
+        if (control === "resume" && !hasJobWorker(job.id)) {
+          return res.status(409).json({ error: "This job is no longer running on the server; cancel it and organize the remaining files again" });
+        }
+        const updated = await storage.updateOrganizeJob(
+          job.id,
+          status === "cancelled" ? { status, completedAt: new Date() } : { status }
+        );
+        console.log(`[OrganizeJob] Job ${job.id}: ${control}`);
+        res.json(updated);
+      } catch (error) {
+        res.status(500).json({ error: `Failed to ${control} organize job` });
+      }
+    });
+  }
+
   // Get active organize job
   app.get("/api/organize-jobs", async (req, res) => {
     try {
@@ -1744,12 +2403,25 @@ export async function registerRoutes(
     }
   });
 
+  // Helper: duplicate groups ranked by the configured quality profile.
+  // "name" groups by parsed title (fuzzy), "exact" by content fingerprint.
+  async function findRankedDuplicates(mode: DuplicateMode = "name"): Promise<DuplicateGroup[]> {
+    const settings = await storage.getAllSettings();
+    const threshold = parseInt(settings.fuzzyMatchThreshold || "80", 10);
+    const profile = parseQualityProfile(settings.qualityProfile);
+    const duplicates = mode === "exact"
+      ? await storage.findExactDuplicates()
+      : (await storage.findDuplicates(threshold))
+          // Movie versions share a title on purpose; only the unversioned copies count
+          .map((group) => ({ ...group, items: group.items.filter((item) => !item.versionLabel) }))
+          .filter((group) => group.items.length > 1);
+    return duplicates.map((group) => rankDuplicateGroup(group, profile));
+  }
+
   // Duplicates endpoints
   app.get("/api/duplicates", async (req, res) => {
     try {
-      const settings = await storage.getAllSettings();
-      const threshold = parseInt(settings.fuzzyMatchThreshold || "80", 10);
-      const duplicates = await storage.findDuplicates(threshold);
+      const duplicates = await findRankedDuplicates(parseDuplicateMode(req.query.mode));
       res.json(duplicates);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch duplicates" });
@@ -1758,17 +2430,15 @@ export async function registerRoutes(
 
   app.post("/api/duplicates/scan", async (req, res) => {
     try {
-      const settings = await storage.getAllSettings();
-      const threshold = parseInt(settings.fuzzyMatchThreshold || "80", 10);
-      const duplicates = await storage.findDuplicates(threshold);
+      const duplicates = await findRankedDuplicates(parseDuplicateMode(req.body?.mode));
 
-      // Mark items as duplicates
+      // Mark every copy except the recommended keeper as a duplicate
       for (const group of duplicates) {
         for (const item of group.items) {
-          if (!item.isOriginal) {
+          if (item.id !== group.recommendedKeeperId) {
             await storage.updateMediaItem(item.id, {
               status: "duplicate",
-              duplicateOf: group.items.find((i: any) => i.isOriginal)?.id,
+              duplicateOf: group.recommendedKeeperId,
             });
           }
         }
@@ -1786,6 +2456,99 @@ export async function registerRoutes(
     }
   });
 
+  // Full-hash confirmation for exact duplicates: hashes every file completely
+  // and reports whether they really are byte-identical
+  app.post("/api/duplicates/verify", async (req, res) => {
+    try {
+      const { ids } = req.body || {};
+      if (!Array.isArray(ids) || ids.length < 2) {
+        return res.status(400).json({ error: "ids must be an array of at least two items" });
+      }
+
+      const hashes = await hashMediaItems(ids, fs.existsSync("/host"));
+      const values = Object.values(hashes);
+      const identical = values.every((hash) => hash !== null && hash === values[0]);
+
+      res.json({ identical, hashes });
+    } catch (error) {
+      console.error("Verify duplicates error:", error);
+      res.status(500).json({ error: "Failed to verify duplicates" });
+    }
+  });
+
+  // Auto-resolve: keep the recommended copy of each group and move the others
+  // into the quarantine folder (nothing is deleted from disk)
+  app.post("/api/duplicates/auto-resolve", async (req, res) => {
+    try {
+      const { groupIds } = req.body || {};
+      const mode = parseDuplicateMode(req.body?.mode);
+      const settings = await storage.getAllSettings();
+      const quarantinePath = settings.duplicateQuarantinePath;
+      if (!quarantinePath) {
+        return res.status(400).json({ error: "Quarantine folder is not configured. Set it in Settings first." });
+      }
+
+      const HOST_PREFIX = "/host";
+      const isDocker = fs.existsSync(HOST_PREFIX);
+      const duplicates = (await findRankedDuplicates(mode)).filter(
+        (group) => !Array.isArray(groupIds) || groupIds.includes(group.groupId)
+      );
+
+      let quarantined = 0;
+      const failed: Array<{ id: string; error?: string }> = [];
+
+      for (const group of duplicates) {
+        const keeper = group.items.find((i) => i.id === group.recommendedKeeperId);
+        // Exact matches are only fingerprints; confirm against the keeper's full hash first
+        const keeperHash = mode === "exact" && keeper
+          ? (await hashMediaItems([keeper.id], isDocker))[keeper.id]
+          : null;
+
+        for (const copy of group.items) {
+          if (copy.id === group.recommendedKeeperId) continue;
+
+          const item = await storage.getMediaItemById(copy.id);
+          if (!item) continue;
+
+          if (mode === "exact") {
+            const copyHash = (await hashMediaItems([item.id], isDocker))[item.id];
+            if (!keeperHash || copyHash !== keeperHash) {
+              failed.push({ id: item.id, error: "Full hash does not match the kept copy" });
+              continue;
+            }
+          }
+
+          const target = quarantineTarget(quarantinePath, item.originalFilename, item.id, isDocker);
+          const moveResult = await moveFileToDestination(item.originalPath, target, isDocker);
+          await storage.createLog({
+            mediaItemId: item.id,
+            action: "quarantine",
+            fromPath: item.originalPath,
+            toPath: target,
+            success: moveResult.success,
+            message: moveResult.success
+              ? `Quarantined duplicate of ${keeper?.originalFilename}: ${(copy.reasons || []).join("; ")}`
+              : `Failed to quarantine: ${moveResult.error}`,
+          });
+
+          if (!moveResult.success) {
+            failed.push({ id: item.id, error: moveResult.error });
+            continue;
+          }
+
+          await storage.deleteMediaItem(item.id);
+          quarantined++;
+        }
+      }
+
+      console.log(`[Duplicates] Auto-resolve quarantined ${quarantined} file(s), ${failed.length} failed`);
+      res.json({ groups: duplicates.length, quarantined, failed });
+    } catch (error) {
+      console.error("Auto-resolve duplicates error:", error);
+      res.status(500).json({ error: "Failed to auto-resolve duplicates" });
+    }
+  });
+
   // TV Series endpoints
   app.get("/api/tv-series", async (req, res) => {
     try {
@@ -1804,31 +2567,46 @@ export async function registerRoutes(
         // Group by season
         const seasonsMap: Map<
           number,
-          Array<{ id: string; episode: number; filename: string }>
+          Array<{ id: string; episode: number; airDate: string | null; filename: string }>
         > = new Map();
 
         for (const ep of seriesEpisodes) {
-          const seasonNum = ep.season || 1;
+          // Season 0 holds specials; unresolved daily show episodes are grouped by broadcast year
+          const seasonNum = ep.season ?? (ep.airDate ? parseInt(ep.airDate.slice(0, 4), 10) : 1);
           if (!seasonsMap.has(seasonNum)) {
             seasonsMap.set(seasonNum, []);
           }
-          seasonsMap.get(seasonNum)!.push({
-            id: ep.id,
-            episode: ep.episode || 0,
-            filename: ep.originalFilename,
-          });
+          // A multi-episode file is listed under every episode it covers
+          const episodeNumbers = getEpisodeNumbers(ep);
+          for (const episode of episodeNumbers.length > 0 ? episodeNumbers : [0]) {
+            seasonsMap.get(seasonNum)!.push({
+              id: ep.id,
+              episode,
+              airDate: ep.airDate,
+              filename: ep.originalFilename,
+            });
+          }
         }
 
+        const sortEpisodes = (episodes: Array<{ episode: number; airDate: string | null }>) =>
+          episodes.sort(
+            (a, b) => a.episode - b.episode || (a.airDate || "").localeCompare(b.airDate || "")
+          );
+
+        // Specials (Season 00) are returned as their own group, not as a season
         const seasons = Array.from(seasonsMap.entries())
+          .filter(([number]) => number !== 0)
           .map(([number, episodes]) => ({
             number,
-            episodes: episodes.sort((a, b) => a.episode - b.episode),
+            episodes: sortEpisodes(episodes),
           }))
           .sort((a, b) => a.number - b.number);
+        const specials = sortEpisodes(seasonsMap.get(0) || []);
 
         return {
           ...s,
           seasons,
+          specials,
         };
       });
 
@@ -1851,11 +2629,62 @@ export async function registerRoutes(
     }
   });
 
+  // Identify a library series by hand: its episodes are re-planned under the chosen show
+  // and go back to the Organizer to be moved
+  app.post("/api/tv-series/:id/identify", async (req, res) => {
+    try {
+      const target = await identifyTargetFrom(req.body?.tmdbId, "tvshow");
+      if ("error" in target) {
+        return res.status(target.status).json({ error: target.error });
+      }
+      const series = await storage.getTvSeriesById(req.params.id);
+      if (!series) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      const episodes = (await storage.getAllMediaItems()).filter(
+        (item) => item.detectedType === "tvshow" && item.detectedName?.toLowerCase() === series.name.toLowerCase()
+      );
+      const { updated, skipped } = await identifyItems(episodes, target.target, await storage.getAllSettings());
+      const entry = await renameLibraryEntry("tvshow", series.id, target.target);
+      console.log(`[Identify] Series "${series.name}" -> "${target.target.name}", ${updated.length} episode(s)`);
+      res.json({ series: entry, updated, skipped });
+    } catch (error) {
+      console.error("Identify series error:", error);
+      res.status(500).json({ error: "Failed to identify series" });
+    }
+  });
+
   // Movies endpoints
   app.get("/api/movies", async (req, res) => {
     try {
       const movies = await storage.getAllMovies();
-      res.json(movies);
+      const mediaItems = await storage.getAllMediaItems();
+
+      // Every organized copy of a movie is listed as one of its versions
+      const enriched = movies.map((movie) => {
+        const versions = mediaItems
+          .filter(
+            (item) =>
+              item.detectedType === "movie" &&
+              item.status === "organized" &&
+              item.detectedName?.toLowerCase() === movie.name.toLowerCase() &&
+              (!item.year || !movie.year || item.year === movie.year)
+          )
+          .map((item) => ({
+            id: item.id,
+            label: item.versionLabel,
+            edition: item.edition,
+            path: item.originalPath,
+            quality: item.quality,
+            fileSize: item.fileSize,
+          }))
+          .sort((a, b) => (a.label || "").localeCompare(b.label || ""));
+
+        return { ...movie, versions };
+      });
+
+      res.json(enriched);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch movies" });
     }
@@ -1874,6 +2703,35 @@ export async function registerRoutes(
     }
   });
 
+  // Identify a library movie by hand: its copies are re-planned under the chosen movie
+  // and go back to the Organizer to be moved
+  app.post("/api/movies/:id/identify", async (req, res) => {
+    try {
+      const target = await identifyTargetFrom(req.body?.tmdbId, "movie");
+      if ("error" in target) {
+        return res.status(target.status).json({ error: target.error });
+      }
+      const movie = await storage.getMovieById(req.params.id);
+      if (!movie) {
+        return res.status(404).json({ error: "Movie not found" });
+      }
+
+      const copies = (await storage.getAllMediaItems()).filter(
+        (item) =>
+          item.detectedType === "movie" &&
+          item.detectedName?.toLowerCase() === movie.name.toLowerCase() &&
+          (!item.year || !movie.year || item.year === movie.year)
+      );
+      const { updated, skipped } = await identifyItems(copies, target.target, await storage.getAllSettings());
+      const entry = await renameLibraryEntry("movie", movie.id, target.target);
+      console.log(`[Identify] Movie "${movie.name}" -> "${target.target.name}", ${updated.length} file(s)`);
+      res.json({ movie: entry, updated, skipped });
+    } catch (error) {
+      console.error("Identify movie error:", error);
+      res.status(500).json({ error: "Failed to identify movie" });
+    }
+  });
+
   // Logs endpoints
   app.get("/api/logs", async (req, res) => {
     try {
@@ -1890,38 +2748,43 @@ export async function registerRoutes(
       const settings = await storage.getAllSettings();
       
       // Parse array paths with backward compatibility
-      let moviesPaths: string[] = ["/Movies"];
-      let tvShowsPaths: string[] = ["/TV Shows"];
-      
-      if (settings.moviesPaths) {
-        try {
-          moviesPaths = JSON.parse(settings.moviesPaths);
-        } catch {
-          moviesPaths = [settings.moviesPaths];
-        }
-      } else if (settings.moviesPath) {
-        moviesPaths = [settings.moviesPath];
-      }
-      
-      if (settings.tvShowsPaths) {
-        try {
-          tvShowsPaths = JSON.parse(settings.tvShowsPaths);
-        } catch {
-          tvShowsPaths = [settings.tvShowsPaths];
-        }
-      } else if (settings.tvShowsPath) {
-        tvShowsPaths = [settings.tvShowsPath];
-      }
+      const { moviesPaths, tvShowsPaths, animePaths } = sourceLibraryPaths({
+        moviesPath: "/Movies",
+        tvShowsPath: "/TV Shows",
+        ...settings,
+      });
       
       res.json({
         moviesPaths,
         tvShowsPaths,
+        animePaths,
         moviesDestination: settings.moviesDestination || "",
         tvShowsDestination: settings.tvShowsDestination || "",
+        animeDestination: settings.animeDestination || "",
+        moviesTransferMode: parseTransferMode(settings.moviesTransferMode),
+        tvShowsTransferMode: parseTransferMode(settings.tvShowsTransferMode),
+        animeTransferMode: parseTransferMode(settings.animeTransferMode),
         autoOrganize: settings.autoOrganize === "true",
         removeReleaseGroups: settings.removeReleaseGroups !== "false",
         fuzzyMatchThreshold: parseInt(settings.fuzzyMatchThreshold || "80", 10),
+        reviewThreshold: parseReviewThreshold(settings.reviewThreshold),
+        editionNaming: settings.editionNaming === "plex" ? "plex" : "jellyfin",
+        episodeTitles: settings.episodeTitles === "true",
+        movieVersions: settings.movieVersions === "true",
+        conflictPolicy: parseConflictPolicy(settings.conflictPolicy),
+        conflictsPath: settings.conflictsPath || "",
         tmdbApiKey: settings.tmdbApiKey || "",
+        tvdbApiKey: settings.tvdbApiKey || "",
+        tvdbPin: settings.tvdbPin || "",
+        omdbApiKey: settings.omdbApiKey || "",
+        moviesMetadataProviders: parseProviderPriority(settings.moviesMetadataProviders),
+        tvShowsMetadataProviders: parseProviderPriority(settings.tvShowsMetadataProviders),
+        animeMetadataProviders: parseProviderPriority(
+          settings.animeMetadataProviders || settings.tvShowsMetadataProviders
+        ),
+        configuredMetadataProviders: await configuredMetadataProviders(),
+        duplicateQuarantinePath: settings.duplicateQuarantinePath || "",
+        qualityProfile: parseQualityProfile(settings.qualityProfile),
       });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch settings" });
@@ -1933,12 +2796,31 @@ export async function registerRoutes(
       const {
         moviesPaths,
         tvShowsPaths,
+        animePaths,
         moviesDestination,
         tvShowsDestination,
+        animeDestination,
+        moviesTransferMode,
+        tvShowsTransferMode,
+        animeTransferMode,
         autoOrganize,
         removeReleaseGroups,
         fuzzyMatchThreshold,
+        reviewThreshold,
+        editionNaming,
+        episodeTitles,
+        movieVersions,
+        conflictPolicy,
+        conflictsPath,
         tmdbApiKey,
+        tvdbApiKey,
+        tvdbPin,
+        omdbApiKey,
+        moviesMetadataProviders,
+        tvShowsMetadataProviders,
+        animeMetadataProviders,
+        duplicateQuarantinePath,
+        qualityProfile,
       } = req.body;
 
       // Store arrays as JSON strings
@@ -1948,6 +2830,9 @@ export async function registerRoutes(
       if (tvShowsPaths !== undefined) {
         await storage.setSetting("tvShowsPaths", JSON.stringify(tvShowsPaths));
       }
+      if (animePaths !== undefined) {
+        await storage.setSetting("animePaths", JSON.stringify(animePaths));
+      }
       // Store destination paths
       if (moviesDestination !== undefined) {
         await storage.setSetting("moviesDestination", moviesDestination);
@@ -1955,14 +2840,61 @@ export async function registerRoutes(
       if (tvShowsDestination !== undefined) {
         await storage.setSetting("tvShowsDestination", tvShowsDestination);
       }
+      if (animeDestination !== undefined) {
+        await storage.setSetting("animeDestination", animeDestination);
+      }
+      if (moviesTransferMode !== undefined)
+        await storage.setSetting("moviesTransferMode", parseTransferMode(moviesTransferMode));
+      if (tvShowsTransferMode !== undefined)
+        await storage.setSetting("tvShowsTransferMode", parseTransferMode(tvShowsTransferMode));
+      if (animeTransferMode !== undefined)
+        await storage.setSetting("animeTransferMode", parseTransferMode(animeTransferMode));
       if (autoOrganize !== undefined)
         await storage.setSetting("autoOrganize", String(autoOrganize));
       if (removeReleaseGroups !== undefined)
         await storage.setSetting("removeReleaseGroups", String(removeReleaseGroups));
       if (fuzzyMatchThreshold !== undefined)
         await storage.setSetting("fuzzyMatchThreshold", String(fuzzyMatchThreshold));
+      if (reviewThreshold !== undefined)
+        await storage.setSetting("reviewThreshold", String(parseReviewThreshold(String(reviewThreshold))));
+      if (editionNaming !== undefined)
+        await storage.setSetting("editionNaming", editionNaming === "plex" ? "plex" : "jellyfin");
+      if (episodeTitles !== undefined)
+        await storage.setSetting("episodeTitles", String(episodeTitles));
+      if (movieVersions !== undefined)
+        await storage.setSetting("movieVersions", String(movieVersions));
+      if (conflictPolicy !== undefined)
+        await storage.setSetting("conflictPolicy", parseConflictPolicy(conflictPolicy));
+      if (conflictsPath !== undefined)
+        await storage.setSetting("conflictsPath", conflictsPath);
       if (tmdbApiKey !== undefined)
         await storage.setSetting("tmdbApiKey", tmdbApiKey);
+      if (tvdbApiKey !== undefined)
+        await storage.setSetting("tvdbApiKey", tvdbApiKey);
+      if (tvdbPin !== undefined)
+        await storage.setSetting("tvdbPin", tvdbPin);
+      if (omdbApiKey !== undefined)
+        await storage.setSetting("omdbApiKey", omdbApiKey);
+      // Provider priority lists, stored as JSON arrays of provider IDs
+      if (moviesMetadataProviders !== undefined)
+        await storage.setSetting(
+          "moviesMetadataProviders",
+          JSON.stringify(parseProviderPriority(JSON.stringify(moviesMetadataProviders)))
+        );
+      if (tvShowsMetadataProviders !== undefined)
+        await storage.setSetting(
+          "tvShowsMetadataProviders",
+          JSON.stringify(parseProviderPriority(JSON.stringify(tvShowsMetadataProviders)))
+        );
+      if (animeMetadataProviders !== undefined)
+        await storage.setSetting(
+          "animeMetadataProviders",
+          JSON.stringify(parseProviderPriority(JSON.stringify(animeMetadataProviders)))
+        );
+      if (duplicateQuarantinePath !== undefined)
+        await storage.setSetting("duplicateQuarantinePath", duplicateQuarantinePath);
+      if (qualityProfile !== undefined)
+        await storage.setSetting("qualityProfile", JSON.stringify(qualityProfile));
 
       res.json({ success: true });
     } catch (error) {
@@ -1970,6 +2902,17 @@ export async function registerRoutes(
     }
   });
 
+  // Storage snapshot - full JSON export, importable by the SQLite backend
+  app.get("/api/storage/snapshot", async (req, res) => {
+    try {
+      const snapshot = await storage.exportSnapshot();
+      res.setHeader("Content-Disposition", 'attachment; filename="memstorage-snapshot.json"');
+      res.json(snapshot);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export snapshot" });
+    }
+  });
+
   // Folder browser endpoint - Jellyfin-style folder picker
   // Browses /host which maps to VPS root filesystem via Docker volume
   // This app runs on user's private VPS (like Jellyfin/Plex)
@@ -2074,18 +3017,10 @@ export async function registerRoutes(
     }
   });
 
-  // Helper to get TMDB API key (env var takes priority, then settings)
-  const getTmdbApiKey = async (): Promise<string | null> => {
-    if (TMDB_API_KEY) return TMDB_API_KEY;
-    const settings = await storage.getAllSettings();
-    return settings.tmdbApiKey || null;
-  };
-
   // TMDB search endpoints
   app.get("/api/tmdb/search/movie", async (req, res) => {
     try {
-      const apiKey = await getTmdbApiKey();
-      if (!apiKey) {
+      if (!(await hasTmdbCredentials())) {
         return res.status(400).json({ error: "TMDB API key not configured. Set it in Settings." });
       }
 
@@ -2096,11 +3031,10 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Query required" });
       }
 
-      let url = `${TMDB_BASE_URL}/search/movie?api_key=${apiKey}&query=${encodeURIComponent(query)}`;
-      if (year) url += `&year=${year}`;
-
-      const response = await fetch(url);
-      const data = await response.json();
+      const data = await tmdbGet("/search/movie", { query, year }, TMDB_CACHE_TTL.search);
+      if (!data) {
+        return res.status(502).json({ error: "TMDB request failed" });
+      }
 
       const results = (data.results || []).slice(0, 10).map((m: any) => ({
         id: m.id,
@@ -2108,7 +3042,7 @@ export async function registerRoutes(
         originalTitle: m.original_title,
         year: m.release_date?.substring(0, 4) || null,
         overview: m.overview,
-        posterPath: m.poster_path ? `https://image.tmdb.org/t/p/w200${m.poster_path}` : null,
+        posterPath: tmdbImageUrl(m.poster_path, "w200"),
         voteAverage: m.vote_average,
       }));
 
@@ -2120,8 +3054,7 @@ export async function registerRoutes(
 
   app.get("/api/tmdb/search/tv", async (req, res) => {
     try {
-      const apiKey = await getTmdbApiKey();
-      if (!apiKey) {
+      if (!(await hasTmdbCredentials())) {
         return res.status(400).json({ error: "TMDB API key not configured. Set it in Settings." });
       }
 
@@ -2132,11 +3065,10 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Query required" });
       }
 
-      let url = `${TMDB_BASE_URL}/search/tv?api_key=${apiKey}&query=${encodeURIComponent(query)}`;
-      if (year) url += `&first_air_date_year=${year}`;
-
-      const response = await fetch(url);
-      const data = await response.json();
+      const data = await tmdbGet("/search/tv", { query, first_air_date_year: year }, TMDB_CACHE_TTL.search);
+      if (!data) {
+        return res.status(502).json({ error: "TMDB request failed" });
+      }
 
       const results = (data.results || []).slice(0, 10).map((t: any) => ({
         id: t.id,
@@ -2144,7 +3076,7 @@ export async function registerRoutes(
         originalTitle: t.original_name,
         year: t.first_air_date?.substring(0, 4) || null,
         overview: t.overview,
-        posterPath: t.poster_path ? `https://image.tmdb.org/t/p/w200${t.poster_path}` : null,
+        posterPath: tmdbImageUrl(t.poster_path, "w200"),
         voteAverage: t.vote_average,
       }));
 
@@ -2156,14 +3088,14 @@ export async function registerRoutes(
 
   app.get("/api/tmdb/movie/:id", async (req, res) => {
     try {
-      const apiKey = await getTmdbApiKey();
-      if (!apiKey) {
+      if (!(await hasTmdbCredentials())) {
         return res.status(400).json({ error: "TMDB API key not configured. Set it in Settings." });
       }
 
-      const url = `${TMDB_BASE_URL}/movie/${req.params.id}?api_key=${apiKey}`;
-      const response = await fetch(url);
-      const m = await response.json();
+      const m = await tmdbGet(`/movie/${encodeURIComponent(req.params.id)}`);
+      if (!m) {
+        return res.status(404).json({ error: "Movie not found on TMDB" });
+      }
 
       res.json({
         id: m.id,
@@ -2171,8 +3103,8 @@ export async function registerRoutes(
         originalTitle: m.original_title,
         year: m.release_date?.substring(0, 4) || null,
         overview: m.overview,
-        posterPath: m.poster_path ? `https://image.tmdb.org/t/p/w500${m.poster_path}` : null,
-        backdropPath: m.backdrop_path ? `https://image.tmdb.org/t/p/original${m.backdrop_path}` : null,
+        posterPath: tmdbImageUrl(m.poster_path, "w500"),
+        backdropPath: tmdbImageUrl(m.backdrop_path, "original"),
         runtime: m.runtime,
         genres: m.genres?.map((g: any) => g.name) || [],
         voteAverage: m.vote_average,
@@ -2184,14 +3116,14 @@ export async function registerRoutes(
 
   app.get("/api/tmdb/tv/:id", async (req, res) => {
     try {
-      const apiKey = await getTmdbApiKey();
-      if (!apiKey) {
+      if (!(await hasTmdbCredentials())) {
         return res.status(400).json({ error: "TMDB API key not configured. Set it in Settings." });
       }
 
-      const url = `${TMDB_BASE_URL}/tv/${req.params.id}?api_key=${apiKey}`;
-      const response = await fetch(url);
-      const t = await response.json();
+      const t = await tmdbGet(`/tv/${encodeURIComponent(req.params.id)}`);
+      if (!t) {
+        return res.status(404).json({ error: "TV show not found on TMDB" });
+      }
 
       res.json({
         id: t.id,
@@ -2199,8 +3131,8 @@ export async function registerRoutes(
         originalTitle: t.original_name,
         year: t.first_air_date?.substring(0, 4) || null,
         overview: t.overview,
-        posterPath: t.poster_path ? `https://image.tmdb.org/t/p/w500${t.poster_path}` : null,
-        backdropPath: t.backdrop_path ? `https://image.tmdb.org/t/p/original${t.backdrop_path}` : null,
+        posterPath: tmdbImageUrl(t.poster_path, "w500"),
+        backdropPath: tmdbImageUrl(t.backdrop_path, "original"),
         numberOfSeasons: t.number_of_seasons,
         numberOfEpisodes: t.number_of_episodes,
         genres: t.genres?.map((g: any) => g.name) || [],
@@ -2214,11 +3146,11 @@ export async function registerRoutes(
   // Refresh posters from TMDB for all movies and TV shows
   app.post("/api/refresh-posters", async (req, res) => {
     try {
-      const apiKey = await getTmdbApiKey();
-      if (!apiKey) {
-        return res.status(400).json({ error: "TMDB API key not configured. Set it in Settings." });
+      if ((await configuredMetadataProviders()).length === 0) {
+        return res.status(400).json({ error: "No metadata provider configured. Add an API key in Settings." });
       }
 
+      const settings = await storage.getAllSettings();
       const movies = await storage.getAllMovies();
       const tvSeries = await storage.getAllTvSeries();
       
@@ -2226,30 +3158,16 @@ export async function registerRoutes(
       let updatedTvShows = 0;
 
       // Update movies
+      const movieProviders = metadataProvidersFor({ detectedType: "movie", isAnime: false }, settings);
       for (const movie of movies) {
         if (!movie.posterPath && movie.name) {
           try {
-            let url = `${TMDB_BASE_URL}/search/movie?api_key=${apiKey}&query=${encodeURIComponent(movie.name)}`;
-            if (movie.year) url += `&year=${movie.year}`;
-            
-            const response = await fetch(url);
-            const data = await response.json();
-            
-            if (data.results && data.results.length > 0) {
-              const posterPath = data.results[0].poster_path 
-                ? `https://image.tmdb.org/t/p/w342${data.results[0].poster_path}` 
-                : null;
-              
-              if (posterPath) {
-                await storage.updateMovie(movie.id, { 
-                  posterPath, 
-                  tmdbId: data.results[0].id 
-                });
-                updatedMovies++;
-              }
+            const match = await lookupMetadata(movie.name, "movie", movie.year, movieProviders);
+            if (match?.posterPath) {
+              const { tmdbId, posterPath } = matchFields(match);
+              await storage.updateMovie(movie.id, { posterPath, tmdbId: tmdbId ?? movie.tmdbId });
+              updatedMovies++;
             }
-            // Small delay to avoid rate limiting
-            await new Promise(r => setTimeout(r, 100));
           } catch (e) {
             console.error(`Failed to fetch poster for movie: ${movie.name}`, e);
           }
@@ -2257,28 +3175,16 @@ export async function registerRoutes(
       }
 
       // Update TV shows
+      const tvProviders = metadataProvidersFor({ detectedType: "tvshow", isAnime: false }, settings);
       for (const series of tvSeries) {
         if (!series.posterPath && series.name) {
           try {
-            let url = `${TMDB_BASE_URL}/search/tv?api_key=${apiKey}&query=${encodeURIComponent(series.name)}`;
-            
-            const response = await fetch(url);
-            const data = await response.json();
-            
-            if (data.results && data.results.length > 0) {
-              const posterPath = data.results[0].poster_path 
-                ? `https://image.tmdb.org/t/p/w342${data.results[0].poster_path}` 
-                : null;
-              
-              if (posterPath) {
-                await storage.updateTvSeries(series.id, { 
-                  posterPath, 
-                  tmdbId: data.results[0].id 
-                });
-                updatedTvShows++;
-              }
+            const match = await lookupMetadata(series.name, "tvshow", null, tvProviders);
+            if (match?.posterPath) {
+              const { tmdbId, posterPath } = matchFields(match);
+              await storage.updateTvSeries(series.id, { posterPath, tmdbId: tmdbId ?? series.tmdbId });
+              updatedTvShows++;
             }
-            await new Promise(r => setTimeout(r, 100));
           } catch (e) {
             console.error(`Failed to fetch poster for TV show: ${series.name}`, e);
           }
@@ -0,0 +1,735 @@
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { getTableColumns, getTableName, type Table } from "drizzle-orm";
+import {
+  type User,
+  type InsertUser,
+  type MediaItem,
+  type InsertMediaItem,
+  type TvSeries,
+  type InsertTvSeries,
+  type Movie,
+  type InsertMovie,
+  type OrganizationLog,
+  type InsertOrganizationLog,
+  type ScanJob,
+  type InsertScanJob,
+  type OrganizeJob,
+  type InsertOrganizeJob,
+  type OrganizeJobStatus,
+  type ScanJobStatus,
+  type OrganizeJournalEntry,
+  type InsertOrganizeJournalEntry,
+  type TmdbCacheEntry,
+  type InsertTmdbCacheEntry,
+  users,
+  mediaItems,
+  tvSeries,
+  movies,
+  organizationLogs,
+  scanJobs,
+  organizeJobs,
+  organizeJournal,
+  tmdbCache,
+} from "@shared/schema";
+import { normalizeForComparison } from "@shared/nameSimilarity";
+import type { IStorage, DuplicateGroup, StorageSnapshot } from "./storage";
+import { DEFAULT_SETTINGS, groupExactDuplicates } from "./storageShared";
+import { DuplicateIndex } from "./duplicateIndex";
+
+type Row = Record<string, unknown>;
+
+// Schema migrations, applied in order and tracked with PRAGMA user_version.
+// Column names mirror the PostgreSQL tables in shared/schema.ts so rows can be
+// mapped with the drizzle column metadata. Timestamps are stored as epoch
+// milliseconds, booleans as 0/1 and arrays/JSON as JSON text.
+// Only ever append new migrations - never edit one that has already shipped.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    password TEXT NOT NULL
+  );
+
+  CREATE TABLE media_items (
+    id TEXT PRIMARY KEY,
+    original_filename TEXT NOT NULL,
+    original_path TEXT NOT NULL,
+    file_size TEXT,
+    extension TEXT,
+    detected_type TEXT DEFAULT 'unknown',
+    detected_name TEXT,
+    cleaned_name TEXT,
+    tmdb_id INTEGER,
+    tmdb_name TEXT,
+    poster_path TEXT,
+    year INTEGER,
+    season INTEGER,
+    episode INTEGER,
+    episode_title TEXT,
+    status TEXT DEFAULT 'pending',
+    destination_path TEXT,
+    confidence INTEGER DEFAULT 0,
+    duplicate_of TEXT,
+    created_at INTEGER
+  );
+  CREATE INDEX media_items_original_path_idx ON media_items (original_path);
+  CREATE INDEX media_items_original_filename_idx ON media_items (original_filename);
+  CREATE INDEX media_items_status_idx ON media_items (status);
+
+  CREATE TABLE tv_series (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    cleaned_name TEXT NOT NULL,
+    year INTEGER,
+    total_seasons INTEGER DEFAULT 1,
+    total_episodes INTEGER DEFAULT 0,
+    folder_path TEXT,
+    tmdb_id INTEGER,
+    poster_path TEXT
+  );
+
+  CREATE TABLE movies (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    cleaned_name TEXT NOT NULL,
+    year INTEGER,
+    file_path TEXT,
+    tmdb_id INTEGER,
+    poster_path TEXT
+  );
+
+  CREATE TABLE organization_logs (
+    id TEXT PRIMARY KEY,
+    media_item_id TEXT,
+    action TEXT NOT NULL,
+    from_path TEXT,
+    to_path TEXT,
+    success INTEGER DEFAULT 1,
+    message TEXT,
+    created_at INTEGER
+  );
+
+  CREATE TABLE settings (
+    id TEXT PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE scan_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT DEFAULT 'pending',
+    total_files INTEGER DEFAULT 0,
+    processed_files INTEGER DEFAULT 0,
+    new_items INTEGER DEFAULT 0,
+    current_folder TEXT,
+    error TEXT,
+    started_at INTEGER,
+    completed_at INTEGER
+  );
+
+  CREATE TABLE organize_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT DEFAULT 'pending',
+    total_files INTEGER DEFAULT 0,
+    processed_files INTEGER DEFAULT 0,
+    success_count INTEGER DEFAULT 0,
+    failed_count INTEGER DEFAULT 0,
+    current_file TEXT,
+    error TEXT,
+    started_at INTEGER,
+    completed_at INTEGER
+  );
+
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  `,
+  // Multi-episode files
+  `
+  ALTER TABLE media_items ADD COLUMN episodes TEXT;
+  `,
+  // Air-date episodes for daily shows
+  `
+  ALTER TABLE media_items ADD COLUMN air_date TEXT;
+  `,
+  // Anime absolute numbering
+  `
+  ALTER TABLE media_items ADD COLUMN absolute_episode INTEGER;
+  ALTER TABLE media_items ADD COLUMN crc32 TEXT;
+  ALTER TABLE media_items ADD COLUMN is_anime INTEGER DEFAULT 0;
+  `,
+  // Multi-part movies
+  `
+  ALTER TABLE media_items ADD COLUMN part_number INTEGER;
+  `,
+  // Movie editions
+  `
+  ALTER TABLE media_items ADD COLUMN edition TEXT;
+  `,
+  // Release quality attributes
+  `
+  ALTER TABLE media_items ADD COLUMN quality TEXT;
+  `,
+  // Content fingerprints for exact duplicate detection
+  `
+  ALTER TABLE media_items ADD COLUMN fingerprint TEXT;
+  `,
+  // Matches against files already in the destination libraries
+  `
+  ALTER TABLE media_items ADD COLUMN library_match TEXT;
+  `,
+  // Multi-version movies
+  `
+  ALTER TABLE media_items ADD COLUMN version_label TEXT;
+  `,
+  // Organize job journal for rollback
+  `
+  CREATE TABLE organize_journal (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    media_item_id TEXT,
+    sequence INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    from_path TEXT,
+    to_path TEXT,
+    file_size TEXT,
+    undone_at INTEGER,
+    created_at INTEGER
+  );
+  CREATE INDEX organize_journal_job_id ON organize_journal (job_id);
+  `,
+  // Copy / link transfer modes
+  `
+  ALTER TABLE media_items ADD COLUMN source_path TEXT;
+  ALTER TABLE organization_logs ADD COLUMN transfer_mode TEXT;
+  `,
+  // TMDB response cache
+  `
+  CREATE TABLE tmdb_cache (
+    id TEXT PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    body TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  `,
+  // Metadata provider of each match
+  `
+  ALTER TABLE media_items ADD COLUMN metadata_provider TEXT;
+  ALTER TABLE media_items ADD COLUMN metadata_id TEXT;
+  `,
+  // Match ranking and review hold
+  `
+  ALTER TABLE media_items ADD COLUMN match_score INTEGER;
+  ALTER TABLE media_items ADD COLUMN match_candidates TEXT;
+  ALTER TABLE media_items ADD COLUMN needs_review INTEGER DEFAULT 0;
+  `,
+  // Media items of displaced library files, for rollback
+  `
+  ALTER TABLE organize_journal ADD COLUMN displaced_item TEXT;
+  `,
+];
+
+// Helper: convert a JS value into its SQLite representation for a drizzle column type
+function toSqlValue(columnType: string, value: unknown): unknown {
+  if (value === null) return null;
+  switch (columnType) {
+    case "PgTimestamp":
+      return new Date(value as string | Date).getTime();
+    case "PgBoolean":
+      return value ? 1 : 0;
+    case "PgArray":
+    case "PgJson":
+    case "PgJsonb":
+      return JSON.stringify(value);
+    default:
+      return value;
+  }
+}
+
+// Helper: convert an SQLite value back into its JS representation
+function fromSqlValue(columnType: string, value: unknown): unknown {
+  switch (columnType) {
+    case "PgTimestamp":
+      return new Date(value as number);
+    case "PgBoolean":
+      return value === 1;
+    case "PgArray":
+    case "PgJson":
+    case "PgJsonb":
+      return JSON.parse(value as string);
+    default:
+      return value;
+  }
+}
+
+// Helper: map a drizzle-shaped object (camelCase keys) to an SQLite row (snake_case columns)
+function toRow(table: Table, values: Row): Row {
+  const row: Row = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (values[key] === undefined) continue;
+    row[column.name] = toSqlValue(column.columnType, values[key]);
+  }
+  return row;
+}
+
+// Helper: map an SQLite row back to the drizzle-shaped object
+function fromRow<T>(table: Table, row: unknown): T | undefined {
+  if (!row) return undefined;
+  const result: Row = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    const value = (row as Row)[column.name];
+    result[key] = value === null || value === undefined
+      ? null
+      : fromSqlValue(column.columnType, value);
+  }
+  return result as T;
+}
+
+// SQLite-backed storage for single-container deployments.
+// The database file lives on a mounted data volume (SQLITE_PATH); on first start
+// a JSON snapshot exported from MemStorage is imported if one is present.
+export class SqliteStorage implements IStorage {
+  private db: Database.Database;
+  private duplicateIndex = new DuplicateIndex();
+
+  constructor(filePath: string, importPath?: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+
+    this.migrate();
+    this.importSnapshotOnce(
+      importPath || path.join(path.dirname(filePath), "memstorage-snapshot.json")
+    );
+  }
+
+  // Apply any migrations newer than the database's user_version
+  private migrate() {
+    const current = this.db.pragma("user_version", { simple: true }) as number;
+
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.pragma(`user_version = ${version + 1}`);
+      })();
+      console.log(`[SQLite] Applied migration ${version + 1}`);
+    }
+  }
+
+  // Import a MemStorage JSON snapshot exactly once, then rename the file
+  private importSnapshotOnce(importPath: string) {
+    if (!fs.existsSync(importPath)) return;
+
+    const imported = this.db
+      .prepare(`SELECT value FROM meta WHERE key = 'snapshotImportedAt'`)
+      .get();
+    if (imported) {
+      console.log(`[SQLite] Snapshot already imported, ignoring ${importPath}`);
+      return;
+    }
+
+    const snapshot = JSON.parse(fs.readFileSync(importPath, "utf-8")) as StorageSnapshot;
+
+    this.db.transaction(() => {
+      this.importRows(users, snapshot.users);
+      this.importRows(mediaItems, snapshot.mediaItems);
+      this.importRows(tvSeries, snapshot.tvSeries);
+      this.importRows(movies, snapshot.movies);
+      this.importRows(organizationLogs, snapshot.logs);
+      this.importRows(scanJobs, snapshot.scanJobs);
+      this.importRows(organizeJobs, snapshot.organizeJobs);
+      this.importRows(organizeJournal, snapshot.organizeJournal);
+      for (const [key, value] of Object.entries(snapshot.settings || {})) {
+        this.upsertSetting(key, value);
+      }
+      this.db
+        .prepare(`INSERT INTO meta (key, value) VALUES ('snapshotImportedAt', ?)`)
+        .run(new Date().toISOString());
+    })();
+
+    fs.renameSync(importPath, `${importPath}.imported`);
+    console.log(
+      `[SQLite] Imported snapshot: ${snapshot.mediaItems?.length || 0} media items, ` +
+      `${snapshot.tvSeries?.length || 0} series, ${snapshot.movies?.length || 0} movies`
+    );
+  }
+
+  private importRows(table: Table, rows: Row[] | undefined) {
+    for (const values of rows || []) {
+      const row = toRow(table, values);
+      const columns = Object.keys(row);
+      this.db
+        .prepare(
+          `INSERT OR IGNORE INTO ${getTableName(table)} (${columns.map((c) => `"${c}"`).join(", ")}) ` +
+          `VALUES (${columns.map(() => "?").join(", ")})`
+        )
+        .run(...Object.values(row));
+    }
+  }
+
+  // Generic helpers shared by all tables
+  private insert<T>(table: Table, values: Row): T {
+    const row = toRow(table, values);
+    const columns = Object.keys(row);
+    const created = this.db
+      .prepare(
+        `INSERT INTO ${getTableName(table)} (${columns.map((c) => `"${c}"`).join(", ")}) ` +
+        `VALUES (${columns.map(() => "?").join(", ")}) RETURNING *`
+      )
+      .get(...Object.values(row));
+    return fromRow<T>(table, created)!;
+  }
+
+  // onlyIfStatus limits the update to rows in one of those statuses (jobs)
+  private update<T>(table: Table, id: string, updates: Row, onlyIfStatus?: string[]): T | undefined {
+    const { id: _id, ...rest } = updates;
+    const row = toRow(table, rest);
+    const columns = Object.keys(row);
+    if (columns.length === 0) return this.findOne<T>(table, "id", id);
+
+    const statusClause = onlyIfStatus ? ` AND status IN (${onlyIfStatus.map(() => "?").join(", ")})` : "";
+    const updated = this.db
+      .prepare(
+        `UPDATE ${getTableName(table)} SET ${columns.map((c) => `"${c}" = ?`).join(", ")} ` +
+        `WHERE id = ?${statusClause} RETURNING *`
+      )
+      .get(...Object.values(row), id, ...(onlyIfStatus || []));
+    return fromRow<T>(table, updated);
+  }
+
+  private remove(table: Table, id: string): boolean {
+    const result = this.db.prepare(`DELETE FROM ${getTableName(table)} WHERE id = ?`).run(id);
+    return result.changes > 0;
+  }
+
+  private findOne<T>(table: Table, column: string, value: unknown): T | undefined {
+    const row = this.db
+      .prepare(`SELECT * FROM ${getTableName(table)} WHERE "${column}" = ? LIMIT 1`)
+      .get(value);
+    return fromRow<T>(table, row);
+  }
+
+  private findAll<T>(table: Table, clause: string = "", ...params: unknown[]): T[] {
+    return this.db
+      .prepare(`SELECT * FROM ${getTableName(table)} ${clause}`)
+      .all(...params)
+      .map((row) => fromRow<T>(table, row)!);
+  }
+
+  private upsertSetting(key: string, value: string) {
+    this.db
+      .prepare(
+        `INSERT INTO settings (id, key, value) VALUES (?, ?, ?) ` +
+        `ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+      )
+      .run(randomUUID(), key, value);
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.findOne<User>(users, "id", id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.findOne<User>(users, "username", username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.insert<User>(users, { ...insertUser, id: randomUUID() });
+  }
+
+  // Media Items
+  async getAllMediaItems(): Promise<MediaItem[]> {
+    return this.findAll<MediaItem>(mediaItems, "ORDER BY created_at DESC");
+  }
+
+  async getMediaItemById(id: string): Promise<MediaItem | undefined> {
+    return this.findOne<MediaItem>(mediaItems, "id", id);
+  }
+
+  async getMediaItemByFilename(filename: string): Promise<MediaItem | undefined> {
+    return this.findOne<MediaItem>(mediaItems, "original_filename", filename);
+  }
+
+  async getMediaItemByPath(originalPath: string): Promise<MediaItem | undefined> {
+    return this.findOne<MediaItem>(mediaItems, "original_path", originalPath);
+  }
+
+  async getPendingMediaItems(): Promise<MediaItem[]> {
+    return this.findAll<MediaItem>(mediaItems, "WHERE status = ?", "pending");
+  }
+
+  async createMediaItem(item: InsertMediaItem): Promise<MediaItem> {
+    const created = this.insert<MediaItem>(mediaItems, {
+      ...item,
+      id: randomUUID(),
+      createdAt: new Date(),
+    });
+    this.duplicateIndex.upsert(created);
+    return created;
+  }
+
+  async updateMediaItem(
+    id: string,
+    updates: Partial<MediaItem>
+  ): Promise<MediaItem | undefined> {
+    const updated = this.update<MediaItem>(mediaItems, id, updates);
+    if (updated) this.duplicateIndex.upsert(updated);
+    return updated;
+  }
+
+  async deleteMediaItem(id: string): Promise<boolean> {
+    this.duplicateIndex.remove(id);
+    return this.remove(mediaItems, id);
+  }
+
+  async bulkDeleteMediaItems(ids: string[]): Promise<number> {
+    const deleteMany = this.db.transaction((toDelete: string[]) => {
+      let count = 0;
+      for (const id of toDelete) {
+        this.duplicateIndex.remove(id);
+        if (this.remove(mediaItems, id)) {
+          count++;
+        }
+      }
+      return count;
+    });
+    return deleteMany(ids);
+  }
+
+  // TV Series
+  async getAllTvSeries(): Promise<TvSeries[]> {
+    return this.findAll<TvSeries>(tvSeries);
+  }
+
+  async getTvSeriesById(id: string): Promise<TvSeries | undefined> {
+    return this.findOne<TvSeries>(tvSeries, "id", id);
+  }
+
+  async getTvSeriesByName(name: string): Promise<TvSeries | undefined> {
+    const normalizedName = normalizeForComparison(name);
+    return this.findAll<TvSeries>(tvSeries).find(
+      (series) => normalizeForComparison(series.name) === normalizedName
+    );
+  }
+
+  async createTvSeries(series: InsertTvSeries): Promise<TvSeries> {
+    return this.insert<TvSeries>(tvSeries, { ...series, id: randomUUID() });
+  }
+
+  async updateTvSeries(
+    id: string,
+    updates: Partial<TvSeries>
+  ): Promise<TvSeries | undefined> {
+    return this.update<TvSeries>(tvSeries, id, updates);
+  }
+
+  async deleteTvSeries(id: string): Promise<boolean> {
+    return this.remove(tvSeries, id);
+  }
+
+  // Movies
+  async getAllMovies(): Promise<Movie[]> {
+    return this.findAll<Movie>(movies);
+  }
+
+  async getMovieById(id: string): Promise<Movie | undefined> {
+    return this.findOne<Movie>(movies, "id", id);
+  }
+
+  async getMovieByName(name: string): Promise<Movie | undefined> {
+    const normalizedName = normalizeForComparison(name);
+    return this.findAll<Movie>(movies).find(
+      (movie) => normalizeForComparison(movie.name) === normalizedName
+    );
+  }
+
+  async createMovie(movie: InsertMovie): Promise<Movie> {
+    return this.insert<Movie>(movies, { ...movie, id: randomUUID() });
+  }
+
+  async updateMovie(
+    id: string,
+    updates: Partial<Movie>
+  ): Promise<Movie | undefined> {
+    return this.update<Movie>(movies, id, updates);
+  }
+
+  async deleteMovie(id: string): Promise<boolean> {
+    return this.remove(movies, id);
+  }
+
+  // Organization Logs
+  async getAllLogs(): Promise<OrganizationLog[]> {
+    return this.findAll<OrganizationLog>(organizationLogs, "ORDER BY created_at DESC");
+  }
+
+  async createLog(log: InsertOrganizationLog): Promise<OrganizationLog> {
+    return this.insert<OrganizationLog>(organizationLogs, {
+      ...log,
+      id: randomUUID(),
+      createdAt: new Date(),
+    });
+  }
+
+  // Settings
+  async getSetting(key: string): Promise<string | undefined> {
+    const row = this.db.prepare(`SELECT value FROM settings WHERE key = ?`).get(key) as
+      | { value: string }
+      | undefined;
+    return row ? row.value : DEFAULT_SETTINGS[key];
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    this.upsertSetting(key, value);
+  }
+
+  async getAllSettings(): Promise<Record<string, string>> {
+    const result: Record<string, string> = { ...DEFAULT_SETTINGS };
+    const rows = this.db.prepare(`SELECT key, value FROM settings`).all() as Array<{
+      key: string;
+      value: string;
+    }>;
+    for (const row of rows) {
+      result[row.key] = row.value;
+    }
+    return result;
+  }
+
+  // Duplicate detection (part of IStorage interface)
+  async findDuplicates(threshold: number = 80): Promise<DuplicateGroup[]> {
+    return this.duplicateIndex.find(threshold, () => this.getAllMediaItems());
+  }
+
+  async findExactDuplicates(): Promise<DuplicateGroup[]> {
+    return groupExactDuplicates(await this.getAllMediaItems());
+  }
+
+  // Scan Jobs
+  async createScanJob(job: InsertScanJob): Promise<ScanJob> {
+    return this.insert<ScanJob>(scanJobs, {
+      ...job,
+      id: randomUUID(),
+      startedAt: new Date(),
+    });
+  }
+
+  async getScanJob(id: string): Promise<ScanJob | undefined> {
+    return this.findOne<ScanJob>(scanJobs, "id", id);
+  }
+
+  async getActiveScanJob(): Promise<ScanJob | undefined> {
+    return this.findAll<ScanJob>(
+      scanJobs,
+      "WHERE status IN ('pending', 'running', 'paused') LIMIT 1"
+    )[0];
+  }
+
+  async updateScanJob(
+    id: string,
+    updates: Partial<ScanJob>,
+    onlyIfStatus?: ScanJobStatus[]
+  ): Promise<ScanJob | undefined> {
+    return this.update<ScanJob>(scanJobs, id, updates, onlyIfStatus);
+  }
+
+  // Organize Jobs
+  async createOrganizeJob(job: InsertOrganizeJob): Promise<OrganizeJob> {
+    return this.insert<OrganizeJob>(organizeJobs, {
+      ...job,
+      id: randomUUID(),
+      startedAt: new Date(),
+    });
+  }
+
+  async getOrganizeJob(id: string): Promise<OrganizeJob | undefined> {
+    return this.findOne<OrganizeJob>(organizeJobs, "id", id);
+  }
+
+  async getActiveOrganizeJob(): Promise<OrganizeJob | undefined> {
+    return this.findAll<OrganizeJob>(
+      organizeJobs,
+      "WHERE status IN ('pending', 'running', 'paused') LIMIT 1"
+    )[0];
+  }
+
+  async updateOrganizeJob(
+    id: string,
+    updates: Partial<OrganizeJob>,
+    onlyIfStatus?: OrganizeJobStatus[]
+  ): Promise<OrganizeJob | undefined> {
+    return this.update<OrganizeJob>(organizeJobs, id, updates, onlyIfStatus);
+  }
+
+  async getRecentOrganizeJobs(limit: number): Promise<OrganizeJob[]> {
+    return this.findAll<OrganizeJob>(organizeJobs, "ORDER BY started_at DESC LIMIT ?", limit);
+  }
+
+  // Organize Journal
+  async addJournalEntry(entry: InsertOrganizeJournalEntry): Promise<OrganizeJournalEntry> {
+    return this.insert<OrganizeJournalEntry>(organizeJournal, {
+      ...entry,
+      id: randomUUID(),
+      createdAt: new Date(),
+    });
+  }
+
+  async getJournalEntries(jobId: string): Promise<OrganizeJournalEntry[]> {
+    return this.findAll<OrganizeJournalEntry>(
+      organizeJournal,
+      "WHERE job_id = ? ORDER BY sequence",
+      jobId
+    );
+  }
+
+  async updateJournalEntry(
+    id: string,
+    updates: Partial<OrganizeJournalEntry>
+  ): Promise<OrganizeJournalEntry | undefined> {
+    return this.update<OrganizeJournalEntry>(organizeJournal, id, updates);
+  }
+
+  // TMDB response cache
+  async getTmdbCacheEntry(key: string): Promise<TmdbCacheEntry | undefined> {
+    return this.findAll<TmdbCacheEntry>(
+      tmdbCache,
+      "WHERE key = ? AND expires_at > ? LIMIT 1",
+      key,
+      Date.now()
+    )[0];
+  }
+
+  async setTmdbCacheEntry(entry: InsertTmdbCacheEntry): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO tmdb_cache (id, key, body, expires_at) VALUES (?, ?, ?, ?) ` +
+        `ON CONFLICT(key) DO UPDATE SET body = excluded.body, expires_at = excluded.expires_at`
+      )
+      .run(randomUUID(), entry.key, entry.body, entry.expiresAt.getTime());
+  }
+
+  async deleteExpiredTmdbCacheEntries(): Promise<number> {
+    return this.db.prepare(`DELETE FROM tmdb_cache WHERE expires_at <= ?`).run(Date.now()).changes;
+  }
+
+  // Snapshot
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      mediaItems: await this.getAllMediaItems(),
+      tvSeries: await this.getAllTvSeries(),
+      movies: await this.getAllMovies(),
+      logs: await this.getAllLogs(),
+      settings: await this.getAllSettings(),
+      scanJobs: this.findAll<ScanJob>(scanJobs),
+      organizeJobs: this.findAll<OrganizeJob>(organizeJobs),
+      organizeJournal: this.findAll<OrganizeJournalEntry>(organizeJournal),
+    };
+  }
+}
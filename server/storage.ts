@@ -14,10 +14,33 @@ import {
   type ScanJob,
   type InsertScanJob,
   type OrganizeJob,
+  type OrganizeJobStatus,
+  type ScanJobStatus,
+  type MediaQuality,
   type InsertOrganizeJob,
-  RELEASE_GROUPS,
+  type OrganizeJournalEntry,
+  type InsertOrganizeJournalEntry,
+  type JournalAction,
+  type TmdbCacheEntry,
+  type InsertTmdbCacheEntry,
+  users,
+  mediaItems,
+  tvSeries,
+  movies,
+  organizationLogs,
+  settings,
+  scanJobs,
+  organizeJobs,
+  organizeJournal,
+  tmdbCache,
 } from "@shared/schema";
+import { normalizeForComparison } from "@shared/nameSimilarity";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, inArray, lte, or } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { SqliteStorage } from "./sqliteStorage";
+import { DEFAULT_SETTINGS, groupExactDuplicates } from "./storageShared";
+import { DuplicateIndex } from "./duplicateIndex";
 
 // Duplicate group type
 export interface DuplicateItem {
@@ -27,12 +50,39 @@ export interface DuplicateItem {
   similarity: number;
   isOriginal: boolean;
   fileSize?: string;
+  quality?: MediaQuality | null;
+  detectedType?: string | null;
+  status?: string | null;
+  // Set for movies deliberately kept as an additional version
+  versionLabel?: string | null;
+  // Filled in by rankDuplicateGroup (server/qualityRanking.ts)
+  score?: number;
+  reasons?: string[];
 }
 
 export interface DuplicateGroup {
   groupId: string;
   baseName: string;
   items: DuplicateItem[];
+  recommendedKeeperId?: string;
+}
+
+// Full dump of a storage backend, used for backups and moving between backends
+export interface StorageSnapshot {
+  version: 1;
+  exportedAt: string;
+  // User accounts (and their passwords) are never exported; only snapshots written by
+  // older versions carry them
+  users?: User[];
+  mediaItems: MediaItem[];
+  tvSeries: TvSeries[];
+  movies: Movie[];
+  logs: OrganizationLog[];
+  settings: Record<string, string>;
+  scanJobs: ScanJob[];
+  organizeJobs: OrganizeJob[];
+  // Missing in snapshots taken before the journal existed
+  organizeJournal?: OrganizeJournalEntry[];
 }
 
 export interface IStorage {
@@ -79,88 +129,39 @@ export interface IStorage {
 
   // Duplicate Detection
   findDuplicates(threshold?: number): Promise<DuplicateGroup[]>;
+  findExactDuplicates(): Promise<DuplicateGroup[]>;
 
   // Scan Jobs
   createScanJob(job: InsertScanJob): Promise<ScanJob>;
   getScanJob(id: string): Promise<ScanJob | undefined>;
   getActiveScanJob(): Promise<ScanJob | undefined>;
-  updateScanJob(id: string, updates: Partial<ScanJob>): Promise<ScanJob | undefined>;
+  // With onlyIfStatus the update applies only while the job is in one of those statuses
+  // (undefined otherwise), so a background loop can't overwrite a pause or cancel
+  updateScanJob(id: string, updates: Partial<ScanJob>, onlyIfStatus?: ScanJobStatus[]): Promise<ScanJob | undefined>;
 
   // Organize Jobs
   createOrganizeJob(job: InsertOrganizeJob): Promise<OrganizeJob>;
   getOrganizeJob(id: string): Promise<OrganizeJob | undefined>;
   getActiveOrganizeJob(): Promise<OrganizeJob | undefined>;
-  updateOrganizeJob(id: string, updates: Partial<OrganizeJob>): Promise<OrganizeJob | undefined>;
-}
-
-// Helper: clean filename for comparison
-function cleanFilename(filename: string): string {
-  let cleaned = filename;
-
-  const extMatch = filename.match(/\.[a-zA-Z0-9]{2,4}$/);
-  if (extMatch) {
-    cleaned = cleaned.slice(0, -extMatch[0].length);
-  }
-
-  cleaned = cleaned.replace(/[._]/g, " ");
-  cleaned = cleaned.replace(/\[.*?\]/g, " ");
-  cleaned = cleaned.replace(/\((?!(?:19|20)\d{2}\))[^)]*\)/g, " ");
-
-  for (const group of RELEASE_GROUPS) {
-    const regex = new RegExp(`\\b${group}\\b`, "gi");
-    cleaned = cleaned.replace(regex, " ");
-  }
-
-  cleaned = cleaned.replace(/\s+/g, " ").trim();
-  return cleaned;
-}
-
-// Helper: normalize for comparison
-function normalizeForComparison(name: string): string {
-  return cleanFilename(name)
-    .toLowerCase()
-    .replace(/[^a-z0-9]/g, "")
-    .trim();
-}
-
-// Helper: calculate similarity
-function calculateSimilarity(str1: string, str2: string): number {
-  const s1 = normalizeForComparison(str1);
-  const s2 = normalizeForComparison(str2);
-
-  if (s1 === s2) return 100;
-  if (s1.length === 0 || s2.length === 0) return 0;
-
-  if (s1.includes(s2) || s2.includes(s1)) {
-    const minLen = Math.min(s1.length, s2.length);
-    const maxLen = Math.max(s1.length, s2.length);
-    return Math.round((minLen / maxLen) * 100);
-  }
-
-  const matrix: number[][] = [];
-
-  for (let i = 0; i <= s1.length; i++) {
-    matrix[i] = [i];
-  }
-
-  for (let j = 0; j <= s2.length; j++) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= s1.length; i++) {
-    for (let j = 1; j <= s2.length; j++) {
-      const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1,
-        matrix[i][j - 1] + 1,
-        matrix[i - 1][j - 1] + cost
-      );
-    }
-  }
-
-  const maxLen = Math.max(s1.length, s2.length);
-  const distance = matrix[s1.length][s2.length];
-  return Math.round(((maxLen - distance) / maxLen) * 100);
+  updateOrganizeJob(
+    id: string,
+    updates: Partial<OrganizeJob>,
+    onlyIfStatus?: OrganizeJobStatus[]
+  ): Promise<OrganizeJob | undefined>;
+  getRecentOrganizeJobs(limit: number): Promise<OrganizeJob[]>;
+
+  // Organize Journal (entries of a job are returned in sequence order)
+  addJournalEntry(entry: InsertOrganizeJournalEntry): Promise<OrganizeJournalEntry>;
+  getJournalEntries(jobId: string): Promise<OrganizeJournalEntry[]>;
+  updateJournalEntry(id: string, updates: Partial<OrganizeJournalEntry>): Promise<OrganizeJournalEntry | undefined>;
+
+  // TMDB response cache (expired entries are never returned; setting a key replaces it)
+  getTmdbCacheEntry(key: string): Promise<TmdbCacheEntry | undefined>;
+  setTmdbCacheEntry(entry: InsertTmdbCacheEntry): Promise<void>;
+  deleteExpiredTmdbCacheEntries(): Promise<number>;
+
+  // Snapshot
+  exportSnapshot(): Promise<StorageSnapshot>;
 }
 
 export class MemStorage implements IStorage {
@@ -172,6 +173,9 @@ export class MemStorage implements IStorage {
   private settings: Map<string, string>;
   private scanJobs: Map<string, ScanJob>;
   private organizeJobs: Map<string, OrganizeJob>;
+  private organizeJournal: Map<string, OrganizeJournalEntry>;
+  private tmdbCache: Map<string, TmdbCacheEntry>;
+  private duplicateIndex = new DuplicateIndex();
 
   constructor() {
     this.users = new Map();
@@ -182,14 +186,13 @@ export class MemStorage implements IStorage {
     this.settings = new Map();
     this.scanJobs = new Map();
     this.organizeJobs = new Map();
+    this.organizeJournal = new Map();
+    this.tmdbCache = new Map();
 
     // Set default settings
-    this.settings.set("sourcePath", "/Inbox");
-    this.settings.set("moviesPath", "/Movies");
-    this.settings.set("tvShowsPath", "/TV Shows");
-    this.settings.set("autoOrganize", "false");
-    this.settings.set("removeReleaseGroups", "true");
-    this.settings.set("fuzzyMatchThreshold", "80");
+    for (const [key, value] of Object.entries(DEFAULT_SETTINGS)) {
+      this.settings.set(key, value);
+    }
   }
 
   // Users
@@ -248,6 +251,7 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
     };
     this.mediaItems.set(id, mediaItem);
+    this.duplicateIndex.upsert(mediaItem);
     return mediaItem;
   }
 
@@ -260,16 +264,19 @@ export class MemStorage implements IStorage {
 
     const updated = { ...item, ...updates };
     this.mediaItems.set(id, updated);
+    this.duplicateIndex.upsert(updated);
     return updated;
   }
 
   async deleteMediaItem(id: string): Promise<boolean> {
+    this.duplicateIndex.remove(id);
     return this.mediaItems.delete(id);
   }
 
   async bulkDeleteMediaItems(ids: string[]): Promise<number> {
     let count = 0;
     for (const id of ids) {
+      this.duplicateIndex.remove(id);
       if (this.mediaItems.delete(id)) {
         count++;
       }
@@ -392,112 +399,12 @@ export class MemStorage implements IStorage {
   }
 
   // Duplicate detection (part of IStorage interface)
-  // For TV shows: duplicates must have SAME series + season + episode
-  // For movies: use fuzzy matching on cleaned name
   async findDuplicates(threshold: number = 80): Promise<DuplicateGroup[]> {
-    const items = await this.getAllMediaItems();
-    const groups: Map<
-      string,
-      Array<{
-        id: string;
-        originalFilename: string;
-        cleanedName: string;
-        similarity: number;
-        isOriginal: boolean;
-      }>
-    > = new Map();
-
-    for (const item of items) {
-      const cleanedName = cleanFilename(item.originalFilename);
-      
-      // Create a unique key based on content type
-      let groupKey: string;
-      
-      if (item.detectedType === "tvshow" && item.season !== null && item.episode !== null) {
-        // For TV shows: group by series name + season + episode
-        // Only files with the EXACT same episode are duplicates
-        const seriesName = normalizeForComparison(item.detectedName || item.originalFilename);
-        groupKey = `tv:${seriesName}:s${item.season}e${item.episode}`;
-      } else if (item.detectedType === "movie") {
-        // For movies: use normalized name + year
-        const movieName = normalizeForComparison(item.detectedName || item.originalFilename);
-        groupKey = `movie:${movieName}:${item.year || 'unknown'}`;
-      } else {
-        // For unknown types: use fuzzy matching
-        groupKey = `unknown:${normalizeForComparison(item.originalFilename)}`;
-      }
-
-      // Check if this group already exists
-      if (groups.has(groupKey)) {
-        const groupItems = groups.get(groupKey)!;
-        const firstItem = groupItems[0];
-        const similarity = calculateSimilarity(
-          item.originalFilename,
-          firstItem.originalFilename
-        );
-        
-        groupItems.push({
-          id: item.id,
-          originalFilename: item.originalFilename,
-          cleanedName,
-          similarity,
-          isOriginal: false,
-        });
-      } else {
-        // For unknown types, also check fuzzy matching against existing groups
-        let foundGroup = false;
-        
-        if (item.detectedType !== "tvshow" && item.detectedType !== "movie") {
-          for (const [existingKey, groupItems] of groups) {
-            if (!existingKey.startsWith("unknown:")) continue;
-            
-            const firstItem = groupItems[0];
-            const similarity = calculateSimilarity(
-              item.originalFilename,
-              firstItem.originalFilename
-            );
-
-            if (similarity >= threshold) {
-              groupItems.push({
-                id: item.id,
-                originalFilename: item.originalFilename,
-                cleanedName,
-                similarity,
-                isOriginal: false,
-              });
-              foundGroup = true;
-              break;
-            }
-          }
-        }
-
-        if (!foundGroup) {
-          groups.set(groupKey, [
-            {
-              id: item.id,
-              originalFilename: item.originalFilename,
-              cleanedName,
-              similarity: 100,
-              isOriginal: true,
-            },
-          ]);
-        }
-      }
-    }
-
-    const result: DuplicateGroup[] = [];
-
-    for (const [groupKey, groupItems] of groups) {
-      if (groupItems.length > 1) {
-        result.push({
-          groupId: randomUUID(),
-          baseName: groupItems[0].cleanedName,
-          items: groupItems,
-        });
-      }
-    }
+    return this.duplicateIndex.find(threshold, () => this.getAllMediaItems());
+  }
 
-    return result;
+  async findExactDuplicates(): Promise<DuplicateGroup[]> {
+    return groupExactDuplicates(await this.getAllMediaItems());
   }
 
   // Scan Jobs
@@ -519,13 +426,18 @@ export class MemStorage implements IStorage {
 
   async getActiveScanJob(): Promise<ScanJob | undefined> {
     return Array.from(this.scanJobs.values()).find(
-      (job) => job.status === "pending" || job.status === "running"
+      (job) => job.status === "pending" || job.status === "running" || job.status === "paused"
     );
   }
 
-  async updateScanJob(id: string, updates: Partial<ScanJob>): Promise<ScanJob | undefined> {
+  async updateScanJob(
+    id: string,
+    updates: Partial<ScanJob>,
+    onlyIfStatus?: ScanJobStatus[]
+  ): Promise<ScanJob | undefined> {
     const job = this.scanJobs.get(id);
     if (!job) return undefined;
+    if (onlyIfStatus && !onlyIfStatus.includes(job.status as ScanJobStatus)) return undefined;
     const updated = { ...job, ...updates };
     this.scanJobs.set(id, updated);
     return updated;
@@ -550,17 +462,501 @@ export class MemStorage implements IStorage {
 
   async getActiveOrganizeJob(): Promise<OrganizeJob | undefined> {
     return Array.from(this.organizeJobs.values()).find(
-      (job) => job.status === "pending" || job.status === "running"
+      (job) => job.status === "pending" || job.status === "running" || job.status === "paused"
     );
   }
 
-  async updateOrganizeJob(id: string, updates: Partial<OrganizeJob>): Promise<OrganizeJob | undefined> {
+  async updateOrganizeJob(
+    id: string,
+    updates: Partial<OrganizeJob>,
+    onlyIfStatus?: OrganizeJobStatus[]
+  ): Promise<OrganizeJob | undefined> {
     const job = this.organizeJobs.get(id);
     if (!job) return undefined;
+    if (onlyIfStatus && !onlyIfStatus.includes(job.status as OrganizeJobStatus)) return undefined;
     const updated = { ...job, ...updates };
     this.organizeJobs.set(id, updated);
     return updated;
   }
+
+  async getRecentOrganizeJobs(limit: number): Promise<OrganizeJob[]> {
+    return Array.from(this.organizeJobs.values())
+      .sort((a, b) => new Date(b.startedAt || 0).getTime() - new Date(a.startedAt || 0).getTime())
+      .slice(0, limit);
+  }
+
+  // Organize Journal
+  async addJournalEntry(entry: InsertOrganizeJournalEntry): Promise<OrganizeJournalEntry> {
+    const id = randomUUID();
+    const journalEntry: OrganizeJournalEntry = {
+      id,
+      jobId: entry.jobId,
+      mediaItemId: entry.mediaItemId ?? null,
+      sequence: entry.sequence,
+      action: entry.action as JournalAction,
+      fromPath: entry.fromPath ?? null,
+      toPath: entry.toPath ?? null,
+      fileSize: entry.fileSize ?? null,
+      displacedItem: (entry.displacedItem as MediaItem | null | undefined) ?? null,
+      undoneAt: null,
+      createdAt: new Date(),
+    };
+    this.organizeJournal.set(id, journalEntry);
+    return journalEntry;
+  }
+
+  async getJournalEntries(jobId: string): Promise<OrganizeJournalEntry[]> {
+    return Array.from(this.organizeJournal.values())
+      .filter((entry) => entry.jobId === jobId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async updateJournalEntry(
+    id: string,
+    updates: Partial<OrganizeJournalEntry>
+  ): Promise<OrganizeJournalEntry | undefined> {
+    const entry = this.organizeJournal.get(id);
+    if (!entry) return undefined;
+    const updated = { ...entry, ...updates };
+    this.organizeJournal.set(id, updated);
+    return updated;
+  }
+
+  // TMDB response cache
+  async getTmdbCacheEntry(key: string): Promise<TmdbCacheEntry | undefined> {
+    const entry = this.tmdbCache.get(key);
+    return entry && entry.expiresAt > new Date() ? entry : undefined;
+  }
+
+  async setTmdbCacheEntry(entry: InsertTmdbCacheEntry): Promise<void> {
+    const existing = this.tmdbCache.get(entry.key);
+    this.tmdbCache.set(entry.key, { ...entry, id: existing?.id ?? randomUUID() });
+  }
+
+  async deleteExpiredTmdbCacheEntries(): Promise<number> {
+    const now = new Date();
+    let count = 0;
+    this.tmdbCache.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.tmdbCache.delete(key);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  // Snapshot
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      mediaItems: Array.from(this.mediaItems.values()),
+      tvSeries: Array.from(this.tvSeries.values()),
+      movies: Array.from(this.movies.values()),
+      logs: Array.from(this.logs.values()),
+      settings: await this.getAllSettings(),
+      scanJobs: Array.from(this.scanJobs.values()),
+      organizeJobs: Array.from(this.organizeJobs.values()),
+      organizeJournal: Array.from(this.organizeJournal.values()),
+    };
+  }
+}
+
+// PostgreSQL-backed storage using the drizzle schema in shared/schema.ts
+// Tables are created with `npm run db:push`
+export class DbStorage implements IStorage {
+  private duplicateIndex = new DuplicateIndex();
+
+  constructor(private db: Database) {}
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Media Items
+  async getAllMediaItems(): Promise<MediaItem[]> {
+    return this.db.select().from(mediaItems).orderBy(desc(mediaItems.createdAt));
+  }
+
+  async getMediaItemById(id: string): Promise<MediaItem | undefined> {
+    const [item] = await this.db.select().from(mediaItems).where(eq(mediaItems.id, id));
+    return item;
+  }
+
+  async getMediaItemByFilename(filename: string): Promise<MediaItem | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(mediaItems)
+      .where(eq(mediaItems.originalFilename, filename))
+      .limit(1);
+    return item;
+  }
+
+  async getMediaItemByPath(originalPath: string): Promise<MediaItem | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(mediaItems)
+      .where(eq(mediaItems.originalPath, originalPath))
+      .limit(1);
+    return item;
+  }
+
+  async getPendingMediaItems(): Promise<MediaItem[]> {
+    return this.db.select().from(mediaItems).where(eq(mediaItems.status, "pending"));
+  }
+
+  async createMediaItem(item: InsertMediaItem): Promise<MediaItem> {
+    const [created] = await this.db
+      .insert(mediaItems)
+      .values(item as typeof mediaItems.$inferInsert)
+      .returning();
+    this.duplicateIndex.upsert(created);
+    return created;
+  }
+
+  async updateMediaItem(
+    id: string,
+    updates: Partial<MediaItem>
+  ): Promise<MediaItem | undefined> {
+    const [updated] = await this.db
+      .update(mediaItems)
+      .set(updates)
+      .where(eq(mediaItems.id, id))
+      .returning();
+    if (updated) this.duplicateIndex.upsert(updated);
+    return updated;
+  }
+
+  async deleteMediaItem(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(mediaItems)
+      .where(eq(mediaItems.id, id))
+      .returning({ id: mediaItems.id });
+    this.duplicateIndex.remove(id);
+    return deleted.length > 0;
+  }
+
+  async bulkDeleteMediaItems(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const deleted = await this.db
+      .delete(mediaItems)
+      .where(inArray(mediaItems.id, ids))
+      .returning({ id: mediaItems.id });
+    deleted.forEach((row) => this.duplicateIndex.remove(row.id));
+    return deleted.length;
+  }
+
+  // TV Series
+  async getAllTvSeries(): Promise<TvSeries[]> {
+    return this.db.select().from(tvSeries);
+  }
+
+  async getTvSeriesById(id: string): Promise<TvSeries | undefined> {
+    const [series] = await this.db.select().from(tvSeries).where(eq(tvSeries.id, id));
+    return series;
+  }
+
+  async getTvSeriesByName(name: string): Promise<TvSeries | undefined> {
+    // Same normalized matching as MemStorage, so both backends agree
+    const normalizedName = normalizeForComparison(name);
+    const allSeries = await this.getAllTvSeries();
+    return allSeries.find(
+      (series) => normalizeForComparison(series.name) === normalizedName
+    );
+  }
+
+  async createTvSeries(series: InsertTvSeries): Promise<TvSeries> {
+    const [created] = await this.db.insert(tvSeries).values(series).returning();
+    return created;
+  }
+
+  async updateTvSeries(
+    id: string,
+    updates: Partial<TvSeries>
+  ): Promise<TvSeries | undefined> {
+    const [updated] = await this.db
+      .update(tvSeries)
+      .set(updates)
+      .where(eq(tvSeries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTvSeries(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(tvSeries)
+      .where(eq(tvSeries.id, id))
+      .returning({ id: tvSeries.id });
+    return deleted.length > 0;
+  }
+
+  // Movies
+  async getAllMovies(): Promise<Movie[]> {
+    return this.db.select().from(movies);
+  }
+
+  async getMovieById(id: string): Promise<Movie | undefined> {
+    const [movie] = await this.db.select().from(movies).where(eq(movies.id, id));
+    return movie;
+  }
+
+  async getMovieByName(name: string): Promise<Movie | undefined> {
+    const normalizedName = normalizeForComparison(name);
+    const allMovies = await this.getAllMovies();
+    return allMovies.find(
+      (movie) => normalizeForComparison(movie.name) === normalizedName
+    );
+  }
+
+  async createMovie(movie: InsertMovie): Promise<Movie> {
+    const [created] = await this.db.insert(movies).values(movie).returning();
+    return created;
+  }
+
+  async updateMovie(
+    id: string,
+    updates: Partial<Movie>
+  ): Promise<Movie | undefined> {
+    const [updated] = await this.db
+      .update(movies)
+      .set(updates)
+      .where(eq(movies.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteMovie(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(movies)
+      .where(eq(movies.id, id))
+      .returning({ id: movies.id });
+    return deleted.length > 0;
+  }
+
+  // Organization Logs
+  async getAllLogs(): Promise<OrganizationLog[]> {
+    return this.db
+      .select()
+      .from(organizationLogs)
+      .orderBy(desc(organizationLogs.createdAt));
+  }
+
+  async createLog(log: InsertOrganizationLog): Promise<OrganizationLog> {
+    const [created] = await this.db
+      .insert(organizationLogs)
+      .values(log as typeof organizationLogs.$inferInsert)
+      .returning();
+    return created;
+  }
+
+  // Settings
+  async getSetting(key: string): Promise<string | undefined> {
+    const [row] = await this.db.select().from(settings).where(eq(settings.key, key));
+    return row ? row.value : DEFAULT_SETTINGS[key];
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    await this.db
+      .insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: settings.key, set: { value } });
+  }
+
+  async getAllSettings(): Promise<Record<string, string>> {
+    const result: Record<string, string> = { ...DEFAULT_SETTINGS };
+    const rows = await this.db.select().from(settings);
+    for (const row of rows) {
+      result[row.key] = row.value;
+    }
+    return result;
+  }
+
+  // Duplicate detection (part of IStorage interface)
+  async findDuplicates(threshold: number = 80): Promise<DuplicateGroup[]> {
+    return this.duplicateIndex.find(threshold, () => this.getAllMediaItems());
+  }
+
+  async findExactDuplicates(): Promise<DuplicateGroup[]> {
+    return groupExactDuplicates(await this.getAllMediaItems());
+  }
+
+  // Scan Jobs
+  async createScanJob(job: InsertScanJob): Promise<ScanJob> {
+    const [created] = await this.db
+      .insert(scanJobs)
+      .values(job as typeof scanJobs.$inferInsert)
+      .returning();
+    return created;
+  }
+
+  async getScanJob(id: string): Promise<ScanJob | undefined> {
+    const [job] = await this.db.select().from(scanJobs).where(eq(scanJobs.id, id));
+    return job;
+  }
+
+  async getActiveScanJob(): Promise<ScanJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(scanJobs)
+      .where(or(eq(scanJobs.status, "pending"), eq(scanJobs.status, "running"), eq(scanJobs.status, "paused")))
+      .limit(1);
+    return job;
+  }
+
+  async updateScanJob(
+    id: string,
+    updates: Partial<ScanJob>,
+    onlyIfStatus?: ScanJobStatus[]
+  ): Promise<ScanJob | undefined> {
+    const [updated] = await this.db
+      .update(scanJobs)
+      .set(updates)
+      .where(
+        onlyIfStatus
+          ? and(eq(scanJobs.id, id), inArray(scanJobs.status, onlyIfStatus))
+          : eq(scanJobs.id, id)
+      )
+      .returning();
+    return updated;
+  }
+
+  // Organize Jobs
+  async createOrganizeJob(job: InsertOrganizeJob): Promise<OrganizeJob> {
+    const [created] = await this.db
+      .insert(organizeJobs)
+      .values(job as typeof organizeJobs.$inferInsert)
+      .returning();
+    return created;
+  }
+
+  async getOrganizeJob(id: string): Promise<OrganizeJob | undefined> {
+    const [job] = await this.db.select().from(organizeJobs).where(eq(organizeJobs.id, id));
+    return job;
+  }
+
+  async getActiveOrganizeJob(): Promise<OrganizeJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(organizeJobs)
+      .where(or(eq(organizeJobs.status, "pending"), eq(organizeJobs.status, "running"), eq(organizeJobs.status, "paused")))
+      .limit(1);
+    return job;
+  }
+
+  async updateOrganizeJob(
+    id: string,
+    updates: Partial<OrganizeJob>,
+    onlyIfStatus?: OrganizeJobStatus[]
+  ): Promise<OrganizeJob | undefined> {
+    const [updated] = await this.db
+      .update(organizeJobs)
+      .set(updates)
+      .where(
+        onlyIfStatus
+          ? and(eq(organizeJobs.id, id), inArray(organizeJobs.status, onlyIfStatus))
+          : eq(organizeJobs.id, id)
+      )
+      .returning();
+    return updated;
+  }
+
+  async getRecentOrganizeJobs(limit: number): Promise<OrganizeJob[]> {
+    return this.db.select().from(organizeJobs).orderBy(desc(organizeJobs.startedAt)).limit(limit);
+  }
+
+  // Organize Journal
+  async addJournalEntry(entry: InsertOrganizeJournalEntry): Promise<OrganizeJournalEntry> {
+    const [created] = await this.db
+      .insert(organizeJournal)
+      .values(entry as typeof organizeJournal.$inferInsert)
+      .returning();
+    return created;
+  }
+
+  async getJournalEntries(jobId: string): Promise<OrganizeJournalEntry[]> {
+    return this.db
+      .select()
+      .from(organizeJournal)
+      .where(eq(organizeJournal.jobId, jobId))
+      .orderBy(asc(organizeJournal.sequence));
+  }
+
+  async updateJournalEntry(
+    id: string,
+    updates: Partial<OrganizeJournalEntry>
+  ): Promise<OrganizeJournalEntry | undefined> {
+    const [updated] = await this.db
+      .update(organizeJournal)
+      .set(updates)
+      .where(eq(organizeJournal.id, id))
+      .returning();
+    return updated;
+  }
+
+  // TMDB response cache
+  async getTmdbCacheEntry(key: string): Promise<TmdbCacheEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(tmdbCache)
+      .where(and(eq(tmdbCache.key, key), gt(tmdbCache.expiresAt, new Date())))
+      .limit(1);
+    return entry;
+  }
+
+  async setTmdbCacheEntry(entry: InsertTmdbCacheEntry): Promise<void> {
+    await this.db
+      .insert(tmdbCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: tmdbCache.key, set: { body: entry.body, expiresAt: entry.expiresAt } });
+  }
+
+  async deleteExpiredTmdbCacheEntries(): Promise<number> {
+    const deleted = await this.db
+      .delete(tmdbCache)
+      .where(lte(tmdbCache.expiresAt, new Date()))
+      .returning({ id: tmdbCache.id });
+    return deleted.length;
+  }
+
+  // Snapshot
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      mediaItems: await this.getAllMediaItems(),
+      tvSeries: await this.getAllTvSeries(),
+      movies: await this.getAllMovies(),
+      logs: await this.getAllLogs(),
+      settings: await this.getAllSettings(),
+      scanJobs: await this.db.select().from(scanJobs),
+      organizeJobs: await this.db.select().from(organizeJobs),
+      organizeJournal: await this.db.select().from(organizeJournal),
+    };
+  }
+}
+
+// Pick the storage backend: PostgreSQL when DATABASE_URL is configured,
+// an SQLite file when SQLITE_PATH is configured, otherwise keep everything in memory
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DbStorage(createDb(process.env.DATABASE_URL));
+  }
+  if (process.env.SQLITE_PATH) {
+    return new SqliteStorage(process.env.SQLITE_PATH, process.env.SQLITE_IMPORT_PATH);
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
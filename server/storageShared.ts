@@ -0,0 +1,57 @@
+import { createHash } from "crypto";
+import type { MediaItem } from "@shared/schema";
+import { cleanFilename } from "@shared/mediaParser";
+import type { DuplicateGroup, DuplicateItem } from "./storage";
+
+// Shared by every storage backend. Kept out of storage.ts so the backends in their own
+// modules (sqliteStorage.ts) don't have to import the module that constructs them.
+
+// Default settings applied when a key has never been saved
+export const DEFAULT_SETTINGS: Record<string, string> = {
+  sourcePath: "/Inbox",
+  moviesPath: "/Movies",
+  tvShowsPath: "/TV Shows",
+  autoOrganize: "false",
+  removeReleaseGroups: "true",
+  fuzzyMatchThreshold: "80",
+  reviewThreshold: "70",
+};
+
+// Helper: group media items whose content fingerprints match (byte-identical files,
+// whatever their names). Items scanned before fingerprinting existed are skipped.
+export function groupExactDuplicates(items: MediaItem[]): DuplicateGroup[] {
+  const groups: Map<string, DuplicateItem[]> = new Map();
+
+  for (const item of items) {
+    if (!item.fingerprint) continue;
+
+    const groupItems = groups.get(item.fingerprint) || [];
+    groupItems.push({
+      id: item.id,
+      originalFilename: item.originalFilename,
+      cleanedName: cleanFilename(item.originalFilename),
+      similarity: 100,
+      isOriginal: groupItems.length === 0,
+      fileSize: item.fileSize ?? undefined,
+      quality: item.quality,
+      detectedType: item.detectedType,
+      status: item.status,
+      versionLabel: item.versionLabel,
+    });
+    groups.set(item.fingerprint, groupItems);
+  }
+
+  const result: DuplicateGroup[] = [];
+
+  for (const [fingerprint, groupItems] of Array.from(groups.entries())) {
+    if (groupItems.length > 1) {
+      result.push({
+        groupId: createHash("sha1").update(`exact:${fingerprint}`).digest("hex").slice(0, 12),
+        baseName: groupItems[0].cleanedName,
+        items: groupItems,
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,134 @@
+import type {
+  MetadataEpisode,
+  MetadataProvider,
+  MetadataSearchResult,
+  MetadataSeries,
+} from "./metadataProvider";
+import { TMDB_CACHE_TTL, hasTmdbCredentials, tmdbGet, tmdbImageUrl } from "./tmdbClient";
+
+// Helper: year from a TMDB date string ("2019-05-24" -> 2019)
+function yearOf(date: string | null | undefined): number | null {
+  return date ? parseInt(date.substring(0, 4), 10) : null;
+}
+
+// Helper: TMDB popularity scaled to 0-1 (logarithmic; blockbusters sit in the hundreds)
+function popularityOf(popularity: number | undefined): number | null {
+  return typeof popularity === "number" ? Math.min(1, Math.log10(1 + popularity) / 3) : null;
+}
+
+// Helper: a movie or TV search result in provider-neutral form
+function toSearchResult(result: any, type: "movie" | "tv"): MetadataSearchResult {
+  return {
+    provider: "tmdb",
+    id: String(result.id),
+    name: type === "movie" ? result.title : result.name,
+    year: yearOf(type === "movie" ? result.release_date : result.first_air_date),
+    posterPath: tmdbImageUrl(result.poster_path, "w342"),
+    originalName: (type === "movie" ? result.original_title : result.original_name) || null,
+    popularity: popularityOf(result.popularity),
+    kind: type === "tv" ? "tvshow" : result.video ? "video" : "movie",
+  };
+}
+
+// Helper: episodes of one season of a show
+async function getSeasonEpisodes(tvId: string, seasonNumber: number): Promise<MetadataEpisode[]> {
+  const data = await tmdbGet(`/tv/${tvId}/season/${seasonNumber}`);
+  return (data?.episodes || []).map((ep: any) => ({
+    season: seasonNumber,
+    episode: ep.episode_number,
+    title: ep.name || null,
+    airDate: ep.air_date || null,
+    absolute: null,
+  }));
+}
+
+// Helper: every regular episode of a show in absolute order.
+// Prefers TMDB's "Absolute" episode group (type 2) and falls back to
+// concatenating the regular seasons.
+async function getAbsoluteOrder(tvId: string): Promise<MetadataEpisode[]> {
+  const order: MetadataEpisode[] = [];
+
+  const groupsData = await tmdbGet(`/tv/${tvId}/episode_groups`, {}, TMDB_CACHE_TTL.episodeGroups);
+  const absoluteGroup = (groupsData?.results || []).find((g: any) => g.type === 2);
+
+  if (absoluteGroup) {
+    const groupData = await tmdbGet(`/tv/episode_group/${absoluteGroup.id}`, {}, TMDB_CACHE_TTL.episodeGroups);
+    const groups = [...(groupData?.groups || [])].sort((a: any, b: any) => a.order - b.order);
+    for (const group of groups) {
+      const episodes = [...(group.episodes || [])].sort((a: any, b: any) => a.order - b.order);
+      for (const ep of episodes) {
+        order.push({
+          season: ep.season_number,
+          episode: ep.episode_number,
+          title: ep.name || null,
+          airDate: ep.air_date || null,
+          absolute: order.length + 1,
+        });
+      }
+    }
+  }
+
+  if (order.length === 0) {
+    const series = await tmdbProvider.getSeries(tvId);
+    for (const season of series?.seasons || []) {
+      order.push(...(await getSeasonEpisodes(tvId, season.number)));
+    }
+  }
+
+  return order;
+}
+
+export const tmdbProvider: MetadataProvider = {
+  id: "tmdb",
+  name: "TMDB",
+
+  isConfigured: hasTmdbCredentials,
+
+  async searchMovie(query, year) {
+    const data = await tmdbGet("/search/movie", { query, year }, TMDB_CACHE_TTL.search);
+    return (data?.results || []).map((result: any) => toSearchResult(result, "movie"));
+  },
+
+  async searchSeries(query, year) {
+    const data = await tmdbGet("/search/tv", { query, first_air_date_year: year }, TMDB_CACHE_TTL.search);
+    return (data?.results || []).map((result: any) => toSearchResult(result, "tv"));
+  },
+
+  async getSeries(id): Promise<MetadataSeries | null> {
+    const data = await tmdbGet(`/tv/${id}`);
+    if (!data) return null;
+    return {
+      ...toSearchResult(data, "tv"),
+      seasons: (data.seasons || [])
+        .filter((s: any) => s.season_number > 0)
+        .sort((a: any, b: any) => a.season_number - b.season_number)
+        .map((s: any) => ({
+          number: s.season_number,
+          airDate: s.air_date || null,
+          episodeCount: s.episode_count ?? null,
+        })),
+    };
+  },
+
+  async getEpisodes(seriesId, season) {
+    return season === undefined ? getAbsoluteOrder(seriesId) : getSeasonEpisodes(seriesId, season);
+  },
+
+  async getAlternativeTitles(type, id) {
+    const data = await tmdbGet(
+      `/${type === "movie" ? "movie" : "tv"}/${id}/alternative_titles`,
+      {},
+      TMDB_CACHE_TTL.search
+    );
+    // Movies list them under "titles", shows under "results"
+    return (data?.titles || data?.results || []).map((entry: any) => entry.title).filter(Boolean);
+  },
+
+  async getImages(type, id) {
+    const data = await tmdbGet(`/${type === "movie" ? "movie" : "tv"}/${id}/images`);
+    return {
+      posters: (data?.posters || []).map((image: any) => tmdbImageUrl(image.file_path, "w342")!),
+      backdrops: (data?.backdrops || []).map((image: any) => tmdbImageUrl(image.file_path, "w1280")!),
+    };
+  },
+};
@@ -0,0 +1,201 @@
+import { storage } from "./storage";
+
+const TMDB_API_KEY = process.env.TMDB_API_KEY;
+const TMDB_BASE_URL = "https://api.themoviedb.org/3";
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long responses stay cached. Search results and episode groups rarely change;
+// show and season details pick up new episodes and artwork, so they expire sooner.
+export const TMDB_CACHE_TTL = {
+  search: 7 * DAY_MS,
+  details: DAY_MS,
+  episodeGroups: 7 * DAY_MS,
+};
+
+// Token bucket: TMDB allows roughly 40 requests per second; stay well below it so
+// a large scan never trips the limit
+const RATE_PER_SECOND = 20;
+const BURST = 20;
+
+// Retries for 429s, 5xx responses and network errors, with exponential backoff
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30_000;
+const REQUEST_TIMEOUT_MS = 15_000;
+
+type QueryParams = Record<string, string | number | null | undefined>;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+
+  constructor(private ratePerSecond: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  // Wait until a request may be sent
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.blockedUntil) {
+        await delay(this.blockedUntil - now);
+        continue;
+      }
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+      await delay(((1 - this.tokens) / this.ratePerSecond) * 1000);
+    }
+  }
+
+  // Hold every request back, e.g. for the Retry-After of a 429
+  pauseFor(ms: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+}
+
+const bucket = new TokenBucket(RATE_PER_SECOND, BURST);
+
+// Identical requests made while one is in flight share its response
+const inFlight = new Map<string, Promise<unknown>>();
+
+let lastCachePrune = 0;
+
+// Helper: TMDB credential from the env var first, then settings
+async function getCredential(): Promise<string | null> {
+  if (TMDB_API_KEY) return TMDB_API_KEY;
+  try {
+    const settings = await storage.getAllSettings();
+    return settings.tmdbApiKey || null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a TMDB API key or read access token is configured
+export async function hasTmdbCredentials(): Promise<boolean> {
+  return !!(await getCredential());
+}
+
+// Helper: v4 read access tokens are JWTs and go in the Authorization header;
+// v3 API keys go in the api_key query parameter
+function isAccessToken(credential: string): boolean {
+  return credential.startsWith("eyJ") && credential.split(".").length === 3;
+}
+
+// Full image URL for a TMDB image path (null stays null)
+export function tmdbImageUrl(imagePath: string | null | undefined, size: string): string | null {
+  return imagePath ? `${TMDB_IMAGE_BASE_URL}/${size}${imagePath}` : null;
+}
+
+// Helper: wait time before the next attempt, from Retry-After when TMDB sends one
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+// Helper: send one request, retrying rate limits, server errors and network failures
+async function fetchWithRetry<T>(path: string, query: string, credential: string): Promise<T | null> {
+  const bearer = isAccessToken(credential);
+  const fullQuery = bearer
+    ? query
+    : [query, `api_key=${encodeURIComponent(credential)}`].filter(Boolean).join("&");
+  const url = `${TMDB_BASE_URL}${path}${fullQuery ? `?${fullQuery}` : ""}`;
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (bearer) headers.Authorization = `Bearer ${credential}`;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    await bucket.take();
+    try {
+      const response = await fetch(url, { headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+      if (response.ok) return (await response.json()) as T;
+
+      if (response.status === 429 || response.status >= 500) {
+        const wait = retryDelay(attempt, response.headers.get("retry-after"));
+        if (response.status === 429) bucket.pauseFor(wait);
+        console.log(`[TMDB] ${response.status} for ${path}, retrying in ${Math.round(wait)}ms`);
+        await delay(wait);
+        continue;
+      }
+      if (response.status === 401) {
+        console.error("[TMDB] Request rejected: the API key or access token is invalid");
+      } else if (response.status !== 404) {
+        console.error(`[TMDB] ${response.status} for ${path}`);
+      }
+      return null;
+    } catch (err) {
+      const wait = retryDelay(attempt, null);
+      console.log(`[TMDB] Request for ${path} failed (${err}), retrying in ${Math.round(wait)}ms`);
+      await delay(wait);
+    }
+  }
+
+  console.error(`[TMDB] Giving up on ${path} after ${MAX_ATTEMPTS} attempts`);
+  return null;
+}
+
+// GET a TMDB v3 endpoint (e.g. "/search/movie") and return its JSON, or null when it
+// doesn't exist, no credentials are configured or TMDB keeps failing. Responses are
+// cached in storage for ttlMs, so restarts and repeated scans reuse them.
+export async function tmdbGet<T = any>(
+  path: string,
+  params: QueryParams = {},
+  ttlMs: number = TMDB_CACHE_TTL.details
+): Promise<T | null> {
+  const query = Object.keys(params)
+    .filter((name) => params[name] !== null && params[name] !== undefined && params[name] !== "")
+    .sort()
+    .map((name) => `${name}=${encodeURIComponent(String(params[name]))}`)
+    .join("&");
+  const key = query ? `${path}?${query}` : path;
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T | null>;
+
+  const request = (async () => {
+    const cached = await storage.getTmdbCacheEntry(key).catch(() => undefined);
+    if (cached) return JSON.parse(cached.body) as T;
+
+    const credential = await getCredential();
+    if (!credential) return null;
+
+    const data = await fetchWithRetry<T>(path, query, credential);
+    if (data !== null) {
+      await storage
+        .setTmdbCacheEntry({ key, body: JSON.stringify(data), expiresAt: new Date(Date.now() + ttlMs) })
+        .catch((err) => console.error("[TMDB] Failed to cache response:", err));
+    }
+    return data;
+  })();
+
+  inFlight.set(key, request);
+  try {
+    return await request;
+  } finally {
+    inFlight.delete(key);
+    pruneCache();
+  }
+}
+
+// Helper: drop expired cache entries, at most once an hour
+function pruneCache() {
+  if (Date.now() - lastCachePrune < HOUR_MS) return;
+  lastCachePrune = Date.now();
+  storage
+    .deleteExpiredTmdbCacheEntries()
+    .then((count) => {
+      if (count > 0) console.log(`[TMDB] Pruned ${count} expired cache entries`);
+    })
+    .catch((err) => console.error("[TMDB] Failed to prune cache:", err));
+}
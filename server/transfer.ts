@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import { TRANSFER_MODES, type MediaItem, type TransferMode } from "@shared/schema";
+
+// Errors from a filesystem that can't clone or link the file (fall back to a plain copy)
+const UNSUPPORTED_CODES = new Set(["EXDEV", "ENOTSUP", "EOPNOTSUPP", "ENOSYS", "EINVAL", "EPERM"]);
+
+// Past-tense verb for log messages
+export const TRANSFER_VERBS: Record<TransferMode, string> = {
+  move: "Moved",
+  copy: "Copied",
+  hardlink: "Hardlinked",
+  symlink: "Symlinked",
+  reflink: "Reflinked",
+};
+
+// Helper: a stored setting value as a transfer mode (move when unset or unknown)
+export function parseTransferMode(value: string | undefined): TransferMode {
+  return TRANSFER_MODES.find((mode) => mode === value) ?? "move";
+}
+
+// Transfer mode configured for the library an item is organized into
+export function transferModeFor(
+  item: Pick<MediaItem, "detectedType" | "isAnime">,
+  settings: Record<string, string>
+): TransferMode {
+  if (item.detectedType === "movie") return parseTransferMode(settings.moviesTransferMode);
+  if (item.isAnime && settings.animeDestination) return parseTransferMode(settings.animeTransferMode);
+  return parseTransferMode(settings.tvShowsTransferMode);
+}
+
+// Helper: copy and check the copy is complete
+async function copyVerified(actualSource: string, actualDest: string, flags?: number): Promise<void> {
+  const sourceSize = (await fs.promises.stat(actualSource)).size;
+  await fs.promises.copyFile(actualSource, actualDest, flags);
+  const destSize = (await fs.promises.stat(actualDest)).size;
+  if (destSize !== sourceSize) {
+    await fs.promises.unlink(actualDest).catch(() => {});
+    throw new Error(`Copy verification failed: size mismatch (source: ${sourceSize}, dest: ${destSize})`);
+  }
+}
+
+// Create actualDest from actualSource without removing the source. `linkTarget` is the
+// path a symlink points at (the host path, so the link also resolves outside Docker).
+// Returns the mode actually used, which is "copy" when a hardlink or reflink wasn't possible.
+export async function transferFile(
+  actualSource: string,
+  actualDest: string,
+  mode: Exclude<TransferMode, "move">,
+  linkTarget: string
+): Promise<TransferMode> {
+  switch (mode) {
+    case "hardlink":
+      try {
+        await fs.promises.link(actualSource, actualDest);
+        return "hardlink";
+      } catch (err: any) {
+        if (!UNSUPPORTED_CODES.has(err.code)) throw err;
+        console.log(`[Transfer] Hardlink not possible (${err.code}), copying instead: ${actualDest}`);
+      }
+      break;
+    case "reflink":
+      try {
+        await copyVerified(actualSource, actualDest, fs.constants.COPYFILE_FICLONE_FORCE);
+        return "reflink";
+      } catch (err: any) {
+        if (!UNSUPPORTED_CODES.has(err.code)) throw err;
+        console.log(`[Transfer] Reflink not supported (${err.code}), copying instead: ${actualDest}`);
+      }
+      break;
+    case "symlink":
+      await fs.promises.symlink(linkTarget, actualDest);
+      return "symlink";
+  }
+
+  await copyVerified(actualSource, actualDest);
+  return "copy";
+}
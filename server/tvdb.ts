@@ -0,0 +1,208 @@
+import { storage } from "./storage";
+import type { MetadataEpisode, MetadataProvider, MetadataSearchResult } from "./metadataProvider";
+
+const TVDB_BASE_URL = "https://api4.thetvdb.com/v4";
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// Responses are kept in memory for a while so a scan of a season doesn't refetch the show
+// for every episode
+const RESPONSE_TTL_MS = 60 * 60 * 1000;
+
+// Login tokens are valid for a month; renew well before that
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Artwork type IDs
+const ARTWORK_TYPES = {
+  series: { poster: 2, backdrop: 3 },
+  movie: { poster: 14, backdrop: 15 },
+};
+
+let token: { value: string; apiKey: string; expiresAt: number } | null = null;
+const responses = new Map<string, { expiresAt: number; data: Promise<any> }>();
+let lastResponsePrune = 0;
+
+// Helper: TVDB API key and optional subscriber PIN, from env vars first, then settings
+async function getCredentials(): Promise<{ apiKey: string; pin: string } | null> {
+  let settings: Record<string, string> = {};
+  try {
+    settings = await storage.getAllSettings();
+  } catch {
+    // Fall back to env vars only
+  }
+  const apiKey = process.env.TVDB_API_KEY || settings.tvdbApiKey;
+  if (!apiKey) return null;
+  return { apiKey, pin: process.env.TVDB_PIN || settings.tvdbPin || "" };
+}
+
+// Helper: bearer token for the API, logging in when there's none or the key changed
+async function getToken(): Promise<string | null> {
+  const credentials = await getCredentials();
+  if (!credentials) return null;
+  if (token && token.apiKey === credentials.apiKey && token.expiresAt > Date.now()) return token.value;
+
+  try {
+    const response = await fetch(`${TVDB_BASE_URL}/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify(
+        credentials.pin ? { apikey: credentials.apiKey, pin: credentials.pin } : { apikey: credentials.apiKey }
+      ),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`[TVDB] Login failed (${response.status}): check the API key and PIN`);
+      return null;
+    }
+    const body = await response.json();
+    token = { value: body.data.token, apiKey: credentials.apiKey, expiresAt: Date.now() + TOKEN_TTL_MS };
+    return token.value;
+  } catch (err) {
+    console.error("[TVDB] Login error:", err);
+    return null;
+  }
+}
+
+// Helper: GET an API path and return the response JSON, or null on failure
+async function request(path: string): Promise<any | null> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const bearer = await getToken();
+    if (!bearer) return null;
+    try {
+      const response = await fetch(`${TVDB_BASE_URL}${path}`, {
+        headers: { Authorization: `Bearer ${bearer}`, Accept: "application/json" },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (response.ok) return await response.json();
+      // Expired token: log in again once
+      if (response.status === 401 && attempt === 0) {
+        token = null;
+        continue;
+      }
+      if (response.status !== 404) console.error(`[TVDB] ${response.status} for ${path}`);
+      return null;
+    } catch (err) {
+      console.error(`[TVDB] Request for ${path} failed:`, err);
+      return null;
+    }
+  }
+  return null;
+}
+
+// Helper: drop expired responses, at most once per TTL; otherwise a path's entry stays
+// until that path is fetched again, and a watcher-driven server fetches many paths once
+function pruneResponses() {
+  const now = Date.now();
+  if (now - lastResponsePrune < RESPONSE_TTL_MS) return;
+  lastResponsePrune = now;
+  responses.forEach((entry, path) => {
+    if (entry.expiresAt <= now) responses.delete(path);
+  });
+}
+
+// Helper: cached GET; failed requests aren't kept
+function tvdbGet(path: string): Promise<any | null> {
+  const cached = responses.get(path);
+  if (cached && cached.expiresAt > Date.now()) return cached.data;
+
+  const data = request(path);
+  pruneResponses();
+  responses.set(path, { expiresAt: Date.now() + RESPONSE_TTL_MS, data });
+  data.then((body) => {
+    if (body === null) responses.delete(path);
+  });
+  return data;
+}
+
+// Helper: English name of a search result when TVDB has a translation; the original
+// name and aliases are kept for ranking
+function toSearchResult(result: any): MetadataSearchResult {
+  return {
+    provider: "tvdb",
+    id: String(result.tvdb_id),
+    name: result.translations?.eng || result.name,
+    year: result.year ? parseInt(result.year, 10) : null,
+    posterPath: result.image_url || null,
+    originalName: result.name || null,
+    alternativeTitles: Array.isArray(result.aliases) ? result.aliases : [],
+  };
+}
+
+async function search(query: string, type: "movie" | "series", year: number | null) {
+  const params = new URLSearchParams({ query, type });
+  if (year) params.set("year", String(year));
+  const body = await tvdbGet(`/search?${params}`);
+  return (body?.data || []).map(toSearchResult);
+}
+
+// Helper: episodes in the default (aired) order, every page of them
+async function getDefaultEpisodes(seriesId: string, season?: number): Promise<MetadataEpisode[]> {
+  const episodes: MetadataEpisode[] = [];
+  for (let page = 0; ; page++) {
+    const seasonParam = season === undefined ? "" : `&season=${season}`;
+    const body = await tvdbGet(`/series/${seriesId}/episodes/default?page=${page}${seasonParam}`);
+    for (const ep of body?.data?.episodes || []) {
+      if (ep.seasonNumber === 0 || (season !== undefined && ep.seasonNumber !== season)) continue;
+      episodes.push({
+        season: ep.seasonNumber,
+        episode: ep.number,
+        title: ep.name || null,
+        airDate: ep.aired || null,
+        absolute: ep.absoluteNumber || null,
+      });
+    }
+    if (!body?.links?.next) break;
+  }
+  return episodes;
+}
+
+export const tvdbProvider: MetadataProvider = {
+  id: "tvdb",
+  name: "TVDB",
+
+  async isConfigured() {
+    return !!(await getCredentials());
+  },
+
+  searchMovie: (query, year) => search(query, "movie", year),
+
+  searchSeries: (query, year) => search(query, "series", year),
+
+  async getSeries(id) {
+    const body = await tvdbGet(`/series/${id}/extended?short=true`);
+    const data = body?.data;
+    if (!data) return null;
+    const seasons = (data.seasons || [])
+      .filter((s: any) => s.type?.type === "official" && s.number > 0)
+      .sort((a: any, b: any) => a.number - b.number)
+      .map((s: any) => ({ number: s.number, airDate: null, episodeCount: null }));
+    return {
+      provider: "tvdb",
+      id: String(data.id),
+      name: data.name,
+      year: data.year ? parseInt(data.year, 10) : null,
+      posterPath: data.image || null,
+      seasons,
+    };
+  },
+
+  async getEpisodes(seriesId, season) {
+    const episodes = await getDefaultEpisodes(seriesId, season);
+    if (season !== undefined) return episodes;
+    // Absolute order: by absolute number when TVDB has one for every episode
+    return episodes.every((ep) => ep.absolute !== null)
+      ? episodes.sort((a, b) => a.absolute! - b.absolute!)
+      : episodes.sort((a, b) => a.season - b.season || a.episode - b.episode);
+  },
+
+  async getImages(type, id) {
+    const kind = type === "movie" ? "movie" : "series";
+    const body = await tvdbGet(type === "movie" ? `/movies/${id}/extended` : `/series/${id}/artworks`);
+    const artworks: any[] = body?.data?.artworks || [];
+    const ofType = (typeId: number) =>
+      artworks.filter((artwork) => artwork.type === typeId).map((artwork) => artwork.image as string);
+    return {
+      posters: ofType(ARTWORK_TYPES[kind].poster),
+      backdrops: ofType(ARTWORK_TYPES[kind].backdrop),
+    };
+  },
+};
@@ -0,0 +1,959 @@
+import { RELEASE_GROUPS, VIDEO_EXTENSIONS, type MediaQuality, type MediaType } from "./schema";
+
+// Shared media filename parser.
+// Used by the manual/background scan, the file watcher and the client so a file
+// gets the same classification no matter how it arrives.
+
+export interface ParsedMedia {
+  originalFilename: string;
+  cleanedName: string;
+  detectedType: MediaType;
+  detectedName: string;
+  // Title-only query for metadata lookups (cleanForTmdbSearch + extractTitleForSearch)
+  searchQuery: string;
+  year: number | null;
+  season: number | null;
+  episode: number | null;
+  // All episodes in a multi-episode file (null when not a TV episode)
+  episodes: number[] | null;
+  // Broadcast date (YYYY-MM-DD) for date-based daily shows; season/episode
+  // stay null until the date is resolved against the show's episode list
+  airDate: string | null;
+  // Anime profile: absolute episode number (season/episode hold it as S01Exx
+  // until it is mapped through the show's episode groups) and release CRC32
+  absoluteEpisode: number | null;
+  crc32: string | null;
+  isAnime: boolean;
+  // Label for specials without a regular episode code ("Christmas Special", "OVA 2");
+  // specials always land in season 0
+  specialTitle: string | null;
+  // Stacked movie part (Movie.CD1.avi, Movie.Part.2.mkv)
+  partNumber: number | null;
+  // Movie edition, e.g. "Director's Cut", "Extended Edition" (null for the regular release)
+  edition: string | null;
+  quality: MediaQuality;
+  extension: string;
+  confidence: number;
+}
+
+export interface DestinationBasePaths {
+  movies: string;
+  tvshows: string;
+  // Separate root for anime series; falls back to tvshows when unset
+  anime?: string;
+}
+
+export interface ParseOptions {
+  // Parse with the anime profile (file comes from an Anime library folder)
+  anime?: boolean;
+}
+
+// How a movie edition appears in the filename:
+// jellyfin -> "Movie (2001) - Director's Cut.mkv", plex -> "Movie (2001) {edition-Director's Cut}.mkv"
+export type EditionNaming = "jellyfin" | "plex";
+
+export interface DestinationNaming {
+  // Canonical title (metadata match or title-cased detected name)
+  name: string;
+  year: number | null;
+  // Resolved series folder name for TV shows, e.g. "Ashram (2020)"
+  seriesFolder?: string;
+  // Defaults to jellyfin
+  editionNaming?: EditionNaming;
+  // Episode title appended to episode filenames: "Show - S01E02 - Title.mkv"
+  episodeTitle?: string | null;
+}
+
+// Release tags that are also words of a title: a movie name before its year keeps them
+// ("The Extended Family", "Unrated", "Final Cut")
+const TITLE_WORD_TAGS = new Set(["extended", "unrated", "directors", "cut", "remastered", "imax"]);
+
+// Clean filename by removing extension, bracketed tags, release groups and quality tags.
+// keepTitleWords is for text that is only the title (before the year or part marker).
+export function cleanFilename(filename: string, keepTitleWords = false): string {
+  let cleaned = filename;
+
+  const extMatch = filename.match(/\.[a-zA-Z0-9]{2,4}$/);
+  if (extMatch) {
+    cleaned = cleaned.slice(0, -extMatch[0].length);
+  }
+
+  cleaned = cleaned.replace(/[._]/g, " ");
+  cleaned = cleaned.replace(/\[.*?\]/g, " ");
+  cleaned = cleaned.replace(/\((?!(?:19|20)\d{2}\))[^)]*\)/g, " ");
+
+  for (const group of RELEASE_GROUPS) {
+    if (keepTitleWords && TITLE_WORD_TAGS.has(group)) continue;
+    const regex = new RegExp(`\\b${group}\\b`, "gi");
+    cleaned = cleaned.replace(regex, " ");
+  }
+
+  cleaned = cleaned.replace(/\s+/g, " ").trim();
+  return cleaned;
+}
+
+
+// Aggressive cleaner for TMDB search - strips ALL junk to get just the title
+export function cleanForTmdbSearch(filename: string): string {
+  let cleaned = filename;
+  
+  // Remove extension
+  cleaned = cleaned.replace(/\.[a-zA-Z0-9]{2,4}$/, "");
+  
+  // Replace delimiters with spaces
+  cleaned = cleaned.replace(/[._\-\[\]]/g, " ");
+  
+  // Remove content in brackets except years
+  cleaned = cleaned.replace(/\((?!(?:19|20)\d{2}\))[^)]*\)/g, " ");
+  
+  // Comprehensive list of junk patterns to remove (case-insensitive)
+  const junkPatterns = [
+    // Quality tags
+    /\b(720p|1080p|2160p|4k|hd|fhd|uhd|sd)\b/gi,
+    /\b(hdtv|webdl|web-dl|webrip|web|bluray|bdrip|brrip|dvdrip|hdrip|hdtc|hdts|hdcam|cam|ts|tc|r5|dvdscr|screener|pre)\b/gi,
+    /\b(remux|proper|repack|internal|real|extended|uncut|unrated|theatrical|directors?\.?cut)\b/gi,
+    
+    // Video codecs
+    /\b(x264|x265|h\.?264|h\.?265|hevc|avc|xvid|divx|10bit|8bit|hdr|hdr10|sdr|dv|dolby\.?vision)\b/gi,
+    
+    // Audio codecs and channels
+    /\b(aac|ac3|dts|dts-hd|truehd|atmos|flac|mp3|eac3)\b/gi,
+    /\b(ddp?5?\.?1|dd5?\.?1|dd2?\.?0|5\.1|7\.1|2\.0|dts-x)\b/gi,
+    /\b(ddp|ddpa|dts|dd)\d*\.?\d*\b/gi,
+    
+    // Streaming services
+    /\b(amzn|amazon|nf|netflix|hmax|hbo|dsnp|disney\+?|atvp|apple|pcok|peacock|hulu|max|hotstar|hs|jhs|zee5|sonyliv|jio|voot|mxplayer)\b/gi,
+    
+    // Languages (remove these from search query, not the whole filename)
+    /\b(hindi|english|tamil|telugu|malayalam|kannada|bengali|marathi|punjabi|gujarati|spanish|french|german|italian|japanese|korean|chinese|russian|portuguese|arabic|thai|vietnamese|indonesian|dutch|polish|turkish|swedish|norwegian|danish|finnish|greek|hebrew|hungarian|czech|romanian|ukrainian|persian|urdu)\b/gi,
+    /\b(hin|eng|tam|tel|mal|kan|ben|mar|pun|chi|kor|jap|spa|fre|ger|ita|rus|por|ara|tha|vie|ind|dut|pol|tur|swe|nor|dan|fin|gre|heb|hun|cze|rom|ukr|per|urd)\b/gi,
+    /\b(dual|multi|dual-audio|multi-audio)\b/gi,
+    
+    // Subtitles
+    /\b(esub|esubs|subs?|subtitles?|hcsub|hc|msub|msubs|subtitled)\b/gi,
+    
+    // Release groups and uploaders
+    /\b(yts|yify|rarbg|eztv|ettv|lol|dimension|sparks|ntg|ntb|flux|phoenix|ggez|ggwp|gossip|cmrg|sigma|mkvcage|pahe|psa|tepes|hone|evo|fgt|galactica|memento|syncopy|nogrp|ion10|playwave|frds|npms|successors|telly|cakes|glhf|deejayahmed|hdhub4u|kingdom|katmoviehd|grab|ms|tv|rg)\b/gi,
+    
+    // Quality indicators
+    /\b(hq|lq|line|clear|proper|clean)\b/gi,
+    
+    // Common junk
+    /\b(www|com|org|net|to|in|me|cc|ws|sx)\b/gi,
+    /\b(v2|v3|v4)\b/gi,
+    /\baka\b/gi,
+  ];
+  
+  for (const pattern of junkPatterns) {
+    cleaned = cleaned.replace(pattern, " ");
+  }
+  
+  // Remove standalone numbers that look like audio channels or quality
+  cleaned = cleaned.replace(/\b\d+\s*\d*\s*\b/g, (match) => {
+    // Keep years, remove everything else
+    if (/^(19|20)\d{2}$/.test(match.trim())) return match;
+    return " ";
+  });
+  
+  // Clean up multiple spaces and trim
+  cleaned = cleaned.replace(/\s+/g, " ").trim();
+  
+  // Remove leading/trailing punctuation
+  cleaned = cleaned.replace(/^[\s\-\.,]+|[\s\-\.,]+$/g, "");
+  
+  // Remove empty parentheses or malformed ones
+  cleaned = cleaned.replace(/\(\s*\)/g, "");
+  cleaned = cleaned.replace(/\(\s*\(/g, "(");
+  cleaned = cleaned.replace(/\)\s*\)/g, ")");
+  
+  return cleaned;
+}
+
+// Extract just the title words (first few meaningful words before junk)
+export function extractTitleForSearch(cleanedName: string): string {
+  // Split into words
+  const words = cleanedName.split(/\s+/);
+  
+  // Take words until we hit a year or max 6 words
+  const titleWords: string[] = [];
+  for (const word of words) {
+    // Stop at year
+    if (/^\(?(19|20)\d{2}\)?$/.test(word)) break;
+    // Stop at empty or very short words that might be junk
+    if (word.length < 2) continue;
+    // Skip numbers unless they look like part of title (like "2" in "Iron Man 2")
+    if (/^\d+$/.test(word) && titleWords.length === 0) continue;
+    
+    titleWords.push(word);
+    
+    // Max 6 words for title
+    if (titleWords.length >= 6) break;
+  }
+  
+  return titleWords.join(" ").trim();
+}
+
+// Extract release year from filename
+export function extractYear(filename: string): number | null {
+  const parenMatch = filename.match(/\(?(19[5-9]\d|20[0-2]\d)\)?/);
+  if (parenMatch) {
+    return parseInt(parenMatch[1], 10);
+  }
+  return null;
+}
+
+export interface EpisodeMatch {
+  season: number;
+  // First episode in the file
+  episode: number;
+  // Every episode the file covers, e.g. [1, 2] for S01E01E02 or [1, 2, 3] for S01E01-E03
+  episodes: number[];
+}
+
+// Longest episode range accepted from a single file, to avoid misreading junk like "-720"
+const MAX_EPISODES_PER_FILE = 20;
+
+// Read extra episodes directly after the first one: "E02" (or ".E02" as its own token)
+// adds an episode, "-E03" / "-03" extends a range up to that episode.
+function parseEpisodeContinuation(first: number, rest: string): number[] {
+  const episodes = [first];
+  let remaining = rest;
+  let last = first;
+
+  while (true) {
+    const match = remaining.match(/^(?:-\s?[Ee]?|[._ ]?[Ee])(\d{1,3})(?![\dpPiI])/);
+    if (!match) break;
+
+    const next = parseInt(match[1], 10);
+    if (next <= last || next - first >= MAX_EPISODES_PER_FILE) break;
+
+    if (match[0].startsWith("-")) {
+      for (let ep = last + 1; ep <= next; ep++) {
+        episodes.push(ep);
+      }
+    } else {
+      episodes.push(next);
+    }
+
+    last = next;
+    remaining = remaining.slice(match[0].length);
+  }
+
+  return episodes;
+}
+
+// Detect TV show episode patterns (S01E01, 1x01, Season 1 Episode 1, EP01)
+// including multi-episode files (S01E01E02, S01E01-E03, 1x01-02)
+export function detectTVShowPattern(filename: string): EpisodeMatch | null {
+  const patterns = [
+    /[Ss](\d{1,2})[Ee](\d{1,3})/,
+    /(\d{1,2})[xX](\d{1,3})/,
+    /[Ss]eason\s*(\d{1,2})\s*[Ee]pisode\s*(\d{1,3})/i,
+    /[Ss](\d{1,2})\s+[Ee](\d{1,3})/,
+    /[Ee][Pp]?(\d{1,3})(?!\d)/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = filename.match(pattern);
+    if (match) {
+      const rest = filename.slice((match.index || 0) + match[0].length);
+
+      if (match.length === 2) {
+        const episode = parseInt(match[1], 10);
+        return { season: 1, episode, episodes: parseEpisodeContinuation(episode, rest) };
+      }
+      const episode = parseInt(match[2], 10);
+      return {
+        season: parseInt(match[1], 10),
+        episode,
+        episodes: parseEpisodeContinuation(episode, rest),
+      };
+    }
+  }
+
+  return null;
+}
+
+// Detect a broadcast date used by daily shows (Show.Name.2024.03.15.Guest.1080p)
+// Returns the date as YYYY-MM-DD
+export function detectAirDate(filename: string): string | null {
+  const match = filename.match(
+    /(?:^|[^\d])((?:19|20)\d{2})[.\-_ ](0[1-9]|1[0-2])[.\-_ ](0[1-9]|[12]\d|3[01])(?!\d)/
+  );
+  if (!match) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+export interface AnimeRelease {
+  releaseGroup: string | null;
+  // Series title between the group tag and the episode number
+  title: string | null;
+  absoluteEpisode: number | null;
+  crc32: string | null;
+}
+
+// Bracketed 8-digit hex checksum, e.g. [ABCD1234] or (ABCD1234)
+const CRC32_PATTERN = /[\[(]([0-9A-Fa-f]{8})[\])]/g;
+
+// Detect fansub naming: [Group] Title - 047v2 (1080p) [ABCD1234].mkv
+export function detectAnimeRelease(filename: string): AnimeRelease {
+  const base = filename.replace(/\.[a-zA-Z0-9]{2,4}$/, "");
+
+  const groupMatch = base.match(/^\s*\[([^\]]+)\]/);
+  const releaseGroup = groupMatch ? groupMatch[1].trim() : null;
+
+  // Last checksum wins; skip 8-digit dates like [20240315]
+  let crc32: string | null = null;
+  for (const match of Array.from(base.matchAll(CRC32_PATTERN))) {
+    if (!/^(19|20)\d{6}$/.test(match[1])) crc32 = match[1].toUpperCase();
+  }
+
+  // Absolute episode after " - ", optionally with a version suffix (v2)
+  const body = groupMatch ? base.slice(groupMatch[0].length) : base;
+  let absoluteEpisode: number | null = null;
+  let title: string | null = null;
+  const episodeMatch = body.match(/\s-\s(\d{1,4})(?:v\d)?(?=$|[\s\[(.])/);
+  if (episodeMatch && !/^(19[5-9]\d|20\d{2})$/.test(episodeMatch[1])) {
+    absoluteEpisode = parseInt(episodeMatch[1], 10);
+    title = body.slice(0, episodeMatch.index).replace(/[._]/g, " ").replace(/\s+/g, " ").trim() || null;
+  }
+
+  return { releaseGroup, title, absoluteEpisode, crc32 };
+}
+
+// Words that make a following "Special" an episode label rather than part of a title
+const SPECIAL_PREFIXES = new Set([
+  'christmas', 'xmas', 'holiday', 'halloween', 'easter', 'reunion', 'anniversary',
+]);
+
+export interface SpecialMatch {
+  // Series name tokens before the label
+  seriesName: string;
+  // Display label, e.g. "Christmas Special", "OVA 2"
+  title: string;
+  episode: number | null;
+}
+
+// Detect specials without an S00Exx code: "Show.Christmas.Special.2023", "[Group] Show - OVA 2"
+export function detectSpecial(filename: string): SpecialMatch | null {
+  const tokens = tokenizeFilename(filename.replace(/^\s*\[[^\]]+\]\s*/, ""));
+
+  for (let i = 1; i < tokens.length; i++) {
+    const lower = tokens[i].toLowerCase();
+    const isOva = lower === "ova" || lower === "oad";
+    if (!isOva && lower !== "special" && lower !== "specials") continue;
+
+    const prefixed = !isOva && SPECIAL_PREFIXES.has(tokens[i - 1].toLowerCase());
+    const next = tokens[i + 1];
+    const nextIsNumber = next !== undefined && /^\d{1,3}$/.test(next);
+
+    // A bare "Special" must end the title ("Show Special 1080p"), otherwise
+    // it is part of a name like "Special Forces" or a movie "The Special (2020)"
+    if (!isOva && !prefixed && next !== undefined && !nextIsNumber && !isQualityTag(next)) continue;
+
+    const start = prefixed ? i - 1 : i;
+    if (start === 0) continue;
+
+    const label = tokens.slice(start, i + 1)
+      .map(t => (t.length <= 3 ? t.toUpperCase() : t.charAt(0).toUpperCase() + t.slice(1).toLowerCase()))
+      .join(" ");
+    const episode = nextIsNumber ? parseInt(next, 10) : null;
+
+    return {
+      seriesName: extractSeriesName(tokens.slice(0, start).join(" ")),
+      title: episode !== null ? `${label} ${episode}` : label,
+      episode,
+    };
+  }
+
+  return null;
+}
+
+export interface PartMatch {
+  partNumber: number;
+  // Position of the marker in the filename
+  index: number;
+}
+
+// Detect multi-part movie markers: cd1, disc 2, disk-1, part.2, pt3
+// "Part"/"pt" before the year belongs to the title ("Deathly Hallows Part 1 (2010)")
+export function detectPartNumber(filename: string, year: number | null = null): PartMatch | null {
+  const match = filename.match(/(?:^|[\s._\-\[(])(cd|disc|disk|part|pt)[\s._\-]?(\d{1,2})(?=$|[\s._\-\])])/i);
+  if (!match || match.index === undefined) return null;
+
+  const keyword = match[1].toLowerCase();
+  if ((keyword === "part" || keyword === "pt") && year !== null) {
+    const yearIndex = filename.indexOf(year.toString());
+    if (yearIndex > match.index) return null;
+  }
+
+  const partNumber = parseInt(match[2], 10);
+  if (partNumber < 1) return null;
+  return { partNumber, index: match.index };
+}
+
+// Edition markers and their display labels, in the order they are reported
+const EDITION_PATTERNS: Array<[RegExp, string | ((m: RegExpMatchArray) => string)]> = [
+  [/\bdirector'?s\s*cut\b/i, "Director's Cut"],
+  [/\bextended\s*(?:cut|version)\b/i, "Extended Cut"],
+  [/\bextended(?:\s*edition)?\b/i, "Extended Edition"],
+  [/\btheatrical(?:\s*(?:cut|edition|version))?\b/i, "Theatrical Cut"],
+  [/\bfinal\s*cut\b/i, "Final Cut"],
+  [/\bultimate\s*(?:cut|edition)\b/i, "Ultimate Edition"],
+  [/\bcollector'?s\s*edition\b/i, "Collector's Edition"],
+  [/\bspecial\s*edition\b/i, "Special Edition"],
+  [/\b(\d{1,2}(?:st|nd|rd|th))\s*anniversary(?:\s*edition)?\b/i, (m) => `${m[1].toLowerCase()} Anniversary Edition`],
+  [/\bcriterion\b/i, "Criterion"],
+  [/\bunrated\b/i, "Unrated"],
+  [/\buncut\b/i, "Uncut"],
+  [/\bremastered\b/i, "Remastered"],
+  [/\bimax\b/i, "IMAX"],
+];
+
+// Detect a movie edition (Director's Cut, Extended, Unrated, IMAX, ...).
+// Several markers combine, e.g. "Extended Edition Remastered". Only the text after the
+// title (from titleEnd, past the year or part marker) is searched, so titles keep their
+// words: "The.Extended.Family.2019", "Unrated.2020" and "Final.Cut.2012" have no edition.
+export function detectEdition(filename: string, titleEnd = 0): string | null {
+  let text = filename.substring(titleEnd).replace(/\.[a-zA-Z0-9]{2,4}$/, "").replace(/[._\-]/g, " ");
+  const labels: string[] = [];
+
+  for (const [pattern, label] of EDITION_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const value = typeof label === "string" ? label : label(match);
+    if (!labels.includes(value)) labels.push(value);
+    // Consume the marker so "Extended Cut" isn't also reported as "Extended Edition"
+    text = text.replace(pattern, " ");
+  }
+
+  return labels.length > 0 ? labels.join(" ") : null;
+}
+
+// Filename suffix for an edition in the configured naming style
+export function formatEdition(edition: string, style: EditionNaming = "jellyfin"): string {
+  const safe = edition.replace(/[{}\/\\:*?"<>|]/g, "");
+  return style === "plex" ? ` {edition-${safe}}` : ` - ${safe}`;
+}
+
+// Longest episode title kept in a filename; longer titles are cut at a word boundary
+const MAX_EPISODE_TITLE_LENGTH = 80;
+
+// Make an episode title safe as part of a filename on Windows, macOS and Linux:
+// "Part 1: Pilot?" -> "Part 1 - Pilot". Slashes become dashes, other reserved and control
+// characters are dropped, and trailing dots and spaces (invalid on Windows) are trimmed.
+export function sanitizeEpisodeTitle(title: string): string {
+  let safe = title
+    .replace(/[\x00-\x1f\x7f]/g, "")
+    .replace(/\s*:\s*/g, " - ")
+    .replace(/[\/\\]/g, "-")
+    .replace(/[*?"<>|]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (safe.length > MAX_EPISODE_TITLE_LENGTH) {
+    const cut = safe.slice(0, MAX_EPISODE_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(" ");
+    safe = lastSpace > MAX_EPISODE_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut;
+  }
+  return safe.replace(/[.\s-]+$/, "");
+}
+
+// Recognised values for each quality attribute, best first (also used for UI filters)
+export const QUALITY_VALUES = {
+  resolution: ["2160p", "1080p", "720p", "576p", "480p"],
+  source: ["Remux", "BluRay", "WEB-DL", "WEBRip", "WEB", "HDTV", "DVD", "HDRip", "Telesync", "CAM"],
+  videoCodec: ["AV1", "HEVC", "VP9", "AVC", "MPEG-2", "XviD", "DivX"],
+  dynamicRange: ["Dolby Vision", "HDR10+", "HDR10", "HLG", "HDR", "SDR"],
+  audioCodec: [
+    "TrueHD Atmos", "TrueHD", "DTS:X", "DTS-HD MA", "DTS-HD", "DD+ Atmos", "DD+",
+    "DTS", "DD", "FLAC", "Opus", "AAC", "MP3",
+  ],
+} as const;
+
+// Ordered [pattern, value] rules per attribute; the first match wins.
+// Patterns are matched as whole tags but may be followed by digits (DDP5.1, HDR10).
+const QUALITY_RULES: Record<Exclude<keyof MediaQuality, "channels">, Array<[string, string]>> = {
+  resolution: [
+    ["2160p|4k|uhd|3840x2160", "2160p"],
+    ["1080[pi]|1920x1080", "1080p"],
+    ["720p|1280x720", "720p"],
+    ["576[pi]", "576p"],
+    ["480[pi]", "480p"],
+  ],
+  source: [
+    ["remux", "Remux"],
+    ["blu-?ray|bdrip|brrip|bd25|bd50", "BluRay"],
+    ["web-?dl", "WEB-DL"],
+    ["web-?rip", "WEBRip"],
+    ["web", "WEB"],
+    ["hdtv|pdtv", "HDTV"],
+    ["dvd-?rip|dvd[59]?|dvdscr", "DVD"],
+    ["hdrip", "HDRip"],
+    ["telesync|hdts", "Telesync"],
+    ["hdcam|cam(?:rip)?", "CAM"],
+  ],
+  videoCodec: [
+    ["av1", "AV1"],
+    ["x265|h\\.?265|hevc", "HEVC"],
+    ["vp9", "VP9"],
+    ["x264|h\\.?264|avc", "AVC"],
+    ["mpeg-?2", "MPEG-2"],
+    ["xvid", "XviD"],
+    ["divx", "DivX"],
+  ],
+  dynamicRange: [
+    ["dolby[ .-]?vision|dovi|dv", "Dolby Vision"],
+    ["hdr10(?:\\+|plus)", "HDR10+"],
+    ["hdr10", "HDR10"],
+    ["hlg", "HLG"],
+    ["hdr", "HDR"],
+    ["sdr", "SDR"],
+  ],
+  audioCodec: [
+    ["true-?hd", "TrueHD"],
+    ["dts[ .-]?x", "DTS:X"],
+    ["dts-?hd[ .-]?ma", "DTS-HD MA"],
+    ["dts-?hd", "DTS-HD"],
+    ["ddp|dd\\+|e-?ac-?3", "DD+"],
+    ["dts", "DTS"],
+    ["dd|ac-?3", "DD"],
+    ["flac", "FLAC"],
+    ["opus", "Opus"],
+    ["aac", "AAC"],
+    ["mp3", "MP3"],
+  ],
+};
+
+function matchesQualityTag(text: string, pattern: string): boolean {
+  return new RegExp(`(?<![a-z0-9])(?:${pattern})(?![a-z])`, "i").test(text);
+}
+
+// Read resolution, source, codecs, dynamic range and audio from a release name
+export function detectQuality(filename: string): MediaQuality {
+  const text = filename.replace(/\.[a-zA-Z0-9]{2,4}$/, "").replace(/_/g, " ");
+
+  const pick = (attribute: keyof typeof QUALITY_RULES): string | null => {
+    for (const [pattern, value] of QUALITY_RULES[attribute]) {
+      if (matchesQualityTag(text, pattern)) return value;
+    }
+    return null;
+  };
+
+  let audioCodec = pick("audioCodec");
+  // Atmos rides on TrueHD or DD+ streams
+  if (audioCodec && (audioCodec === "TrueHD" || audioCodec === "DD+") && matchesQualityTag(text, "atmos")) {
+    audioCodec = `${audioCodec} Atmos`;
+  }
+
+  // 5.1 / 7.1 / 2.0, but not the tail of a version or codec number like x265.5.1
+  const channelsMatch = text.match(/(?<!\d)(?<!\d\.)([1-9])[. ]([01])(?:ch)?(?!\d)(?!\.\d)/i);
+
+  return {
+    resolution: pick("resolution"),
+    source: pick("source"),
+    videoCodec: pick("videoCodec"),
+    dynamicRange: pick("dynamicRange"),
+    audioCodec,
+    channels: channelsMatch ? `${channelsMatch[1]}.${channelsMatch[2]}` : null,
+  };
+}
+
+// Jellyfin multi-version label from quality attributes, e.g. "2160p HDR10" for
+// "Movie (2001) - 2160p HDR10.mkv". `detailed` adds the source to tell apart two
+// copies with the same resolution. Null when the quality is unknown.
+export function qualityVersionLabel(
+  quality: MediaQuality | null | undefined,
+  detailed: boolean = false
+): string | null {
+  if (!quality) return null;
+  const parts = [
+    quality.resolution,
+    quality.dynamicRange && quality.dynamicRange !== "SDR" ? quality.dynamicRange : null,
+    detailed || !quality.resolution ? quality.source : null,
+  ].filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+// Release group: fansub "[Group] ..." prefix or scene "...-GROUP" suffix
+export function detectReleaseGroup(filename: string): string | null {
+  const base = filename.replace(/\.[a-zA-Z0-9]{2,4}$/, "");
+  const fansub = base.match(/^\s*\[([^\]]+)\]/);
+  if (fansub) return fansub[1].trim();
+  const scene = base.match(/-([A-Za-z0-9]{2,20})(?:\[[^\]]*\])?$/);
+  if (scene && !/^\d+$/.test(scene[1])) return scene[1];
+  return null;
+}
+
+// All episode numbers a stored item or parse result covers
+export function getEpisodeNumbers(item: {
+  episode: number | null;
+  episodes?: number[] | null;
+}): number[] {
+  if (item.episodes && item.episodes.length > 0) return item.episodes;
+  return item.episode !== null ? [item.episode] : [];
+}
+
+// Format the Jellyfin episode code: S01E02, or S01E01-E03 for multi-episode files
+export function formatEpisodeCode(season: number, episodes: number[]): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const first = episodes[0];
+  const last = episodes[episodes.length - 1];
+  return first === last
+    ? `S${pad(season)}E${pad(first)}`
+    : `S${pad(season)}E${pad(first)}-E${pad(last)}`;
+}
+
+// Get lowercase file extension including the dot
+export function getExtension(filename: string): string {
+  const match = filename.match(/\.[a-zA-Z0-9]{2,4}$/);
+  return match ? match[0].toLowerCase() : "";
+}
+
+// Token-based parser: strips quality tags, release groups, and extracts core name
+export function tokenizeFilename(filename: string): string[] {
+  // Remove extension
+  let name = filename.replace(/\.[a-zA-Z0-9]{2,4}$/, "");
+  // Replace delimiters with spaces
+  name = name.replace(/[._\-\[\]()]/g, " ");
+  // Split into tokens
+  return name.split(/\s+/).filter(t => t.length > 0);
+}
+
+// Quality and release tags to remove (all lowercase for normalized comparison)
+const QUALITY_TAGS = new Set([
+  '720p', '1080p', '2160p', '4k', 'hdtv', 'web', 'webrip', 'webdl', 'web-dl',
+  'bluray', 'brrip', 'bdrip', 'dvdrip', 'hdrip', 'hdtvrip',
+  'x264', 'x265', 'hevc', 'h264', 'h265', 'avc',
+  'aac', 'ac3', 'dts', 'ddp', 'ddp5', 'dd5', 'ddp51', 'atmos', 'truehd',
+  'proper', 'repack', 'internal', 'readnfo', 'extended', 'uncut', 'unrated',
+  '10bit', '8bit', 'hdr', 'hdr10', 'sdr', 'dv', 'dolby', 'vision',
+  'amzn', 'nf', 'hmax', 'dsnp', 'atvp', 'pcok', 'hulu', 'max',
+  // Release groups / uploaders
+  'telly', 'yts', 'rarbg', 'eztv', 'ettv', 'lol', 'dimension', 'sparks',
+  'ntg', 'ntb', 'flux', 'phoenix', 'ggez', 'ggwp', 'cakes', 'gossip', 
+  'glhf', 'cmrg', 'sigma', 'mkvcage', 'pahe', 'psa', 'tepes',
+  'successors', 'hone', 'evo', 'fgt', 'yify', 'galactica', 'memento',
+  'syncopy', 'nogrp', 'ion10', 'playwave', 'frds', 'npms', 'deejayahmed'
+]);
+
+// Normalize token for quality tag matching (remove dots, lowercase)
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[.\-]/g, '');
+}
+
+// Check if token is a quality/release tag
+function isQualityTag(token: string): boolean {
+  const normalized = normalizeToken(token);
+  return QUALITY_TAGS.has(normalized);
+}
+
+// Get tokens before any S01E01 pattern or quality tags
+function extractSeriesTokens(tokens: string[]): string[] {
+  const result: string[] = [];
+  let hasNonNumericToken = false;
+  
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const lower = token.toLowerCase();
+    const isNumeric = /^\d+$/.test(token);
+    
+    // Stop at S01E01 pattern, including chained and ranged codes (S01E01E02, S01E01-E03)
+    if (/^s\d{1,2}e\d{1,3}(?:-?e\d{1,3}|-\d{1,3})*$/i.test(token)) break;
+    // Stop at season marker
+    if (/^s\d{1,2}$/i.test(token)) break;
+    // Stop at 1x01 pattern
+    if (/^\d{1,2}x\d{1,3}$/i.test(token)) break;
+    
+    // Skip leading quality/release tags (before we have real title tokens)
+    const isReleaseGroup = RELEASE_GROUPS.some(g => lower === g.toLowerCase());
+    if (!hasNonNumericToken && (isQualityTag(token) || isReleaseGroup)) continue;
+    
+    // Stop at quality/release tags (after we have title tokens)
+    if (hasNonNumericToken && isQualityTag(token)) break;
+    // Stop at year in parentheses style (only after we have title tokens)
+    if (/^(19|20)\d{2}$/.test(token) && hasNonNumericToken) break;
+    // Stop at release group patterns (only after we have title tokens)
+    if (hasNonNumericToken && isReleaseGroup) break;
+    // Stop at pure numbers that look like episode numbers (only after we have non-numeric tokens)
+    if (isNumeric && hasNonNumericToken && parseInt(token) <= 50) break;
+    
+    if (!isNumeric) hasNonNumericToken = true;
+    result.push(token);
+  }
+  
+  return result;
+}
+
+// Find longest common prefix of token arrays
+function longestCommonPrefix(tokenArrays: string[][]): string[] {
+  if (tokenArrays.length === 0) return [];
+  if (tokenArrays.length === 1) return tokenArrays[0];
+  
+  const first = tokenArrays[0];
+  const result: string[] = [];
+  
+  for (let i = 0; i < first.length; i++) {
+    const token = first[i].toLowerCase();
+    let allMatch = true;
+    
+    for (let j = 1; j < tokenArrays.length; j++) {
+      if (i >= tokenArrays[j].length || tokenArrays[j][i].toLowerCase() !== token) {
+        allMatch = false;
+        break;
+      }
+    }
+    
+    if (allMatch) {
+      result.push(first[i]);
+    } else {
+      break;
+    }
+  }
+  
+  return result;
+}
+
+// Extract series name from filename (single file)
+export function extractSeriesName(filename: string): string {
+  const tokens = tokenizeFilename(filename);
+  const seriesTokens = extractSeriesTokens(tokens);
+  
+  if (seriesTokens.length > 0) {
+    // Title case
+    return seriesTokens.map(t => 
+      t.charAt(0).toUpperCase() + t.slice(1).toLowerCase()
+    ).join(" ");
+  }
+  
+  return cleanFilename(filename);
+}
+
+// Batch consensus: find series name from multiple filenames
+// Only returns consensus if high overlap across files (avoids mixed directory issues)
+export function findSeriesNameByConsensus(filenames: string[]): string | null {
+  if (filenames.length < 2) return null;
+  
+  const tokenArrays = filenames.map(f => {
+    const tokens = tokenizeFilename(f);
+    return extractSeriesTokens(tokens);
+  }).filter(t => t.length > 0);
+  
+  if (tokenArrays.length < 2) return null;
+  
+  const commonPrefix = longestCommonPrefix(tokenArrays);
+  if (commonPrefix.length < 2) return null;
+  
+  // Validation: need at least 1 non-numeric word for a valid series name
+  // (keeps numeric tokens like "3" in "3 Body Problem")
+  const nonNumericCount = commonPrefix.filter(t => !/^\d+$/.test(t)).length;
+  if (nonNumericCount < 1) return null;
+  
+  // Guard: only use consensus if at least 70% of files share this prefix
+  // This prevents applying wrong names to mixed directories
+  const minOverlap = Math.ceil(tokenArrays.length * 0.7);
+  let matchCount = 0;
+  
+  for (const tokens of tokenArrays) {
+    let matches = true;
+    for (let i = 0; i < commonPrefix.length; i++) {
+      if (i >= tokens.length || tokens[i].toLowerCase() !== commonPrefix[i].toLowerCase()) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) matchCount++;
+  }
+  
+  if (matchCount < minOverlap) return null;
+  
+  // Build series name from ALL prefix tokens (including numeric ones like "3")
+  const seriesName = commonPrefix.map(t => 
+    /^\d+$/.test(t) ? t : t.charAt(0).toUpperCase() + t.slice(1).toLowerCase()
+  ).join(" ");
+  
+  // Guard: series name should be at least 3 characters total
+  if (seriesName.length < 3) return null;
+  
+  return seriesName;
+}
+
+// Check if file is a video
+export function isVideoFile(filename: string): boolean {
+  return VIDEO_EXTENSIONS.includes(getExtension(filename));
+}
+
+// Capitalize first letter of each word
+export function titleCase(str: string): string {
+  return str.replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+// Build the metadata search query for a detected name
+export function buildSearchQuery(name: string): string {
+  return extractTitleForSearch(cleanForTmdbSearch(name));
+}
+
+// Parse a media filename.
+// consensusName is the series name shared by sibling files in the same folder
+// (see findSeriesNameByConsensus); it overrides the per-file name for TV shows.
+export function parseMediaFilename(
+  filename: string,
+  consensusName?: string | null,
+  options: ParseOptions = {}
+): ParsedMedia {
+  const extension = getExtension(filename);
+  const cleanedName = cleanFilename(filename);
+  const year = extractYear(filename);
+
+  // Fansub releases are anime even outside an Anime library folder
+  const anime = detectAnimeRelease(filename);
+  const isAnime =
+    !!options.anime ||
+    (anime.releaseGroup !== null && (anime.absoluteEpisode !== null || anime.crc32 !== null));
+  const useAbsolute = isAnime && anime.absoluteEpisode !== null;
+
+  // Checksums like [5E12AB34] would otherwise read as episode markers
+  const tvPattern: EpisodeMatch | null = useAbsolute
+    ? { season: 1, episode: anime.absoluteEpisode!, episodes: [anime.absoluteEpisode!] }
+    : detectTVShowPattern(filename.replace(CRC32_PATTERN, " "));
+  // Only treat the file as date-based when there is no explicit episode number
+  const airDate = tvPattern ? null : detectAirDate(filename);
+  const special = tvPattern || airDate ? null : detectSpecial(filename);
+  const part = tvPattern || airDate || special ? null : detectPartNumber(filename, year);
+
+  let detectedType: MediaType = "unknown";
+  let detectedName = cleanedName;
+  let detectedYear = year;
+  let confidence = 50;
+  // Where a movie's title ends; editions are only looked for after it
+  let titleEnd = 0;
+
+  if (tvPattern) {
+    detectedType = "tvshow";
+    confidence = 80;
+
+    // Use improved series name extraction
+    // (a leading [Group] tag is never part of the series name)
+    detectedName = useAbsolute && anime.title
+      ? anime.title
+      : extractSeriesName(filename.replace(/^\s*\[[^\]]+\]\s*/, ""));
+  } else if (airDate) {
+    detectedType = "tvshow";
+    confidence = 75;
+
+    // Name stops at the date; the date's year is the broadcast year, not the show's
+    detectedName = extractSeriesName(filename);
+    detectedYear = null;
+  } else if (special) {
+    detectedType = "tvshow";
+    confidence = 70;
+    detectedName = special.seriesName;
+    // A year beside a special is when it aired ("Doctor Who 2023 Christmas Special"), not
+    // the show's; the series year comes from the metadata match instead
+    detectedYear = null;
+  } else if (year) {
+    detectedType = "movie";
+    confidence = 70;
+
+    const yearIndex = filename.indexOf(year.toString());
+    titleEnd = yearIndex + 4;
+    if (yearIndex > 0) {
+      // "Unrated.2020.1080p.mkv" is the movie "Unrated", not an unrated "2020"
+      detectedName = cleanFilename(filename.substring(0, yearIndex), true);
+    }
+  } else if (part && part.index > 0) {
+    // Stacked parts without a year are still movies; the name ends at the marker
+    detectedType = "movie";
+    confidence = 60;
+    titleEnd = part.index;
+    detectedName = cleanFilename(filename.substring(0, part.index), true);
+  }
+
+  if (detectedName.length > 3 && detectedName.length < 100) {
+    confidence += 10;
+  }
+
+  // Boost confidence when the folder agrees on the series name
+  // (fansub titles are already exact; their consensus would include the group tag)
+  if (detectedType === "tvshow" && !(useAbsolute && anime.title) && consensusName && consensusName.length >= 3) {
+    detectedName = consensusName;
+    confidence += 15;
+  }
+
+  detectedName = detectedName || cleanedName;
+
+  return {
+    originalFilename: filename,
+    cleanedName,
+    detectedType,
+    detectedName,
+    searchQuery: buildSearchQuery(detectedName),
+    year: detectedYear,
+    // ?? keeps season 0 (specials) instead of treating it as missing
+    season: tvPattern?.season ?? (special ? 0 : null),
+    episode: tvPattern?.episode ?? special?.episode ?? null,
+    episodes: tvPattern?.episodes ?? (special?.episode != null ? [special.episode] : null),
+    airDate,
+    absoluteEpisode: useAbsolute ? anime.absoluteEpisode : null,
+    crc32: anime.crc32,
+    isAnime,
+    specialTitle: special && special.episode === null ? special.title : null,
+    partNumber: detectedType === "movie" ? part?.partNumber ?? null : null,
+    edition: detectedType === "movie" ? detectEdition(filename, titleEnd) : null,
+    quality: detectQuality(filename),
+    extension,
+    confidence: Math.min(confidence, 100),
+  };
+}
+
+// Build a Jellyfin-compatible destination path from a parsed file and its resolved naming
+export function buildDestinationPath(
+  parsed: ParsedMedia,
+  basePaths: DestinationBasePaths,
+  naming: DestinationNaming
+): string {
+  const { detectedType, season, episode, extension } = parsed;
+  const yearStr = naming.year ? ` (${naming.year})` : "";
+  const seriesRoot = parsed.isAnime && basePaths.anime ? basePaths.anime : basePaths.tvshows;
+
+  if (detectedType === "movie") {
+    const folderName = `${naming.name}${yearStr}`;
+    // Jellyfin stacks "Movie (2001) - part1.avi", "Movie (2001) - part2.avi"
+    const partStr = parsed.partNumber ? ` - part${parsed.partNumber}` : "";
+    // Editions share the movie folder, so only the filename tells them apart
+    const editionStr = parsed.edition ? formatEdition(parsed.edition, naming.editionNaming) : "";
+    const fileName = `${naming.name}${yearStr}${editionStr}${partStr}${extension}`;
+    return `${basePaths.movies}/${folderName}/${fileName}`;
+  }
+
+  if (detectedType === "tvshow" && season !== null && episode !== null) {
+    const seriesFolder = naming.seriesFolder || `${naming.name}${yearStr}`;
+    const seasonFolder = `Season ${season.toString().padStart(2, "0")}`;
+    const episodeStr = formatEpisodeCode(season, parsed.episodes || [episode]);
+
+    // Extract just the series name for the filename
+    const seriesNameForFile = seriesFolder.replace(/\s*\(\d{4}\)$/, "");
+    const episodeTitle = naming.episodeTitle ? sanitizeEpisodeTitle(naming.episodeTitle) : "";
+    const titleStr = episodeTitle ? ` - ${episodeTitle}` : "";
+    const fileName = `${seriesNameForFile} - ${episodeStr}${titleStr}${extension}`;
+    return `${seriesRoot}/${seriesFolder}/${seasonFolder}/${fileName}`;
+  }
+
+  // Unnumbered special: "Season 00/Show - Christmas Special.mkv"
+  if (detectedType === "tvshow" && season === 0 && parsed.specialTitle) {
+    const seriesFolder = naming.seriesFolder || `${naming.name}${yearStr}`;
+    const seriesNameForFile = seriesFolder.replace(/\s*\(\d{4}\)$/, "");
+    const fileName = `${seriesNameForFile} - ${parsed.specialTitle}${extension}`;
+    return `${seriesRoot}/${seriesFolder}/Season 00/${fileName}`;
+  }
+
+  // Unresolved daily show: year folder + date, e.g. "Season 2024/Show - 2024-03-15.mkv"
+  if (detectedType === "tvshow" && parsed.airDate) {
+    const seriesFolder = naming.seriesFolder || `${naming.name}${yearStr}`;
+    const seasonFolder = `Season ${parsed.airDate.slice(0, 4)}`;
+    const seriesNameForFile = seriesFolder.replace(/\s*\(\d{4}\)$/, "");
+    const fileName = `${seriesNameForFile} - ${parsed.airDate}${extension}`;
+    return `${seriesRoot}/${seriesFolder}/${seasonFolder}/${fileName}`;
+  }
+
+  return `${basePaths.movies}/Unsorted/${parsed.cleanedName}${extension}`;
+}
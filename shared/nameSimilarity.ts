@@ -0,0 +1,45 @@
+import { cleanFilename } from "./mediaParser";
+
+// Name normalization and similarity shared by duplicate grouping, metadata match scoring
+// and the client, so previews compare names exactly like the server.
+
+// Helper: normalize for comparison
+export function normalizeForComparison(name: string): string {
+  return normalizeCleaned(cleanFilename(name));
+}
+
+// Helper: normalize a name that already went through cleanFilename
+export function normalizeCleaned(cleaned: string): string {
+  return cleaned
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+    .trim();
+}
+
+// Helper: calculate similarity (0-100) of two names already passed through
+// normalizeForComparison, from their Levenshtein distance
+export function calculateSimilarity(s1: string, s2: string): number {
+  if (s1 === s2) return 100;
+  if (s1.length === 0 || s2.length === 0) return 0;
+
+  if (s1.includes(s2) || s2.includes(s1)) {
+    const minLen = Math.min(s1.length, s2.length);
+    const maxLen = Math.max(s1.length, s2.length);
+    return Math.round((minLen / maxLen) * 100);
+  }
+
+  // Two-row Levenshtein
+  let previous = Array.from({ length: s2.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s1.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= s2.length; j++) {
+      const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  const maxLen = Math.max(s1.length, s2.length);
+  const distance = previous[s2.length];
+  return Math.round(((maxLen - distance) / maxLen) * 100);
+}
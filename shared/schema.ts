@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -7,6 +7,76 @@ import { sql } from "drizzle-orm";
 export type MediaType = "movie" | "tvshow" | "unknown";
 export type OrganizationStatus = "pending" | "organized" | "conflict" | "duplicate";
 
+// Technical release attributes read from the filename (null when not stated)
+export interface MediaQuality {
+  resolution: string | null;
+  source: string | null;
+  videoCodec: string | null;
+  dynamicRange: string | null;
+  audioCodec: string | null;
+  channels: string | null;
+}
+
+// Existing file in a destination library that an incoming item duplicates
+export interface LibraryMatch {
+  path: string;
+  fileSize: string | null;
+  quality: MediaQuality | null;
+}
+
+// A metadata search result considered for an item, with its ranking score (0-100)
+export interface MatchCandidate {
+  provider: MetadataProviderId;
+  id: string;
+  name: string;
+  year: number | null;
+  posterPath: string | null;
+  score: number;
+}
+
+// Weights and release group preferences for ranking duplicate copies
+export interface QualityProfile {
+  weights: {
+    resolution: number;
+    source: number;
+    videoCodec: number;
+    dynamicRange: number;
+    fileSize: number;
+    releaseGroup: number;
+  };
+  // Release groups to favour / penalise (case-insensitive)
+  preferredGroups: string[];
+  avoidedGroups: string[];
+}
+
+export const DEFAULT_QUALITY_PROFILE: QualityProfile = {
+  weights: {
+    resolution: 40,
+    source: 25,
+    videoCodec: 10,
+    dynamicRange: 10,
+    fileSize: 10,
+    releaseGroup: 15,
+  },
+  preferredGroups: [],
+  avoidedGroups: [],
+};
+
+// How an organized file reaches its library folder. hardlink and reflink fall back to
+// copy when the filesystem can't do them; everything except move leaves the source in place.
+export const TRANSFER_MODES = ["move", "copy", "hardlink", "symlink", "reflink"] as const;
+export type TransferMode = (typeof TRANSFER_MODES)[number];
+
+// What organizing does when the destination file already exists. Items left unresolved
+// get the "conflict" status and are listed for review in the Organizer.
+export const CONFLICT_POLICIES = ["skip", "overwrite", "keep_both", "replace_if_better", "conflicts_folder"] as const;
+export type ConflictPolicy = (typeof CONFLICT_POLICIES)[number];
+
+// Online metadata sources a match can come from. Each library tries its providers in the
+// configured order and falls back to the next one when a provider has no match.
+export const METADATA_PROVIDERS = ["tmdb", "tvdb", "omdb"] as const;
+export type MetadataProviderId = (typeof METADATA_PROVIDERS)[number];
+
 // Media Item - scanned files
 export const mediaItems = pgTable("media_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -18,11 +88,41 @@ export const mediaItems = pgTable("media_items", {
   detectedName: text("detected_name"),
   cleanedName: text("cleaned_name"),
   tmdbId: integer("tmdb_id"),
+  // Canonical name from the metadata match, whichever provider produced it
   tmdbName: text("tmdb_name"),
   posterPath: text("poster_path"),
+  // Provider that produced the match and its ID there (tmdbId is only set for TMDB)
+  metadataProvider: text("metadata_provider").$type<MetadataProviderId>(),
+  metadataId: text("metadata_id"),
+  // Ranking score of the chosen match and the best-scoring candidates, best first
+  matchScore: integer("match_score"),
+  matchCandidates: jsonb("match_candidates").$type<MatchCandidate[]>(),
+  // Confidence was below the review threshold: not auto-organized until approved
+  needsReview: boolean("needs_review").default(false),
   year: integer("year"),
   season: integer("season"),
   episode: integer("episode"),
+  // Every episode a multi-episode file covers (S01E01E02 -> [1, 2])
+  episodes: integer("episodes").array(),
+  // Broadcast date (YYYY-MM-DD) for date-based daily shows
+  airDate: text("air_date"),
+  // Anime: absolute episode number, release checksum and library routing
+  absoluteEpisode: integer("absolute_episode"),
+  crc32: text("crc32"),
+  isAnime: boolean("is_anime").default(false),
+  // Stacked movie part number (CD1/CD2, Part 1/Part 2)
+  partNumber: integer("part_number"),
+  // Movie edition ("Director's Cut", "Extended Edition")
+  edition: text("edition"),
+  quality: jsonb("quality").$type<MediaQuality>(),
+  // Partial content hash ("<size>:<sha1 of first/middle/last chunks>")
+  fingerprint: text("fingerprint"),
+  // Set when the destination library already holds this movie/episode; cleared once resolved
+  libraryMatch: jsonb("library_match").$type<LibraryMatch>(),
+  // Jellyfin multi-version label ("2160p HDR10") when organized as an additional version
+  versionLabel: text("version_label"),
+  // Where the file still lives when it was organized by copying or linking instead of moving
+  sourcePath: text("source_path"),
   episodeTitle: text("episode_title"),
   status: text("status").$type<OrganizationStatus>().default("pending"),
   destinationPath: text("destination_path"),
@@ -64,6 +164,8 @@ export const organizationLogs = pgTable("organization_logs", {
   toPath: text("to_path"),
   success: boolean("success").default(true),
   message: text("message"),
+  // How the file reached its destination, for organize actions
+  transferMode: text("transfer_mode").$type<TransferMode>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -75,7 +177,7 @@ export const settings = pgTable("settings", {
 });
 
 // Scan Jobs - background scan tracking
-export type ScanJobStatus = "pending" | "running" | "completed" | "failed";
+export type ScanJobStatus = "pending" | "running" | "paused" | "completed" | "failed" | "cancelled";
 export const scanJobs = pgTable("scan_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   status: text("status").$type<ScanJobStatus>().default("pending"),
@@ -89,7 +191,7 @@ export const scanJobs = pgTable("scan_jobs", {
 });
 
 // Organization Jobs - background organize tracking
-export type OrganizeJobStatus = "pending" | "running" | "completed" | "failed";
+export type OrganizeJobStatus = "pending" | "running" | "paused" | "completed" | "failed" | "cancelled" | "rolled_back";
 export const organizeJobs = pgTable("organize_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   status: text("status").$type<OrganizeJobStatus>().default("pending"),
@@ -103,6 +205,39 @@ export const organizeJobs = pgTable("organize_jobs", {
   completedAt: timestamp("completed_at"),
 });
 
+// Organize journal - every filesystem change an organize job makes, in order, so the
+// job can be rolled back. move/rename: file fromPath -> toPath; copy: toPath was copied or
+// linked from fromPath, which stays in place; create_folder: toPath; delete_folder: fromPath
+// (an emptied source folder that was removed)
+export type JournalAction = "move" | "rename" | "copy" | "create_folder" | "delete_folder";
+export const organizeJournal = pgTable("organize_journal", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull(),
+  // The item being organized when the step happened
+  mediaItemId: varchar("media_item_id"),
+  sequence: integer("sequence").notNull(),
+  action: text("action").$type<JournalAction>().notNull(),
+  fromPath: text("from_path"),
+  toPath: text("to_path"),
+  // Size of the moved file, checked before moving it back
+  fileSize: text("file_size"),
+  // Media item of a library file quarantined by an overwrite, recreated when the file is
+  // moved back
+  displacedItem: jsonb("displaced_item").$type<MediaItem>(),
+  undoneAt: timestamp("undone_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// TMDB response cache - API responses keyed by request (path + query, without credentials),
+// so restarts and repeated scans don't fetch the same data again
+export const tmdbCache = pgTable("tmdb_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  // Response JSON as text
+  body: text("body").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
 // Insert schemas
 export const insertMediaItemSchema = createInsertSchema(mediaItems).omit({ id: true, createdAt: true });
 export const insertTvSeriesSchema = createInsertSchema(tvSeries).omit({ id: true });
@@ -111,6 +246,8 @@ export const insertOrganizationLogSchema = createInsertSchema(organizationLogs).
 export const insertSettingsSchema = createInsertSchema(settings).omit({ id: true });
 export const insertScanJobSchema = createInsertSchema(scanJobs).omit({ id: true, startedAt: true, completedAt: true });
 export const insertOrganizeJobSchema = createInsertSchema(organizeJobs).omit({ id: true, startedAt: true, completedAt: true });
+export const insertOrganizeJournalEntrySchema = createInsertSchema(organizeJournal).omit({ id: true, undoneAt: true, createdAt: true });
+export const insertTmdbCacheEntrySchema = createInsertSchema(tmdbCache).omit({ id: true });
 
 // Types
 export type MediaItem = typeof mediaItems.$inferSelect;
@@ -127,6 +264,10 @@ export type ScanJob = typeof scanJobs.$inferSelect;
 export type InsertScanJob = z.infer<typeof insertScanJobSchema>;
 export type OrganizeJob = typeof organizeJobs.$inferSelect;
 export type InsertOrganizeJob = z.infer<typeof insertOrganizeJobSchema>;
+export type OrganizeJournalEntry = typeof organizeJournal.$inferSelect;
+export type InsertOrganizeJournalEntry = z.infer<typeof insertOrganizeJournalEntrySchema>;
+export type TmdbCacheEntry = typeof tmdbCache.$inferSelect;
+export type InsertTmdbCacheEntry = z.infer<typeof insertTmdbCacheEntrySchema>;
 
 // Common release groups/sites to clean from filenames
 export const RELEASE_GROUPS = [
@@ -162,7 +303,7 @@ export const RELEASE_GROUPS = [
 
 // Video file extensions
 export const VIDEO_EXTENSIONS = [
-  ".mkv", ".mp4", ".avi", ".mov", ".wmv", ".flv", ".webm", ".m4v", ".mpg", ".mpeg", ".ts"
+  ".mkv", ".mp4", ".avi", ".mov", ".wmv", ".flv", ".webm", ".m4v", ".mpg", ".mpeg", ".ts", ".m2ts"
 ];
 
 // Users table (kept from original)